@@ -2,17 +2,26 @@
 
 import {Command} from 'commander'
 import {readFile} from 'fs/promises'
-import {existsSync} from 'fs'
-import {join, resolve} from 'path'
+import {existsSync, statSync} from 'fs'
+import {dirname, extname, isAbsolute, join, relative, resolve} from 'path'
+import {stringify as stringifyYaml} from 'yaml'
 import {defineConfig} from '../dist/config/index.js'
 import {
+  executeScript,
   executeScriptFromFile,
-  executeScriptFromString,
   formatExecutionResult,
   saveExecutionResult,
 } from '../dist/executor/engine.js'
+import {executeDataset, formatDatasetResult, resolveDataset, saveDatasetResult} from '../dist/executor/dataset.js'
 import {validateScript, formatValidationResults} from '../dist/actions/validator.js'
-import {parseScriptFromFile, parseScriptFromString} from '../dist/actions/parser.js'
+import {parseScriptFromFile} from '../dist/actions/parser.js'
+import {formatActionReference} from '../dist/actions/registry.js'
+import {loadPlugins, resolvePluginPaths} from '../dist/plugins/index.js'
+import {loadCheckpoint} from '../dist/executor/checkpoint.js'
+import {createDebugger, createTerminalPrompt} from '../dist/executor/debugger.js'
+import {compareRuns, getScriptFiles, recordStepEnds, waitForChange} from '../dist/executor/watch.js'
+import {launchBrowser} from '../dist/browser/controller.js'
+import {maskSecrets} from '../dist/browser/network.js'
 
 const program = new Command()
 
@@ -41,14 +50,17 @@ async function loadConfig(configPath) {
   }
 
   try {
-    // Dynamic import for ESM modules
-    const configModule = await import(`file://${fullPath}`)
+    // Dynamic import for ESM modules, versioned so watch mode picks up edits
+    const configModule = await import(`file://${fullPath}?mtime=${statSync(fullPath).mtimeMs}`)
     const config = configModule.default || configModule.config
-    
-    if (typeof config === 'function') {
-      return config()
-    } else if (typeof config === 'object') {
-      return defineConfig(config)
+
+    if (typeof config === 'function' || typeof config === 'object') {
+      const loaded = typeof config === 'function' ? await config() : defineConfig(config)
+      // Plugin module paths are relative to the config file
+      if (loaded.plugins) {
+        loaded.plugins = resolvePluginPaths(loaded.plugins, dirname(fullPath))
+      }
+      return loaded
     } else {
       console.log('⚠️  Invalid configuration format, using defaults')
       return defineConfig()
@@ -60,71 +72,219 @@ async function loadConfig(configPath) {
   }
 }
 
+/**
+ * Register the actions of the plugins listed in the configuration
+ */
+async function registerConfiguredPlugins(config) {
+  const result = await loadPlugins(config.plugins)
+  if (!result.success) {
+    console.error(`❌ ${result.error}`)
+    process.exit(1)
+  }
+  if (result.data.length > 0) {
+    console.log(`🧩 Plugins: ${result.data.join(', ')}`)
+  }
+}
+
+/**
+ * Abort the run on the first SIGINT/SIGTERM so teardown runs and the browser closes; exit on the second
+ */
+function handleShutdownSignals() {
+  const controller = new AbortController()
+  const onSignal = (signal) => {
+    if (controller.signal.aborted) {
+      console.error(`\n💥 ${signal} received again, exiting without cleanup`)
+      process.exit(130)
+    }
+    console.log(`\n⏹  ${signal} received, cancelling: running teardown and closing the browser...`)
+    controller.abort(new Error(`interrupted by ${signal}`))
+  }
+  process.on('SIGINT', onSignal)
+  process.on('SIGTERM', onSignal)
+  return controller.signal
+}
+
 /**
  * Execute automation script
  */
 async function executeCommand(scriptPath, options) {
   try {
-    // Load configuration
-    const config = await loadConfig(options.config)
-    
-    // Override config with CLI options
-    if (options.browser) {
-      config.browser.type = options.browser
-    }
-    if (options.headless !== undefined) {
-      config.browser.headless = options.headless
-    }
-    if (options.verbose !== undefined) {
-      config.logging.verbose = options.verbose
-    }
+    const config = await loadRunConfig(options)
 
     console.log('🚀 Starting web automation...')
     console.log(`📄 Script: ${scriptPath}`)
-    console.log(`🌐 Browser: ${config.browser.type}`)
+    console.log(`🌐 Browser: ${config.browser.type}${config.browser.channel ? ` (${config.browser.channel})` : ''}`)
     console.log(`👁️  Headless: ${config.browser.headless}`)
+    if (config.browser.userDataDir) {
+      console.log(`🗂️  Profile: ${config.browser.userDataDir}`)
+    }
     console.log()
 
-    const startTime = Date.now()
-    const result = await executeScriptFromFile(scriptPath, config)
+    const signal = handleShutdownSignals()
 
-    if (result.success) {
-      const executionTime = Date.now() - startTime
-      console.log('✅ Execution completed successfully!')
-      
-      if (options.output) {
-        const saveResult = await saveExecutionResult(result.data, options.output)
-        if (saveResult.success) {
-          console.log(`📁 Results saved to: ${options.output}`)
-        } else {
-          console.error(`❌ Failed to save results: ${saveResult.error}`)
-        }
-      }
+    // Parsed once, to tell whether the script declares a dataset and then to run it. Watch mode reports
+    // a script that fails to parse like a failed run and waits for it to be fixed.
+    const parseResult = await parseScriptFromFile(scriptPath)
+    if (!parseResult.success && !options.watch) {
+      console.error('❌ Execution failed!')
+      console.error(`Failed to parse script: ${parseResult.error}`)
+      process.exit(1)
+    }
+    const script = parseResult.success ? parseResult.data : undefined
 
-      // Show execution summary
-      if (options.verbose || config.logging.verbose) {
-        console.log()
-        console.log(formatExecutionResult(result.data))
-      } else {
-        console.log(`⏱️  Total time: ${executionTime}ms`)
-        console.log(`📊 Steps: ${result.data.stepsExecuted}/${result.data.totalSteps}`)
-        if (result.data.screenshots.length > 0) {
-          console.log(`📸 Screenshots: ${result.data.screenshots.length}`)
-        }
+    if (options.data || script?.dataset !== undefined) {
+      if (options.debug || options.watch) {
+        const option = options.debug ? '--debug' : '--watch'
+        console.error(`❌ ${option} cannot be combined with a dataset`)
+        process.exit(1)
       }
-      
-      // Show logging information
-      if (result.data.sessionId) {
-        console.log(`🆔 Session ID: ${result.data.sessionId}`)
+      return executeDatasetCommand(scriptPath, script, config, options, signal)
+    }
+    if (options.watch) {
+      if (options.debug) {
+        console.error('❌ --watch cannot be combined with --debug')
+        process.exit(1)
       }
-      if (result.data.logFilePath) {
-        console.log(`📝 Log file: ${result.data.logFilePath}`)
+      return watchCommand(scriptPath, script, config, options, signal)
+    }
+
+    // The debugger pauses before every step and reads commands from the terminal
+    const terminal = options.debug ? createTerminalPrompt() : undefined
+    if (terminal) {
+      console.log("🐞 Debugger: press Enter to run a step, type 'help' for all commands")
+      console.log()
+    }
+
+    const startTime = Date.now()
+    const result = await executeScript(script, config, {
+      scriptPath: resolve(scriptPath),
+      signal,
+      steps: getStepSelection(options),
+      hooks: terminal && createDebugger({prompt: terminal.prompt, scriptPath: resolve(scriptPath)}),
+    })
+    terminal?.close()
+    await reportExecutionResult(result, config, options, startTime)
+  } catch (error) {
+    console.error('💥 Unexpected error:', error.message)
+    if (options.verbose) {
+      console.error(error.stack)
+    }
+    process.exit(1)
+  }
+}
+
+/**
+ * Run the script again whenever it, a script it calls, the config or a plugin module changes, in the same browser
+ */
+async function watchCommand(scriptPath, script, config, options, signal) {
+  const configPath = resolve(options.config || 'auto.config.mts')
+  let browser
+  let previous
+
+  while (!signal.aborted) {
+    // A userDataDir profile is opened by every run itself, it cannot be shared
+    if (!browser && !config.browser.userDataDir) {
+      const launchResult = await launchBrowser(config)
+      if (!launchResult.success) {
+        console.error(`❌ ${launchResult.error}`)
+        process.exit(1)
       }
-    } else {
-      console.error('❌ Execution failed!')
-      console.error(result.error)
+      browser = launchResult.data
+    }
+
+    const startTime = Date.now()
+    const {events, steps} = recordStepEnds()
+    const runOptions = {signal, steps: getStepSelection(options), browser, events}
+    // The first run uses the script parsed by the run command, later ones parse the changed files again
+    const result = script
+      ? await executeScript(script, config, {scriptPath: resolve(scriptPath), ...runOptions})
+      : await executeScriptFromFile(scriptPath, config, runOptions)
+    script = undefined
+    printWatchRun(result, steps, previous, options, config, Date.now() - startTime)
+    if (result.success) {
+      previous = steps
+    }
+
+    // Plugin modules are imported again by the next run once they change
+    const pluginFiles = (config.plugins || []).filter((source) => typeof source === 'string' && isAbsolute(source))
+    const files = [
+      ...(await getScriptFiles(scriptPath)),
+      ...(existsSync(configPath) ? [configPath] : []),
+      ...pluginFiles.filter((file) => existsSync(file)),
+    ]
+    console.log(`👀 Watching ${files.length} file(s), press Ctrl+C to stop`)
+    const changed = await waitForChange(files, signal)
+    if (!changed) {
+      break
+    }
+
+    console.log()
+    console.log(`🔄 ${relative(process.cwd(), changed)} changed, running again...`)
+    if (changed === configPath) {
+      const launchSettings = getLaunchSettings(config)
+      config = await loadRunConfig(options)
+      if (browser && (getLaunchSettings(config) !== launchSettings || config.browser.userDataDir)) {
+        await browser.close()
+        browser = undefined
+      }
+    }
+  }
+
+  await browser?.close()
+  console.log('👋 Stopped watching')
+}
+
+/**
+ * Print the outcome of one watch run and the steps that changed since the previous one
+ */
+function printWatchRun(result, steps, previous, options, config, executionTime) {
+  if (!result.success) {
+    console.error(`❌ ${result.error}`)
+    return
+  }
+
+  const {data} = result
+  if (options.verbose || config.logging.verbose) {
+    console.log(formatExecutionResult(data))
+  }
+  const status = data.success ? '✅ Passed' : data.cancelled ? '⏹  Cancelled' : `❌ Failed: ${data.error}`
+  console.log(`${status} (${data.stepsExecuted}/${data.totalSteps} steps, ${executionTime}ms)`)
+  if (previous) {
+    const changes = compareRuns(previous, steps)
+    console.log(
+      changes.length > 0 ? changes.map((line) => `  ${line}`).join('\n') : '  No step changed since the previous run',
+    )
+  }
+}
+
+/**
+ * Continue a stopped run from its checkpoint
+ */
+async function resumeCommand(sessionId, options) {
+  try {
+    const config = await loadRunConfig(options)
+
+    const checkpointResult = await loadCheckpoint(config.logging.outputDir, sessionId)
+    if (!checkpointResult.success) {
+      console.error(`❌ ${checkpointResult.error}`)
+      process.exit(1)
+    }
+    const checkpoint = checkpointResult.data
+    if (!checkpoint.scriptPath) {
+      console.error(`❌ Checkpoint of session '${sessionId}' has no script file to resume`)
       process.exit(1)
     }
+
+    console.log('🔁 Resuming web automation...')
+    console.log(`📄 Script: ${checkpoint.scriptPath}`)
+    console.log(`⏯️  From step ${checkpoint.stepIndex + 1}: ${checkpoint.error}`)
+    console.log(`🌐 Page: ${checkpoint.url}`)
+    console.log()
+
+    const signal = handleShutdownSignals()
+    const startTime = Date.now()
+    const result = await executeScriptFromFile(checkpoint.scriptPath, config, {signal, resume: checkpoint})
+    await reportExecutionResult(result, config, options, startTime)
   } catch (error) {
     console.error('💥 Unexpected error:', error.message)
     if (options.verbose) {
@@ -134,6 +294,222 @@ async function executeCommand(scriptPath, options) {
   }
 }
 
+/**
+ * Run a login script once and save the session it ends with as a profile
+ */
+async function loginCommand(scriptPath, options) {
+  try {
+    const config = await loadRunConfig(options)
+    // Log in from scratch, whatever session the config starts with
+    config.browser.storageState = undefined
+    config.browser.saveStorageState = options.profile
+
+    console.log('🔑 Logging in...')
+    console.log(`📄 Script: ${scriptPath}`)
+    console.log(`👤 Profile: ${options.profile}`)
+    console.log()
+
+    const signal = handleShutdownSignals()
+    const startTime = Date.now()
+    const result = await executeScriptFromFile(scriptPath, config, {signal})
+    const saved =
+      result.success && result.data.logs.find((log) => log.action === 'session_save' && log.status === 'success')
+    if (saved) {
+      console.log(`💾 ${saved.message}`)
+      console.log(`   Use it with browser.storageState: '${options.profile}' or storageState in a script`)
+    }
+    await reportExecutionResult(result, config, options, startTime)
+  } catch (error) {
+    console.error('💥 Unexpected error:', error.message)
+    if (options.verbose) {
+      console.error(error.stack)
+    }
+    process.exit(1)
+  }
+}
+
+/**
+ * Load the configuration and override it with the CLI options of run, resume and login
+ */
+async function loadRunConfig(options) {
+  const config = await loadConfig(options.config)
+  await registerConfiguredPlugins(config)
+
+  if (options.browser) {
+    config.browser.type = options.browser
+  }
+  if (options.headless !== undefined) {
+    config.browser.headless = options.headless
+  }
+  if (options.debug) {
+    config.browser.headless = false
+  }
+  if (options.verbose !== undefined) {
+    config.logging.verbose = options.verbose
+  }
+  if (options.continueOnError) {
+    config.actions.continueOnError = true
+  }
+  if (options.channel) {
+    config.browser.channel = options.channel
+  }
+  if (options.executablePath) {
+    config.browser.executablePath = options.executablePath
+  }
+  if (options.userDataDir) {
+    config.browser.userDataDir = options.userDataDir
+  }
+  if (options.browserArg) {
+    config.browser.args = [...(config.browser.args || []), ...options.browserArg]
+  }
+  if (options.ignoreHttpsErrors) {
+    config.browser.ignoreHTTPSErrors = true
+  }
+  if (options.downloadsPath) {
+    config.browser.downloadsPath = options.downloadsPath
+  }
+  return config
+}
+
+/**
+ * Collect the values of a repeatable option
+ */
+function collectOption(value, previous = []) {
+  return [...previous, value]
+}
+
+/**
+ * Browser settings that need a new browser process when they change
+ */
+function getLaunchSettings(config) {
+  const {type, headless, slowMo, channel, executablePath, args, downloadsPath, proxy} = config.browser
+  return JSON.stringify([type, headless, slowMo, channel, executablePath, args, downloadsPath, proxy])
+}
+
+/**
+ * Print an execution result, save it with --output and exit with its status
+ */
+async function reportExecutionResult(result, config, options, startTime) {
+  if (result.success) {
+    const executionTime = Date.now() - startTime
+    if (result.data.success) {
+      console.log('✅ Execution completed successfully!')
+    } else if (result.data.cancelled) {
+      console.error(`⏹  ${result.data.error}`)
+    } else {
+      console.error(`❌ Execution failed: ${result.data.error}`)
+    }
+
+    if (options.output) {
+      const saveResult = await saveExecutionResult(result.data, options.output)
+      if (saveResult.success) {
+        console.log(`📁 Results saved to: ${options.output}`)
+      } else {
+        console.error(`❌ Failed to save results: ${saveResult.error}`)
+      }
+    }
+
+    // Show execution summary, always with expected/actual values when something failed
+    if (options.verbose || config.logging.verbose || !result.data.success) {
+      console.log()
+      console.log(formatExecutionResult(result.data))
+    } else {
+      console.log(`⏱️  Total time: ${executionTime}ms`)
+      const skipped = result.data.stepsSkipped ? `, ${result.data.stepsSkipped} skipped` : ''
+      console.log(`📊 Steps: ${result.data.stepsExecuted}/${result.data.totalSteps}${skipped}`)
+      if (result.data.screenshots.length > 0) {
+        console.log(`📸 Screenshots: ${result.data.screenshots.length}`)
+      }
+    }
+
+    // Show logging information
+    if (result.data.sessionId) {
+      console.log(`🆔 Session ID: ${result.data.sessionId}`)
+    }
+    if (result.data.logFilePath) {
+      console.log(`📝 Log file: ${result.data.logFilePath}`)
+    }
+    if (result.data.checkpointPath) {
+      console.log(`💾 Checkpoint saved, continue with: auto-run resume ${result.data.sessionId}`)
+    }
+
+    if (!result.data.success) {
+      process.exit(result.data.cancelled ? 130 : 1)
+    }
+  } else {
+    console.error('❌ Execution failed!')
+    console.error(result.error)
+    process.exit(1)
+  }
+}
+
+/**
+ * Build the step selection from --from, --to and --only
+ */
+function getStepSelection(options) {
+  return {
+    from: options.from,
+    to: options.to,
+    only: options.only?.split(',').map((reference) => reference.trim()),
+  }
+}
+
+/**
+ * Execute automation script once per dataset row
+ */
+async function executeDatasetCommand(scriptPath, script, config, options, signal) {
+  const parallel = options.parallel ? parseInt(options.parallel, 10) : 1
+  if (!Number.isInteger(parallel) || parallel < 1) {
+    console.error(`❌ Invalid --parallel value: ${options.parallel}`)
+    process.exit(1)
+  }
+
+  console.log(`🗂️  Dataset: ${options.data || 'from script'}`)
+  console.log(`🔀 Parallel: ${parallel}`)
+  console.log()
+
+  const rowsResult = await resolveDataset(script, {data: options.data, baseDir: dirname(resolve(scriptPath))})
+  const result = rowsResult.success
+    ? await executeDataset(script, config, rowsResult.data, {
+        parallel,
+        stopOnFailure: options.stopOnFailure,
+        signal,
+        steps: getStepSelection(options),
+      })
+    : rowsResult
+
+  if (!result.success) {
+    console.error('❌ Execution failed!')
+    console.error(result.error)
+    process.exit(1)
+  }
+
+  // Show failed rows in detail, all rows in verbose mode
+  result.data.iterations.forEach((iteration) => {
+    if (iteration.result && (iteration.status === 'failed' || options.verbose || config.logging.verbose)) {
+      console.log()
+      console.log(`Row ${iteration.index}:`)
+      console.log(formatExecutionResult(iteration.result))
+    }
+  })
+
+  console.log()
+  console.log(formatDatasetResult(result.data))
+
+  if (options.output) {
+    const saveResult = await saveDatasetResult(result.data, options.output)
+    if (saveResult.success) {
+      console.log(`📁 Results saved to: ${options.output}`)
+    } else {
+      console.error(`❌ Failed to save results: ${saveResult.error}`)
+    }
+  }
+
+  if (!result.data.success) {
+    process.exit(signal.aborted ? 130 : 1)
+  }
+}
+
 /**
  * Validate script command
  */
@@ -141,6 +517,7 @@ async function validateCommand(scriptPath, options) {
   try {
     console.log('🔍 Validating script...')
     console.log(`📄 Script: ${scriptPath}`)
+    await registerConfiguredPlugins(await loadConfig(options.config))
     console.log()
 
     const parseResult = await parseScriptFromFile(scriptPath)
@@ -155,19 +532,19 @@ async function validateCommand(scriptPath, options) {
 
     if (validationResult.valid) {
       console.log('✅ Script validation passed!')
-      
+
       if (validationResult.warnings.length > 0) {
         console.log()
         console.log('⚠️  Warnings:')
         console.log(formattedResult)
       }
-      
+
       console.log()
       console.log(`📊 Script info:`)
       console.log(`   Name: ${parseResult.data.name}`)
       console.log(`   Description: ${parseResult.data.description || 'No description'}`)
       console.log(`   Steps: ${parseResult.data.steps.length}`)
-      
+
       if (parseResult.data.baseUrl) {
         console.log(`   Base URL: ${parseResult.data.baseUrl}`)
       }
@@ -197,49 +574,50 @@ async function createExampleCommand(outputPath = 'example-script.json') {
       {
         type: 'navigate',
         url: 'https://example.com',
-        timeout: 10000
+        timeout: 10000,
       },
       {
         type: 'wait',
-        timeout: 2000
+        timeout: 2000,
       },
       {
-        type: 'screenshot'
+        type: 'screenshot',
       },
       {
         type: 'click',
         selector: 'button#submit',
-        timeout: 5000
+        timeout: 5000,
       },
       {
         type: 'type',
         selector: 'input[name="search"]',
         value: 'Hello World',
-        timeout: 5000
+        timeout: 5000,
       },
       {
         type: 'select',
         selector: 'select#category',
         value: 'technology',
-        timeout: 5000
+        timeout: 5000,
       },
       {
         type: 'scroll',
         selector: 'body',
-        value: 500
+        value: 500,
       },
       {
         type: 'wait',
-        timeout: 1000
+        timeout: 1000,
       },
       {
-        type: 'screenshot'
-      }
-    ]
+        type: 'screenshot',
+      },
+    ],
   }
 
   try {
-    await writeFile(outputPath, JSON.stringify(exampleScript, null, 2))
+    const isYaml = ['.yaml', '.yml'].includes(extname(outputPath).toLowerCase())
+    await writeFile(outputPath, isYaml ? stringifyYaml(exampleScript) : JSON.stringify(exampleScript, null, 2))
     console.log('✅ Example script created!')
     console.log(`📄 File: ${outputPath}`)
     console.log()
@@ -259,7 +637,7 @@ async function createExampleCommand(outputPath = 'example-script.json') {
  */
 async function initializeCLI() {
   const version = await getVersion()
-  
+
   program
     .name('auto')
     .description('Web automation tool powered by Playwright')
@@ -269,20 +647,74 @@ async function initializeCLI() {
   program
     .command('run')
     .description('Execute an automation script')
-    .argument('<script>', 'path to the automation script (JSON file)')
+    .argument('<script>', 'path to the automation script (JSON, JSON5/JSONC, YAML or TypeScript/JavaScript module)')
     .option('-c, --config <path>', 'path to configuration file', 'auto.config.mts')
     .option('-b, --browser <type>', 'browser type (chromium, firefox, webkit)')
+    .option('--channel <name>', 'installed Chrome or Edge to use instead of Chromium (chrome, msedge, ...)')
+    .option('--executable-path <path>', 'browser binary to launch')
+    .option('--user-data-dir <path>', 'persistent browser profile directory, kept between runs')
+    .option('--browser-arg <arg>', 'extra browser command line argument (repeatable)', collectOption)
+    .option('--ignore-https-errors', 'accept invalid and self-signed certificates')
+    .option('--downloads-path <path>', 'directory the browser saves downloads to')
     .option('--headless [value]', 'run in headless mode', true)
     .option('--no-headless', 'run in headed mode')
     .option('-o, --output <path>', 'save execution results to file')
     .option('-v, --verbose', 'enable verbose output')
+    .option('-d, --data <file>', 'run the script once per row of a CSV or JSON dataset')
+    .option('--parallel <count>', 'number of dataset rows to run at the same time', '1')
+    .option('--stop-on-failure', 'skip remaining dataset rows after the first failed row')
+    .option('--continue-on-error', 'go on with the next step after a failed step')
+    .option('--from <step>', 'start at this step (number, id or label)')
+    .option('--to <step>', 'stop after this step (number, id or label)')
+    .option('--only <steps>', 'run only these steps (comma-separated numbers, ids, labels or tags)')
+    .option('--debug', 'pause before every step in a headed browser and read debugger commands')
+    .option('-w, --watch', 'run again when the script, a script it calls, the config or a plugin module changes')
     .action(executeCommand)
 
+  // Resume command
+  program
+    .command('resume')
+    .description('Continue a failed or cancelled run from the step it stopped at')
+    .argument('<sessionId>', 'session ID of the stopped run')
+    .option('-c, --config <path>', 'path to configuration file', 'auto.config.mts')
+    .option('-b, --browser <type>', 'browser type (chromium, firefox, webkit)')
+    .option('--channel <name>', 'installed Chrome or Edge to use instead of Chromium (chrome, msedge, ...)')
+    .option('--executable-path <path>', 'browser binary to launch')
+    .option('--user-data-dir <path>', 'persistent browser profile directory, kept between runs')
+    .option('--browser-arg <arg>', 'extra browser command line argument (repeatable)', collectOption)
+    .option('--ignore-https-errors', 'accept invalid and self-signed certificates')
+    .option('--downloads-path <path>', 'directory the browser saves downloads to')
+    .option('--headless [value]', 'run in headless mode', true)
+    .option('--no-headless', 'run in headed mode')
+    .option('-o, --output <path>', 'save execution results to file')
+    .option('-v, --verbose', 'enable verbose output')
+    .option('--continue-on-error', 'go on with the next step after a failed step')
+    .action(resumeCommand)
+
+  // Login command
+  program
+    .command('login')
+    .description('Run a login script once and save cookies and localStorage as a session profile')
+    .argument('<script>', 'path to the login script')
+    .requiredOption('-p, --profile <name>', 'profile name (stored in browser.authDir) or storageState file')
+    .option('-c, --config <path>', 'path to configuration file', 'auto.config.mts')
+    .option('-b, --browser <type>', 'browser type (chromium, firefox, webkit)')
+    .option('--channel <name>', 'installed Chrome or Edge to use instead of Chromium (chrome, msedge, ...)')
+    .option('--executable-path <path>', 'browser binary to launch')
+    .option('--user-data-dir <path>', 'persistent browser profile directory, kept between runs')
+    .option('--browser-arg <arg>', 'extra browser command line argument (repeatable)', collectOption)
+    .option('--ignore-https-errors', 'accept invalid and self-signed certificates')
+    .option('--downloads-path <path>', 'directory the browser saves downloads to')
+    .option('--headless', 'run without a visible browser (login is headed to allow 2FA prompts)', false)
+    .option('-v, --verbose', 'enable verbose output')
+    .action(loginCommand)
+
   // Validate command
   program
     .command('validate')
     .description('Validate an automation script without executing it')
-    .argument('<script>', 'path to the automation script (JSON file)')
+    .argument('<script>', 'path to the automation script (JSON, JSON5/JSONC, YAML or TypeScript/JavaScript module)')
+    .option('-c, --config <path>', 'path to configuration file (registers its plugins)', 'auto.config.mts')
     .option('-v, --verbose', 'enable verbose output')
     .action(validateCommand)
 
@@ -290,9 +722,25 @@ async function initializeCLI() {
   program
     .command('example')
     .description('Create an example automation script')
-    .argument('[output]', 'output file path', 'example-script.json')
+    .argument('[output]', 'output file path (.json, .yaml or .yml)', 'example-script.json')
     .action(createExampleCommand)
 
+  // Actions command
+  program
+    .command('actions')
+    .description('Print the reference of all actions and their fields as markdown')
+    .option('-c, --config <path>', 'path to configuration file (includes the actions of its plugins)')
+    .action(async (options) => {
+      if (options.config) {
+        const result = await loadPlugins((await loadConfig(options.config)).plugins)
+        if (!result.success) {
+          console.error(`❌ ${result.error}`)
+          process.exit(1)
+        }
+      }
+      console.log(formatActionReference())
+    })
+
   // Config command
   program
     .command('config')
@@ -303,7 +751,7 @@ async function initializeCLI() {
         const config = await loadConfig(options.config)
         console.log('📋 Current configuration:')
         console.log()
-        console.log(JSON.stringify(config, null, 2))
+        console.log(JSON.stringify({...config, browser: maskSecrets(config.browser)}, null, 2))
       } catch (error) {
         console.error('❌ Failed to load configuration:', error.message)
         process.exit(1)
@@ -335,4 +783,4 @@ process.on('unhandledRejection', (reason) => {
 initializeCLI().catch((error) => {
   console.error('💥 Failed to initialize CLI:', error.message)
   process.exit(1)
-}) 
\ No newline at end of file
+})
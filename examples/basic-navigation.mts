@@ -0,0 +1,11 @@
+import {script} from '../src/script/index.ts'
+
+// Same as basic-navigation.json, written with the typed script builder
+export default script('Basic Navigation Example (TypeScript)')
+  .description('Simple example showing basic navigation and interaction')
+  .navigate('https://example.com', {description: 'Navigate to example.com'})
+  .wait({selector: 'h1', description: 'Wait for the main heading to appear'})
+  .screenshot({description: 'Take a screenshot of the page'})
+  .click('a', {description: 'Click on any available link'})
+  .screenshot({description: 'Take a screenshot after clicking'})
+  .build()
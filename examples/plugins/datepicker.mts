@@ -0,0 +1,31 @@
+import {definePlugin} from '../../src/plugins/index.ts'
+import {success, failure} from '../../src/types/index.ts'
+
+// Adds `datepicker.selectDate` for sites using a calendar widget instead of a plain date input
+export default definePlugin({
+  name: 'datepicker',
+  description: 'Date picker widgets',
+  actions: {
+    selectDate: {
+      description: 'Open the date picker of an input and click the given day',
+      fields: {
+        selector: {type: 'string', required: true, description: 'Input opening the date picker'},
+        value: {type: 'string', required: true, description: 'Date to pick (YYYY-MM-DD)'},
+      },
+      validate: (step) =>
+        /^\d{4}-\d{2}-\d{2}$/.test(String(step.value)) ? undefined : "datepicker.selectDate 'value' must be YYYY-MM-DD",
+      describe: (step) => `Select ${step.value} in ${step.selector}`,
+      execute: async (step, {page, logger}) => {
+        const selector = String(step.selector)
+        await page.click(selector)
+        const day = page.locator(`[data-date="${step.value}"]`)
+        if ((await day.count()) === 0) {
+          return failure(`Date ${step.value} is not available in ${selector}`)
+        }
+        await day.first().click()
+        logger?.debug('Date selected', {selector, value: step.value})
+        return success(undefined)
+      },
+    },
+  },
+})
@@ -0,0 +1,718 @@
+import {basename} from 'path'
+import {ActionStep, ActionType, StepOf, success, failure} from '../types/index.js'
+import {
+  navigateToUrl,
+  clickElement,
+  clickElementIfExists,
+  clickAndCapturePopup,
+  typeText,
+  waitForElement,
+  waitForTime,
+  takeScreenshot,
+  scrollElement,
+  selectOption,
+  handleAlert,
+  extractData,
+  openNewTab,
+  switchToTab,
+  closeTab,
+} from '../browser/controller.js'
+import {saveSession} from '../browser/session.js'
+import {ABORT_ERRORS, addRoute, getNetworkOptions, removeRoutes, resolveSecrets} from '../browser/network.js'
+import {RESOURCE_TYPES} from '../config/index.js'
+import {describeCondition} from '../executor/condition.js'
+import {describeAssertion} from '../executor/assertion.js'
+import {isValidSelector, isValidVariableName, isValidVariablePath} from '../utils/validation.js'
+import type {ActionDefinition, FieldSchema, LintReport} from './registry.js'
+
+const SELECTOR: FieldSchema = {type: 'string', required: true, description: 'CSS selector of the element'}
+const FRAME: FieldSchema = {type: 'string', description: 'Selector of the iframe containing the element'}
+const LOOP_AS: FieldSchema = {type: 'string', description: 'Variable bound to the current item or index'}
+
+const TAB_TARGET: Record<string, FieldSchema> = {
+  index: {type: 'nonNegativeInteger', description: '0-based tab index'},
+  alias: {type: 'string', description: 'Alias given by newTab or a popup click'},
+  urlPattern: {type: 'string', description: 'Tab URL: substring, glob (*) or /regex/'},
+  titlePattern: {type: 'string', description: 'Tab title: substring, glob (*) or /regex/'},
+}
+
+const COMPARISON: Record<string, FieldSchema> = {
+  equals: {type: 'scalar', description: 'Value equals'},
+  notEquals: {type: 'scalar', description: 'Value does not equal'},
+  contains: {type: 'string', description: 'Value contains the substring'},
+  matches: {type: 'string', description: 'Value matches a substring, glob (*) or /regex/'},
+  greaterThan: {type: 'number', description: 'Value is greater than'},
+  lessThan: {type: 'number', description: 'Value is less than'},
+  soft: {type: 'boolean', description: 'Record the failure and continue the run'},
+}
+
+const OPERATORS = ['equals', 'notEquals', 'contains', 'matches', 'greaterThan', 'lessThan'] as const
+
+/**
+ * Built-in actions. Keyed by ActionType, so a new action type does not compile without its definition.
+ */
+export const BUILTIN_ACTIONS: {[K in ActionType]: ActionDefinition<StepOf<K>>} = {
+  navigate: {
+    category: 'navigation',
+    description: 'Navigate to a URL and wait for the page to load.',
+    fields: {
+      url: {type: 'string', required: true, description: 'URL to open'},
+    },
+    describe: (step) => `Navigate to ${step.url}`,
+    lint(step, report) {
+      if (step.url.startsWith('file://')) {
+        report.warn('Local file URLs may not work in all browsers')
+      }
+    },
+    async execute(step, {page, config, logger}) {
+      if (!step.url) {
+        return failure('Navigate action requires URL')
+      }
+      const result = await navigateToUrl(page, step.url, step.timeout || config.browser.timeout, logger)
+      return result.success ? success(undefined) : result
+    },
+  },
+
+  click: {
+    category: 'interaction',
+    description: 'Click an element. With `popup`, wait for the tab the click opens and switch to it.',
+    fields: {
+      selector: SELECTOR,
+      frame: FRAME,
+      popup: {type: 'boolean', description: 'Wait for the popup opened by the click and switch to it'},
+      alias: {type: 'string', description: 'Alias for the popup tab'},
+    },
+    describe: (step) => `Click ${step.selector}${step.popup ? ' and switch to popup' : ''}`,
+    tabs: (step) => step.popup === true,
+    async execute(step, {page, controller, config, logger}) {
+      if (!step.selector) {
+        return failure('Click action requires selector')
+      }
+      const timeout = step.timeout || config.browser.timeout
+
+      if (step.popup && controller) {
+        const result = await clickAndCapturePopup(controller, step.selector, step.alias, timeout, step.frame, logger)
+        return result.success ? success(undefined) : result
+      }
+
+      // Check if this is a conditional click (when optional flag is set)
+      const result = step.optional
+        ? await clickElementIfExists(page, step.selector, timeout, logger)
+        : await clickElement(page, step.selector, timeout, step.frame)
+      return result.success ? success(undefined) : result
+    },
+  },
+
+  type: {
+    category: 'interaction',
+    description: 'Clear an input and type text into it.',
+    fields: {
+      selector: SELECTOR,
+      value: {type: 'value', required: true, description: 'Text to type'},
+      frame: FRAME,
+    },
+    describe: (step) => `Type "${step.value}" into ${step.selector}`,
+    lint(step, report) {
+      if (typeof step.value === 'string' && step.value.length > 1000) {
+        report.warn(`Very long text input (${step.value.length} chars)`)
+      }
+    },
+    async execute(step, {page, config}) {
+      if (!step.selector || step.value === undefined) {
+        return failure('Type action requires selector and value')
+      }
+      const result = await typeText(
+        page,
+        step.selector,
+        String(step.value),
+        step.timeout || config.browser.timeout,
+        step.frame,
+      )
+      return result.success ? success(undefined) : result
+    },
+  },
+
+  wait: {
+    category: 'interaction',
+    description: 'Wait for an element to appear, or for `timeout` milliseconds without selector.',
+    fields: {
+      selector: {type: 'string', description: 'Element to wait for'},
+      frame: FRAME,
+    },
+    validate(step) {
+      // Wait action can use default timeout from config, so timeout is optional
+      if (step.timeout !== undefined && (typeof step.timeout !== 'number' || step.timeout <= 0)) {
+        return 'wait action timeout must be a positive number if provided'
+      }
+    },
+    describe: (step) => `Wait ${step.selector ? `for ${step.selector}` : `${step.timeout}ms`}`,
+    lint(step, report) {
+      if (!step.selector && step.timeout && step.timeout < 100) {
+        report.warn(`Very short wait time (${step.timeout}ms)`)
+      }
+    },
+    async execute(step, {page, config, signal}) {
+      if (step.selector) {
+        // Wait for element to appear
+        const result = await waitForElement(page, step.selector, step.timeout || config.browser.timeout, step.frame)
+        return result.success ? success(undefined) : result
+      }
+      if (step.timeout) {
+        // Wait for specified time
+        const result = await waitForTime(step.timeout, signal)
+        return result.success ? success(undefined) : result
+      }
+      return failure('Wait action requires either selector or timeout')
+    },
+  },
+
+  screenshot: {
+    category: 'data',
+    description: 'Take a full-page screenshot into the logging output directory.',
+    fields: {},
+    describe: () => 'Take screenshot',
+    async execute(_step, {page, config, logger, stepNumber}) {
+      return takeScreenshot(page, config, undefined, logger, stepNumber)
+    },
+  },
+
+  scroll: {
+    category: 'interaction',
+    description: 'Scroll an element into view, or scroll it by `value` pixels.',
+    fields: {
+      selector: SELECTOR,
+      value: {type: 'value', description: 'Distance in pixels'},
+    },
+    describe: (step) => `Scroll ${step.selector}${step.value ? ` by ${step.value}px` : ''}`,
+    lint(step, report) {
+      if (typeof step.value === 'number' && Math.abs(step.value) > 10000) {
+        report.warn(`Large scroll distance (${step.value}px)`)
+      }
+    },
+    async execute(step, {page}) {
+      if (!step.selector) {
+        return failure('Scroll action requires selector')
+      }
+      const distance = typeof step.value === 'number' ? step.value : undefined
+      const result = await scrollElement(page, step.selector, distance)
+      return result.success ? success(undefined) : result
+    },
+  },
+
+  select: {
+    category: 'interaction',
+    description: 'Select an option of a `<select>` element by value.',
+    fields: {
+      selector: SELECTOR,
+      value: {type: 'value', required: true, description: 'Option value to select'},
+      frame: FRAME,
+    },
+    describe: (step) => `Select "${step.value}" from ${step.selector}`,
+    async execute(step, {page, config}) {
+      if (!step.selector || step.value === undefined) {
+        return failure('Select action requires selector and value')
+      }
+      const result = await selectOption(
+        page,
+        step.selector,
+        step.value,
+        step.timeout || config.browser.timeout,
+        step.frame,
+      )
+      return result.success ? success(undefined) : result
+    },
+  },
+
+  alert: {
+    category: 'interaction',
+    description: 'Accept or dismiss the dialogs opened by the following steps.',
+    fields: {
+      value: {type: 'string', description: "'accept' (default) or 'dismiss'"},
+      promptText: {type: 'string', description: 'Text entered into prompt dialogs'},
+    },
+    validate(step) {
+      if (step.value !== undefined && step.value !== 'accept' && step.value !== 'dismiss') {
+        return "alert action 'value' must be 'accept' or 'dismiss'"
+      }
+    },
+    describe: (step) => `${step.value === 'dismiss' ? 'Dismiss' : 'Accept'} dialogs`,
+    async execute(step, {page, logger}) {
+      const action = step.value === 'accept' || step.value === 'dismiss' ? step.value : 'accept'
+      const result = await handleAlert(page, action, step.promptText, logger)
+      return result.success ? success(undefined) : result
+    },
+  },
+
+  extract: {
+    category: 'data',
+    description: 'Store text, values or attributes of the matched elements in a variable.',
+    fields: {
+      selector: SELECTOR,
+      variable: {type: 'string', required: true, description: 'Variable to store the result in'},
+      attribute: {type: 'string', description: "'text' (default), 'value', 'html' or any attribute name"},
+      multiple: {type: 'boolean', description: 'Collect all matches as a list (default: true)'},
+      append: {type: 'boolean', description: 'Add to an existing list instead of replacing it'},
+      frame: FRAME,
+    },
+    describe: (step) => `Extract ${step.attribute || 'text'} from ${step.selector} into ${step.variable}`,
+    lint(step, report) {
+      if (!isValidVariableName(step.variable)) {
+        report.error('variable', `Invalid variable name '${step.variable}'`)
+      }
+    },
+    async execute(step, {page, logger, variables}) {
+      if (!step.selector || !step.variable) {
+        return failure('Extract action requires selector and variable')
+      }
+      const result = await extractData(page, step.selector, step.attribute, step.multiple !== false, step.frame)
+      if (!result.success) {
+        return result
+      }
+      if (variables) {
+        if (step.append) {
+          const previous = variables[step.variable]
+          const list = Array.isArray(previous) ? previous : previous === undefined ? [] : [previous]
+          variables[step.variable] = list.concat(result.data)
+        } else {
+          variables[step.variable] = result.data
+        }
+      }
+      const count = Array.isArray(result.data) ? result.data.length : 1
+      logger?.info(`Extracted ${count} value(s) into vars.${step.variable}`, {
+        variable: step.variable,
+        selector: step.selector,
+        attribute: step.attribute || 'text',
+      })
+      return success(undefined)
+    },
+  },
+
+  saveSession: {
+    category: 'data',
+    description: 'Save cookies and localStorage of the browser to a session profile, e.g. right after logging in.',
+    fields: {
+      profile: {type: 'string', description: 'Profile name or storageState file (default: browser.saveStorageState)'},
+    },
+    describe: (step) => `Save session${step.profile ? ` to ${step.profile}` : ''}`,
+    async execute(step, {page, config, logger}) {
+      const profile = step.profile || config.browser.saveStorageState
+      if (!profile) {
+        return failure('saveSession action requires a profile or browser.saveStorageState')
+      }
+      const result = await saveSession(page.context(), profile, config)
+      if (!result.success) {
+        return result
+      }
+      logger?.info(`Session saved to ${result.data}`, {profile})
+      return success(undefined)
+    },
+  },
+
+  if: {
+    category: 'control',
+    description: 'Run `then` when the condition holds, otherwise `else`.',
+    fields: {
+      condition: {type: 'condition', required: true, description: 'Condition to check'},
+      then: {type: 'steps', required: true, description: 'Steps run when the condition holds'},
+      else: {type: 'steps', description: 'Steps run otherwise'},
+    },
+    describe: (step) => `If ${describeCondition(step.condition)}`,
+    lint: (step, report) => lintCondition(step, report),
+  },
+
+  repeat: {
+    category: 'control',
+    description: 'Run the nested steps a fixed number of times.',
+    fields: {
+      times: {type: 'positiveInteger', required: true, description: 'Number of iterations'},
+      steps: {type: 'steps', required: true, description: 'Steps run on every iteration'},
+      as: LOOP_AS,
+    },
+    describe: (step) => `Repeat ${step.times} times`,
+    lint(step, report) {
+      lintLoopVariable(step, report)
+      if (step.times > 1000) {
+        report.warn(`Large repeat count (${step.times})`)
+      }
+    },
+  },
+
+  forEach: {
+    category: 'control',
+    description: 'Run the nested steps once per item of a list variable.',
+    fields: {
+      items: {type: 'string', required: true, description: 'Variable path of the list, e.g. `rows`'},
+      steps: {type: 'steps', required: true, description: 'Steps run for every item'},
+      as: {type: 'string', description: 'Variable bound to the current item (default: item)'},
+    },
+    describe: (step) => `For each ${step.as || 'item'} in vars.${step.items}`,
+    lint(step, report) {
+      lintLoopVariable(step, report)
+      if (!isValidVariablePath(step.items)) {
+        report.error('items', `Invalid variable path '${step.items}'`)
+      }
+    },
+  },
+
+  while: {
+    category: 'control',
+    description: 'Run the nested steps as long as the condition holds.',
+    fields: {
+      condition: {type: 'condition', required: true, description: 'Condition checked before every iteration'},
+      steps: {type: 'steps', required: true, description: 'Steps run on every iteration'},
+      maxIterations: {type: 'positiveInteger', description: 'Guard against endless loops (default: 100)'},
+      as: LOOP_AS,
+    },
+    describe: (step) => `While ${describeCondition(step.condition)}`,
+    lint(step, report) {
+      lintLoopVariable(step, report)
+      lintCondition(step, report)
+    },
+  },
+
+  newTab: {
+    category: 'tabs',
+    description: 'Open a new tab and switch to it.',
+    fields: {
+      url: {type: 'string', description: 'URL to open in the new tab'},
+      alias: {type: 'string', description: 'Name to find the tab by later'},
+    },
+    describe: (step) => `Open new tab${step.url ? ` at ${step.url}` : ''}${step.alias ? ` as ${step.alias}` : ''}`,
+    tabs: true,
+    async execute(step, {controller, config, logger}) {
+      if (!controller) {
+        return failure('newTab action requires the browser controller')
+      }
+      const result = await openNewTab(controller, config, step.url, step.alias, step.timeout, logger)
+      return result.success ? success(undefined) : result
+    },
+  },
+
+  switchTab: {
+    category: 'tabs',
+    description: 'Switch to a tab by index, alias, URL pattern or title pattern.',
+    fields: TAB_TARGET,
+    validate(step) {
+      if (Object.keys(TAB_TARGET).every((key) => step[key as keyof typeof step] === undefined)) {
+        return `switchTab action requires one of ${Object.keys(TAB_TARGET).join(', ')}`
+      }
+    },
+    describe: (step) => `Switch to ${describeTabTarget(step)}`,
+    tabs: true,
+    async execute(step, {controller, logger}) {
+      if (!controller) {
+        return failure('switchTab action requires the browser controller')
+      }
+      const result = await switchToTab(controller, step, logger)
+      return result.success ? success(undefined) : result
+    },
+  },
+
+  closeTab: {
+    category: 'tabs',
+    description: 'Close a tab, the current one by default.',
+    fields: TAB_TARGET,
+    describe: (step) => `Close ${describeTabTarget(step)}`,
+    tabs: true,
+    async execute(step, {controller, logger}) {
+      if (!controller) {
+        return failure('closeTab action requires the browser controller')
+      }
+      const result = await closeTab(controller, step, logger)
+      return result.success ? success(undefined) : result
+    },
+  },
+
+  setGeolocation: {
+    category: 'browser',
+    description: "Change the position reported to pages granted the 'geolocation' permission.",
+    fields: {
+      latitude: {type: 'number', required: true, description: 'Latitude, -90 to 90'},
+      longitude: {type: 'number', required: true, description: 'Longitude, -180 to 180'},
+      accuracy: {type: 'number', description: 'Accuracy in meters (default: 0)'},
+    },
+    describe: (step) => `Set geolocation to ${step.latitude}, ${step.longitude}`,
+    validate(step) {
+      if (Math.abs(step.latitude) > 90 || Math.abs(step.longitude) > 180) {
+        return 'setGeolocation action requires a latitude from -90 to 90 and a longitude from -180 to 180'
+      }
+    },
+    async execute(step, {page, logger}) {
+      const {latitude, longitude, accuracy} = step
+      try {
+        await page.context().setGeolocation({latitude, longitude, accuracy})
+      } catch (error) {
+        return failure(`Failed to set geolocation: ${error}`)
+      }
+      logger?.info(`Geolocation set to ${latitude}, ${longitude}`, {latitude, longitude, accuracy})
+      return success(undefined)
+    },
+  },
+
+  grantPermissions: {
+    category: 'browser',
+    description: 'Grant browser permissions, such as geolocation or notifications, to every site or one origin.',
+    fields: {
+      permissions: {
+        type: 'strings',
+        required: true,
+        description: "Permission names, e.g. 'geolocation', 'notifications', 'clipboard-read'",
+      },
+      origin: {
+        type: 'string',
+        description: 'Site to grant them to, e.g. `https://maps.example.com` (default: every site)',
+      },
+    },
+    describe: (step) => `Grant ${step.permissions.join(', ')}${step.origin ? ` to ${step.origin}` : ''}`,
+    async execute(step, {page, logger}) {
+      try {
+        await page.context().grantPermissions(step.permissions, step.origin ? {origin: step.origin} : undefined)
+      } catch (error) {
+        return failure(`Failed to grant permissions: ${error}`)
+      }
+      logger?.info(`Granted ${step.permissions.join(', ')}`, {permissions: step.permissions, origin: step.origin})
+      return success(undefined)
+    },
+  },
+
+  setHeaders: {
+    category: 'browser',
+    description: 'Send extra HTTP headers with every later request of all tabs, on top of `browser.extraHTTPHeaders`.',
+    fields: {
+      headers: {type: 'object', required: true, description: 'Header names and values; `${env>NAME}` is resolved'},
+    },
+    describe: (step) => `Set headers ${Object.keys(step.headers).join(', ')}`,
+    validate(step) {
+      if (Object.values(step.headers).some((value) => typeof value !== 'string')) {
+        return 'setHeaders action requires string header values'
+      }
+    },
+    async execute(step, {page, config, logger, variables}) {
+      const configResult = getNetworkOptions(config.browser)
+      if (!configResult.success) {
+        return configResult
+      }
+      const headersResult = resolveSecrets(step.headers, 'headers', variables)
+      if (!headersResult.success) {
+        return headersResult
+      }
+      // Replaces the headers of earlier setHeaders steps; those of the config stay unless overridden
+      try {
+        await page.context().setExtraHTTPHeaders({...configResult.data.extraHTTPHeaders, ...headersResult.data})
+      } catch (error) {
+        return failure(`Failed to set headers: ${error}`)
+      }
+      logger?.info(`Extra headers set: ${Object.keys(step.headers).join(', ')}`)
+      return success(undefined)
+    },
+  },
+
+  route: {
+    category: 'browser',
+    description: 'Block, mock or change the requests of every tab matching a URL pattern and/or resource types.',
+    fields: {
+      url: {
+        type: 'string',
+        description: 'URL pattern: substring, glob (`**/api/orders*`) or /regex/ (default: every URL)',
+      },
+      resourceTypes: {type: 'strings', description: "Request types to match, e.g. 'image', 'font', 'xhr', 'fetch'"},
+      abort: {
+        type: 'string',
+        description: "Fail the requests with an error code, e.g. 'failed', 'timedout', 'blockedbyclient'",
+      },
+      status: {type: 'positiveInteger', description: 'Response status (default: 200, or that of the real response)'},
+      body: {type: 'string', description: 'Response body'},
+      json: {type: 'json', description: 'Response body, serialized as JSON'},
+      fixture: {type: 'string', description: 'File served as the response body, relative to the script file'},
+      contentType: {type: 'string', description: 'Content type (default: from `json` or the fixture extension)'},
+      headers: {type: 'object', description: 'Response headers, added to those of the real response'},
+      patch: {type: 'object', description: 'Merged into the top level of the real JSON response'},
+      replace: {
+        type: 'object',
+        description: 'Text replacements in the real response body, `{"search": "replacement"}`',
+      },
+      times: {type: 'positiveInteger', description: 'Handle only the first N matching requests'},
+    },
+    describe: (step) => {
+      const target = [step.resourceTypes?.join(', '), step.url].filter(Boolean).join(' ') || 'all requests'
+      if (step.abort) {
+        return `Abort ${target} with ${step.abort}`
+      }
+      if (step.body !== undefined || step.json !== undefined || step.fixture) {
+        return `Mock ${target}${step.fixture ? ` with ${step.fixture}` : ''}`
+      }
+      return `Route ${target}`
+    },
+    validate(step) {
+      if (step.url === undefined && step.resourceTypes === undefined) {
+        return 'route action requires url or resourceTypes'
+      }
+      const unknownType = step.resourceTypes?.find((type: string) => !RESOURCE_TYPES.includes(type))
+      if (unknownType) {
+        return `route action has unknown resource type '${unknownType}', use ${RESOURCE_TYPES.join(', ')}`
+      }
+      if (step.abort !== undefined && !ABORT_ERRORS.includes(step.abort)) {
+        return `route action 'abort' must be one of ${ABORT_ERRORS.join(', ')}`
+      }
+      const bodies = (['body', 'json', 'fixture'] as const).filter((field) => step[field] !== undefined)
+      if (bodies.length > 1) {
+        return `route action takes one of body, json and fixture, got ${bodies.join(' and ')}`
+      }
+      const changes = (['patch', 'replace'] as const).filter((field) => step[field] !== undefined)
+      if (changes.length > 0 && (bodies.length > 0 || step.abort !== undefined)) {
+        return `route action '${changes[0]}' changes the real response and cannot be combined with ${step.abort !== undefined ? 'abort' : bodies[0]}`
+      }
+      if (step.abort !== undefined && (bodies.length > 0 || step.status !== undefined || step.headers !== undefined)) {
+        return 'route action with abort sends no response, remove the response fields'
+      }
+      if (step.replace && Object.values(step.replace).some((value) => typeof value !== 'string')) {
+        return "route action 'replace' must map search strings to replacement strings"
+      }
+    },
+    async execute(step, {page, logger}) {
+      const result = await addRoute(page.context(), step, logger)
+      if (result.success) {
+        logger?.info(`Route added: ${BUILTIN_ACTIONS.route.describe(step)}`, {
+          url: step.url,
+          resourceTypes: step.resourceTypes,
+        })
+      }
+      return result.success ? success(undefined) : result
+    },
+  },
+
+  unroute: {
+    category: 'browser',
+    description: 'Remove the routes of earlier route steps with the same URL pattern, or all of them, from every tab.',
+    fields: {
+      url: {type: 'string', description: 'URL pattern exactly as given to route (default: every route step)'},
+    },
+    describe: (step) => (step.url ? `Remove route ${step.url}` : 'Remove all routes'),
+    async execute(step, {page, logger}) {
+      const result = await removeRoutes(page.context(), step.url)
+      if (!result.success) {
+        return result
+      }
+      logger?.info(`Removed ${result.data} route(s)`, {url: step.url})
+      return success(undefined)
+    },
+  },
+
+  assertText: defineAssertion('Compare the text of an element.', {selector: SELECTOR, frame: FRAME}),
+  assertCount: defineAssertion(
+    'Compare the number of matching elements.',
+    {selector: SELECTOR, frame: FRAME},
+    (step, report) => {
+      if (step.contains !== undefined || step.matches !== undefined) {
+        report.warn('assertCount compares a number, use equals, greaterThan or lessThan')
+      }
+    },
+  ),
+  assertVisible: defineAssertion('Check that an element is visible.', {selector: SELECTOR, frame: FRAME}),
+  assertHidden: defineAssertion('Check that an element is hidden or missing.', {selector: SELECTOR, frame: FRAME}),
+  assertAttribute: defineAssertion('Compare an attribute of an element.', {
+    selector: SELECTOR,
+    attribute: {type: 'string', required: true, description: 'Attribute name'},
+    frame: FRAME,
+  }),
+  assertUrl: defineAssertion('Compare the URL of the current page.', {}),
+  assertTitle: defineAssertion('Compare the title of the current page.', {}),
+  assertValue: defineAssertion('Compare the value of an input.', {selector: SELECTOR, frame: FRAME}),
+  assertVariable: defineAssertion(
+    'Compare a runtime variable.',
+    {variable: {type: 'string', required: true, description: 'Variable path, e.g. `user.name`'}},
+    (step, report) => {
+      if (!isValidVariablePath(step.variable)) {
+        report.error('variable', `Invalid variable path '${step.variable}'`)
+      }
+    },
+  ),
+
+  call: {
+    category: 'reuse',
+    description: 'Run a function of the script or another script file with its own variables.',
+    fields: {
+      script: {type: 'string', description: 'Script file, relative to the calling script'},
+      function: {type: 'string', description: 'Function of the script'},
+      params: {type: 'object', description: 'Named parameters, available as ${vars.name}'},
+      variable: {type: 'string', description: 'Variable to store the returned values in'},
+    },
+    validate(step) {
+      const hasScript = typeof step.script === 'string' && step.script.length > 0
+      const hasFunction = typeof step.function === 'string' && step.function.length > 0
+      if (hasScript === hasFunction) {
+        return "call action requires either 'script' or 'function' field"
+      }
+    },
+    describe: (step) => `Call ${describeCallTarget(step)}`,
+    lint(step, report) {
+      if (step.variable && !isValidVariableName(step.variable)) {
+        report.error('variable', `Invalid variable name '${step.variable}'`)
+      }
+      for (const name of Object.keys(step.params || {})) {
+        if (!isValidVariableName(name)) {
+          report.error('params', `Invalid parameter name '${name}'`)
+        }
+      }
+    },
+  },
+}
+
+/**
+ * Describe function or script run by a call step
+ */
+export function describeCallTarget(step: ActionStep): string {
+  return step.function ? `function ${step.function}` : basename(step.script || '')
+}
+
+/**
+ * Describe tab targeted by switchTab or closeTab
+ */
+function describeTabTarget(step: ActionStep): string {
+  if (step.index !== undefined) return `tab ${step.index}`
+  if (step.alias) return `tab ${step.alias}`
+  if (step.urlPattern) return `tab with URL ${step.urlPattern}`
+  if (step.titlePattern) return `tab with title ${step.titlePattern}`
+  return 'current tab'
+}
+
+/**
+ * Definition of an assert action; visible and hidden checks take no comparison operators
+ */
+function defineAssertion<S extends ActionStep>(
+  description: string,
+  fields: Record<string, FieldSchema>,
+  lint?: (step: S, report: LintReport) => void,
+): ActionDefinition<S> {
+  return {
+    category: 'assertion',
+    description,
+    fields: {...fields, ...COMPARISON},
+    validate(step) {
+      const hasOperator = OPERATORS.some((key) => step[key] !== undefined)
+      if (step.type === 'assertVisible' || step.type === 'assertHidden') {
+        return hasOperator ? `${step.type} action does not take comparison operators` : undefined
+      }
+      if (!hasOperator) {
+        return `${step.type} action requires one of ${OPERATORS.join(', ')}`
+      }
+    },
+    describe: (step) => `${describeAssertion(step)}${step.soft ? ' (soft)' : ''}`,
+    lint,
+  }
+}
+
+function lintCondition(step: ActionStep, report: LintReport): void {
+  if (step.condition?.selector && !isValidSelector(step.condition.selector)) {
+    report.error('condition.selector', 'Invalid CSS selector format')
+  }
+  if (step.condition?.variable && !isValidVariablePath(step.condition.variable)) {
+    report.error('condition.variable', `Invalid variable path '${step.condition.variable}'`)
+  }
+}
+
+function lintLoopVariable(step: ActionStep, report: LintReport): void {
+  if (step.as && !isValidVariableName(step.as)) {
+    report.error('as', `Invalid variable name '${step.as}'`)
+  }
+}
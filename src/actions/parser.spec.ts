@@ -1,5 +1,8 @@
-import {describe, it, expect} from 'vitest'
-import {parseScriptFromString, getStepSummary} from './parser.js'
+import {describe, it, expect, beforeEach, afterEach} from 'vitest'
+import {mkdir, mkdtemp, rm, writeFile} from 'fs/promises'
+import {tmpdir} from 'os'
+import {join} from 'path'
+import {parseScriptFromString, parseScriptFromFile, getScriptFormat, getStepSummary} from './parser.js'
 import {ActionStep} from '../types/index.js'
 
 describe('Action Parser', () => {
@@ -196,6 +199,273 @@ describe('Action Parser', () => {
       expect(result.success).toBe(true)
     })
 
+    it('should parse extract action fields', () => {
+      const jsonScript = JSON.stringify({
+        name: 'Test Script',
+        steps: [{type: 'extract', selector: 'h1', attribute: 'text', variable: 'title', multiple: false}],
+      })
+
+      const result = parseScriptFromString(jsonScript)
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.steps[0]).toMatchObject({
+          type: 'extract',
+          selector: 'h1',
+          attribute: 'text',
+          variable: 'title',
+          multiple: false,
+        })
+      }
+    })
+
+    it('should return error for extract action without variable', () => {
+      const jsonScript = JSON.stringify({
+        name: 'Test Script',
+        steps: [{type: 'extract', selector: 'h1'}],
+      })
+
+      const result = parseScriptFromString(jsonScript)
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBe("Step 1: extract action requires 'variable' field")
+      }
+    })
+
+    it('should parse nested if steps', () => {
+      const jsonScript = JSON.stringify({
+        name: 'Test Script',
+        steps: [
+          {
+            type: 'if',
+            condition: {selector: '#logout'},
+            then: [{type: 'click', selector: '#logout'}],
+            else: [{type: 'type', selector: '#user', value: 'alice'}],
+          },
+        ],
+      })
+
+      const result = parseScriptFromString(jsonScript)
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.steps[0].condition).toEqual({selector: '#logout'})
+        expect(result.data.steps[0].then?.[0].type).toBe('click')
+        expect(result.data.steps[0].else?.[0].value).toBe('alice')
+      }
+    })
+
+    it('should report nested step errors with their path', () => {
+      const jsonScript = JSON.stringify({
+        name: 'Test Script',
+        steps: [
+          {type: 'screenshot'},
+          {type: 'if', condition: {url: '/login'}, then: [{type: 'screenshot'}, {type: 'click'}]},
+        ],
+      })
+
+      const result = parseScriptFromString(jsonScript)
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBe("Step 2.then.2: click action requires 'selector' field")
+      }
+    })
+
+    it('should return error for if action without condition checks', () => {
+      const jsonScript = JSON.stringify({
+        name: 'Test Script',
+        steps: [{type: 'if', condition: {exists: true}, then: [{type: 'screenshot'}]}],
+      })
+
+      const result = parseScriptFromString(jsonScript)
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBe('Step 1: condition requires one of selector, text, url, variable')
+      }
+    })
+
+    it('should parse loop steps with nested steps', () => {
+      const jsonScript = JSON.stringify({
+        name: 'Test Script',
+        steps: [
+          {type: 'forEach', items: 'rows', as: 'row', steps: [{type: 'type', selector: '#q', value: '${vars.row}'}]},
+          {
+            type: 'while',
+            condition: {selector: '.next a'},
+            maxIterations: 5,
+            steps: [{type: 'click', selector: '.next a'}],
+          },
+        ],
+      })
+
+      const result = parseScriptFromString(jsonScript)
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.steps[0]).toMatchObject({type: 'forEach', items: 'rows', as: 'row'})
+        expect(result.data.steps[1].maxIterations).toBe(5)
+        expect(result.data.steps[1].steps?.[0].selector).toBe('.next a')
+      }
+    })
+
+    it('should return error for repeat action without times', () => {
+      const jsonScript = JSON.stringify({
+        name: 'Test Script',
+        steps: [{type: 'repeat', steps: [{type: 'screenshot'}]}],
+      })
+
+      const result = parseScriptFromString(jsonScript)
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBe("Step 1: repeat action requires positive integer 'times' field")
+      }
+    })
+
+    it('should parse tab actions', () => {
+      const jsonScript = JSON.stringify({
+        name: 'Test Script',
+        steps: [
+          {type: 'click', selector: '#login', popup: true, alias: 'oauth'},
+          {type: 'switchTab', urlPattern: '*/callback'},
+          {type: 'closeTab', alias: 'oauth'},
+          {type: 'newTab', url: 'https://example.com'},
+        ],
+      })
+
+      const result = parseScriptFromString(jsonScript)
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.steps[0]).toMatchObject({popup: true, alias: 'oauth'})
+        expect(result.data.steps[1].urlPattern).toBe('*/callback')
+      }
+    })
+
+    it('should return error for switchTab action without target', () => {
+      const jsonScript = JSON.stringify({
+        name: 'Test Script',
+        steps: [{type: 'switchTab'}],
+      })
+
+      const result = parseScriptFromString(jsonScript)
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBe('Step 1: switchTab action requires one of index, alias, urlPattern, titlePattern')
+      }
+    })
+
+    it('should parse assert actions with comparison operators', () => {
+      const jsonScript = JSON.stringify({
+        name: 'Test Script',
+        steps: [
+          {type: 'assertText', selector: 'h1', contains: 'Welcome', soft: true},
+          {type: 'assertCount', selector: '.row', greaterThan: 0},
+          {type: 'assertVisible', selector: '#logout'},
+        ],
+      })
+
+      const result = parseScriptFromString(jsonScript)
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.steps[0]).toMatchObject({contains: 'Welcome', soft: true})
+        expect(result.data.steps[1].greaterThan).toBe(0)
+      }
+    })
+
+    it('should return error for assert action without comparison', () => {
+      const jsonScript = JSON.stringify({
+        name: 'Test Script',
+        steps: [{type: 'assertTitle'}],
+      })
+
+      const result = parseScriptFromString(jsonScript)
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBe(
+          'Step 1: assertTitle action requires one of equals, notEquals, contains, matches, greaterThan, lessThan',
+        )
+      }
+    })
+
+    it('should parse dataset file and inline rows', () => {
+      const fileScript = parseScriptFromString(
+        JSON.stringify({name: 'Test Script', dataset: 'users.csv', steps: [{type: 'screenshot'}]}),
+      )
+      const inlineScript = parseScriptFromString(
+        JSON.stringify({name: 'Test Script', dataset: [{email: 'a@example.com'}], steps: [{type: 'screenshot'}]}),
+      )
+      const invalidScript = parseScriptFromString(
+        JSON.stringify({name: 'Test Script', dataset: ['a@example.com'], steps: [{type: 'screenshot'}]}),
+      )
+
+      expect(fileScript.success && fileScript.data.dataset).toBe('users.csv')
+      expect(inlineScript.success && inlineScript.data.dataset).toEqual([{email: 'a@example.com'}])
+      expect(invalidScript).toEqual({
+        success: false,
+        error: 'Script dataset must be a file path or an array of objects',
+      })
+    })
+
+    it('should parse functions and calls', () => {
+      const jsonScript = JSON.stringify({
+        name: 'Test Script',
+        functions: {
+          login: {
+            params: ['user'],
+            returns: ['greeting'],
+            steps: [{type: 'type', selector: '#user', value: '${vars.user}'}],
+          },
+        },
+        steps: [{type: 'call', function: 'login', params: {user: 'alice'}, variable: 'session'}],
+      })
+
+      const result = parseScriptFromString(jsonScript)
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.functions?.login.params).toEqual(['user'])
+        expect(result.data.steps[0]).toMatchObject({function: 'login', params: {user: 'alice'}, variable: 'session'})
+      }
+    })
+
+    it('should return error for unknown functions and missing parameters', () => {
+      const unknown = parseScriptFromString(
+        JSON.stringify({name: 'Test Script', steps: [{type: 'call', function: 'login'}]}),
+      )
+      const missing = parseScriptFromString(
+        JSON.stringify({
+          name: 'Test Script',
+          functions: {login: {params: ['user'], steps: [{type: 'screenshot'}]}},
+          steps: [{type: 'call', function: 'login'}],
+        }),
+      )
+
+      expect(unknown).toEqual({success: false, error: "Step 1: unknown function 'login'"})
+      expect(missing).toEqual({success: false, error: "Step 1: missing parameter 'user' for function 'login'"})
+    })
+
+    it('should return error for functions calling each other in a cycle', () => {
+      const jsonScript = JSON.stringify({
+        name: 'Test Script',
+        functions: {
+          a: {steps: [{type: 'call', function: 'b'}]},
+          b: {steps: [{type: 'if', condition: {selector: '#x'}, then: [{type: 'call', function: 'a'}]}]},
+        },
+        steps: [{type: 'call', function: 'a'}],
+      })
+
+      const result = parseScriptFromString(jsonScript)
+
+      expect(result).toEqual({success: false, error: 'Function cycle: a → b → a'})
+    })
+
     it('should return error for invalid action type', () => {
       const jsonScript = JSON.stringify({
         name: 'Test Script',
@@ -210,6 +480,20 @@ describe('Action Parser', () => {
       }
     })
 
+    it('should parse alert action', () => {
+      const jsonScript = JSON.stringify({
+        name: 'Test Script',
+        steps: [{type: 'alert', value: 'dismiss'}],
+      })
+
+      const result = parseScriptFromString(jsonScript)
+
+      expect(result).toEqual({
+        success: true,
+        data: expect.objectContaining({steps: [{type: 'alert', value: 'dismiss'}]}),
+      })
+    })
+
     it('should return error for negative timeout', () => {
       const jsonScript = JSON.stringify({
         name: 'Test Script',
@@ -247,6 +531,347 @@ describe('Action Parser', () => {
     })
   })
 
+  describe('script formats', () => {
+    it('should detect format from file extension', () => {
+      expect(getScriptFormat('login.yaml')).toBe('yaml')
+      expect(getScriptFormat('login.YML')).toBe('yaml')
+      expect(getScriptFormat('login.json5')).toBe('json5')
+      expect(getScriptFormat('login.jsonc')).toBe('json5')
+      expect(getScriptFormat('login.json')).toBe('json')
+    })
+
+    it('should parse YAML with comments and multi-line strings', () => {
+      const yamlScript = [
+        'name: Test Script',
+        'description: >',
+        '  Logs in and',
+        '  checks the dashboard',
+        'steps:',
+        '  # brittle selector, ask the frontend team before changing',
+        '  - type: click',
+        "    selector: 'div.header > button:nth-child(3)'",
+      ].join('\n')
+
+      const result = parseScriptFromString(yamlScript, 'yaml')
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.description).toBe('Logs in and checks the dashboard\n')
+        expect(result.data.steps[0].selector).toBe('div.header > button:nth-child(3)')
+      }
+    })
+
+    it('should parse JSON5 with comments and trailing commas', () => {
+      const json5Script = `{
+        // login first
+        name: 'Test Script',
+        steps: [
+          {type: 'click', selector: '#login', /* brittle */},
+        ],
+      }`
+
+      const result = parseScriptFromString(json5Script, 'json5')
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.steps[0].selector).toBe('#login')
+      }
+    })
+
+    it('should report line and column of syntax errors', () => {
+      const json = parseScriptFromString('{\n  "name": "Test",\n}')
+      const json5 = parseScriptFromString('{\n  name: "Test",\n  steps: [,]\n}', 'json5')
+      const yaml = parseScriptFromString('name: Test\nsteps:\n  - type: click\n bad: [', 'yaml')
+
+      expect(json).toEqual({
+        success: false,
+        error: 'Failed to parse JSON at line 3, column 1: Expected double-quoted property name',
+      })
+      expect(json5).toEqual({
+        success: false,
+        error: "Failed to parse JSON5 at line 3, column 11: invalid character ','",
+      })
+      expect(yaml.success).toBe(false)
+      if (!yaml.success) {
+        expect(yaml.error).toMatch(/^Failed to parse YAML at line 4, column \d+: /)
+      }
+    })
+
+    it('should reject documents that are not objects', () => {
+      expect(parseScriptFromString('- type: click', 'yaml')).toEqual({
+        success: false,
+        error: 'Failed to parse YAML: script must be an object',
+      })
+    })
+  })
+
+  describe('parseScriptFromFile', () => {
+    let dir: string
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'auto-run-parser-'))
+    })
+
+    afterEach(async () => {
+      await rm(dir, {recursive: true, force: true})
+    })
+
+    const writeScript = (name: string, script: object) => writeFile(join(dir, name), JSON.stringify(script))
+
+    it('should load called scripts relative to the caller', async () => {
+      await writeScript('main.json', {
+        name: 'Main',
+        steps: [{type: 'call', script: 'common/login.json', params: {user: 'alice'}}],
+      })
+      await mkdir(join(dir, 'common'))
+      await writeScript('common/login.json', {name: 'Login', params: ['user'], steps: [{type: 'screenshot'}]})
+
+      const result = await parseScriptFromFile(join(dir, 'main.json'))
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        const loginPath = join(dir, 'common/login.json')
+        expect(result.data.steps[0].script).toBe(loginPath)
+        expect(result.data.includes?.[loginPath].name).toBe('Login')
+      }
+    })
+
+    it('should resolve route fixtures relative to the script using them', async () => {
+      await writeScript('main.json', {
+        name: 'Main',
+        steps: [
+          {type: 'route', url: '**/api/user', fixture: 'fixtures/user.json'},
+          {type: 'call', script: 'common/orders.json'},
+        ],
+      })
+      await mkdir(join(dir, 'common'))
+      await writeScript('common/orders.json', {
+        name: 'Orders',
+        steps: [
+          {
+            type: 'if',
+            condition: {selector: '#orders'},
+            then: [{type: 'route', url: '**/api/orders', fixture: 'data/orders.json'}],
+          },
+        ],
+      })
+
+      const result = await parseScriptFromFile(join(dir, 'main.json'))
+
+      expect(result.success && result.data.steps[0].fixture).toBe(join(dir, 'fixtures/user.json'))
+      const orders = result.success && result.data.includes?.[join(dir, 'common/orders.json')]
+      expect(orders && orders.steps[0].then?.[0].fixture).toBe(join(dir, 'common/data/orders.json'))
+    })
+
+    it('should load called scripts of any format', async () => {
+      await writeScript('main.json5', {name: 'Main', steps: [{type: 'call', script: 'login.yaml'}]})
+      await writeFile(join(dir, 'login.yaml'), 'name: Login\nsteps:\n  - type: screenshot # after login\n')
+
+      const result = await parseScriptFromFile(join(dir, 'main.json5'))
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.includes?.[join(dir, 'login.yaml')].steps[0].type).toBe('screenshot')
+      }
+    })
+
+    it('should report include cycles with the full chain', async () => {
+      await writeScript('main.json', {name: 'Main', steps: [{type: 'call', script: 'a.json'}]})
+      await writeScript('a.json', {name: 'A', steps: [{type: 'call', script: 'b.json'}]})
+      await writeScript('b.json', {name: 'B', steps: [{type: 'screenshot'}, {type: 'call', script: 'a.json'}]})
+
+      const result = await parseScriptFromFile(join(dir, 'main.json'))
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toMatch(/^Include cycle: .*main\.json → .*a\.json → .*b\.json → .*a\.json$/)
+      }
+    })
+
+    it('should prefix errors of called scripts with the include chain', async () => {
+      await writeScript('main.json', {name: 'Main', steps: [{type: 'call', script: 'login.json'}]})
+      await writeScript('login.json', {name: 'Login', steps: [{type: 'click'}]})
+
+      const result = await parseScriptFromFile(join(dir, 'main.json'))
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toMatch(/main\.json → .*login\.json: Step 1: click action requires 'selector' field$/)
+      }
+    })
+
+    it('should load scripts exported by modules', async () => {
+      await writeFile(
+        join(dir, 'main.mjs'),
+        "export default () => ({name: 'Main', steps: [{type: 'call', script: 'login.json'}]})\n",
+      )
+      await writeScript('login.json', {name: 'Login', steps: [{type: 'screenshot'}]})
+
+      const result = await parseScriptFromFile(join(dir, 'main.mjs'))
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.name).toBe('Main')
+        expect(result.data.includes?.[join(dir, 'login.json')].name).toBe('Login')
+      }
+    })
+
+    it('should keep hooks of module scripts and reject them in data files', async () => {
+      await writeFile(
+        join(dir, 'hooks.mjs'),
+        "export const script = {name: 'Hooks', hooks: {beforeStep() {}}, steps: [{type: 'screenshot'}]}\n",
+      )
+      await writeScript('hooks.json', {name: 'Hooks', hooks: {beforeStep: 'dismiss'}, steps: [{type: 'screenshot'}]})
+
+      const moduleResult = await parseScriptFromFile(join(dir, 'hooks.mjs'))
+      const jsonResult = await parseScriptFromFile(join(dir, 'hooks.json'))
+
+      expect(moduleResult.success && typeof moduleResult.data.hooks?.beforeStep).toBe('function')
+      expect(jsonResult).toEqual({success: false, error: "Script hook 'beforeStep' must be a function"})
+    })
+
+    it('should fail when a module exports no script', async () => {
+      await writeFile(join(dir, 'empty.mjs'), 'export const steps = []\n')
+
+      const result = await parseScriptFromFile(join(dir, 'empty.mjs'))
+
+      expect(result).toEqual({
+        success: false,
+        error: 'Failed to load script module: module must export a script as default or `script`',
+      })
+    })
+  })
+
+  describe('setup and teardown', () => {
+    it('should parse setup and teardown steps', () => {
+      const result = parseScriptFromString(
+        JSON.stringify({
+          name: 'HR Export',
+          setup: [{type: 'navigate', url: 'https://hr.example.com/login'}],
+          steps: [{type: 'click', selector: '#export'}],
+          teardown: [{type: 'click', selector: '#logout'}],
+        }),
+      )
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.setup).toEqual([{type: 'navigate', url: 'https://hr.example.com/login'}])
+        expect(result.data.teardown).toEqual([{type: 'click', selector: '#logout'}])
+      }
+    })
+
+    it('should number teardown steps in errors', () => {
+      const result = parseScriptFromString(
+        JSON.stringify({name: 'HR Export', steps: [{type: 'screenshot'}], teardown: [{type: 'click'}]}),
+      )
+
+      expect(result).toEqual({success: false, error: "Step teardown.1: click action requires 'selector' field"})
+    })
+  })
+
+  describe('maxDuration', () => {
+    it('should require a positive number of milliseconds', () => {
+      const result = parseScriptFromString(
+        JSON.stringify({name: 'Slow', maxDuration: '1m', steps: [{type: 'screenshot'}]}),
+      )
+
+      expect(result).toEqual({success: false, error: 'Script maxDuration must be a positive number of milliseconds'})
+    })
+  })
+
+  describe('sessions', () => {
+    it('should keep the session profiles of the script', () => {
+      const result = parseScriptFromString(
+        JSON.stringify({name: 'Login', storageState: 'guest', saveStorageState: 'hr', steps: [{type: 'saveSession'}]}),
+      )
+
+      expect(result.success && result.data).toMatchObject({storageState: 'guest', saveStorageState: 'hr'})
+    })
+
+    it('should require a profile name or file path', () => {
+      const result = parseScriptFromString(
+        JSON.stringify({name: 'Login', storageState: true, steps: [{type: 'saveSession'}]}),
+      )
+
+      expect(result).toEqual({success: false, error: 'Script storageState must be a profile name or file path'})
+    })
+  })
+
+  describe('browser', () => {
+    it('should keep the emulation settings of the script', () => {
+      const browser = {device: 'iPhone 13', locale: 'ko-KR', timezoneId: 'Asia/Seoul'}
+
+      const result = parseScriptFromString(JSON.stringify({name: 'Mobile', browser, steps: [{type: 'screenshot'}]}))
+
+      expect(result.success && result.data.browser).toEqual(browser)
+    })
+
+    it('should reject launch settings and invalid values', () => {
+      const parse = (browser: object) =>
+        parseScriptFromString(JSON.stringify({name: 'Mobile', browser, steps: [{type: 'screenshot'}]}))
+
+      expect(parse({headless: false})).toEqual({
+        success: false,
+        error:
+          'Script browser.headless cannot be set by a script, only device, locale, timezoneId, geolocation, permissions, colorScheme, userAgent, deviceScaleFactor',
+      })
+      expect(parse({colorScheme: 'sepia'})).toEqual({
+        success: false,
+        error: "Script browser.colorScheme must be 'light', 'dark' or 'no-preference'",
+      })
+    })
+  })
+
+  describe('onFailure', () => {
+    const parseSteps = (steps: object[]) => parseScriptFromString(JSON.stringify({name: 'Policies', steps}))
+
+    it('should accept goto targets labelling a later step', () => {
+      const result = parseSteps([
+        {type: 'click', selector: '#form', onFailure: 'goto:logout'},
+        {type: 'click', selector: '#logout', label: 'logout'},
+      ])
+
+      expect(result.success && result.data.steps[0].onFailure).toBe('goto:logout')
+    })
+
+    it('should accept goto targets with the id of a later step', () => {
+      const result = parseSteps([
+        {type: 'click', selector: '#form', onFailure: 'goto:logout-step'},
+        {type: 'click', selector: '#logout', id: 'logout-step', label: 'logout-step'},
+      ])
+
+      expect(result.success).toBe(true)
+    })
+
+    it('should reject unknown policies, earlier targets and duplicate labels', () => {
+      expect(parseSteps([{type: 'screenshot', onFailure: 'retry'}])).toEqual({
+        success: false,
+        error: "Step 1: onFailure must be 'stop', 'continue', 'skipRest' or 'goto:<label>'",
+      })
+      expect(
+        parseSteps([
+          {type: 'screenshot', label: 'start'},
+          {type: 'screenshot', onFailure: 'goto:start'},
+        ]),
+      ).toEqual({
+        success: false,
+        error: "Step 2: onFailure target 'start' must label a later step in the same list",
+      })
+      expect(
+        parseSteps([
+          {type: 'screenshot', label: 'shot'},
+          {type: 'screenshot', label: 'shot'},
+        ]),
+      ).toEqual({success: false, error: "Step 2: duplicate label 'shot'"})
+      expect(
+        parseSteps([
+          {type: 'screenshot', label: 'shot'},
+          {type: 'screenshot', id: 'shot'},
+        ]),
+      ).toEqual({success: false, error: "Step 2: duplicate id 'shot'"})
+    })
+  })
+
   describe('getStepSummary', () => {
     it('should generate summary for navigate action', () => {
       const step: ActionStep = {
@@ -309,7 +934,7 @@ describe('Action Parser', () => {
       }
 
       const summary = getStepSummary(step, 5)
-      expect(summary).toBe('Step 6: Scroll body')
+      expect(summary).toBe('Step 6: Scroll body by 500px')
     })
 
     it('should generate summary for select action', () => {
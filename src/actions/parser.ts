@@ -1,30 +1,272 @@
-import {readFile} from 'fs/promises'
-import {ActionStep, AutomationScript, Result, success, failure} from '../types/index.js'
+import {readFile, stat} from 'fs/promises'
+import {basename, dirname, extname, relative, resolve} from 'path'
+import {pathToFileURL} from 'url'
+import JSON5 from 'json5'
+import {parse as parseYaml, YAMLError} from 'yaml'
+import {ActionStep, AutomationScript, ScriptFunction, Result, success, failure} from '../types/index.js'
+import {
+  describeStep,
+  describeUnknownAction,
+  getActionDefinition,
+  getNestedSteps,
+  normalizeActionStep,
+  validateActionStep,
+} from './registry.js'
+import {AutoHooks, HOOK_NAMES} from '../executor/hooks.js'
+import {EMULATION_FIELDS, validateEmulation} from '../config/index.js'
 
 /**
- * Parse automation script from JSON file
+ * Script file format, detected from the file extension
+ */
+export type ScriptFormat = 'json' | 'json5' | 'yaml'
+
+const FORMAT_NAMES: Record<ScriptFormat, string> = {
+  json: 'JSON',
+  json5: 'JSON5',
+  yaml: 'YAML',
+}
+
+/**
+ * Get script format from file extension: `.yaml`/`.yml`, `.json5`/`.jsonc`, otherwise JSON
+ */
+export function getScriptFormat(filePath: string): ScriptFormat {
+  switch (extname(filePath).toLowerCase()) {
+    case '.yaml':
+    case '.yml':
+      return 'yaml'
+    case '.json5':
+    case '.jsonc':
+      return 'json5'
+    default:
+      return 'json'
+  }
+}
+
+const MODULE_EXTENSIONS = ['.ts', '.mts', '.js', '.mjs']
+
+/**
+ * Check if script file is a TypeScript or JavaScript module
+ */
+export function isScriptModule(filePath: string): boolean {
+  return MODULE_EXTENSIONS.includes(extname(filePath).toLowerCase())
+}
+
+/**
+ * Parse automation script from JSON, JSON5, YAML or module file, loading the script files it calls
  */
 export async function parseScriptFromFile(filePath: string): Promise<Result<AutomationScript>> {
+  let parseResult: Result<AutomationScript>
+  if (isScriptModule(filePath)) {
+    parseResult = await parseScriptFromModule(filePath)
+  } else {
+    let fileContent: string
+    try {
+      fileContent = await readFile(filePath, 'utf-8')
+    } catch (error) {
+      return failure(`Failed to read automation script file: ${error}`)
+    }
+    parseResult = parseScriptFromString(fileContent, getScriptFormat(filePath))
+  }
+  if (!parseResult.success) {
+    return parseResult
+  }
+
+  resolveFixtures(parseResult.data, resolve(filePath))
+  const includes: Record<string, AutomationScript> = {}
+  const includesResult = await loadIncludes(parseResult.data, [resolve(filePath)], includes)
+  if (!includesResult.success) {
+    return includesResult
+  }
+
+  return success(Object.keys(includes).length > 0 ? {...parseResult.data, includes} : parseResult.data)
+}
+
+/**
+ * Load scripts called by `script` recursively, detecting include cycles.
+ * Call steps are rewritten to the absolute path of the called script.
+ */
+async function loadIncludes(
+  script: AutomationScript,
+  chain: string[],
+  includes: Record<string, AutomationScript>,
+): Promise<Result<void>> {
+  const scriptPath = chain[chain.length - 1]
+
+  for (const {step, stepNumber} of collectSteps(script, 'call')) {
+    if (!step.script) {
+      continue
+    }
+
+    const includePath = resolve(dirname(scriptPath), step.script)
+    const includeChain = [...chain, includePath]
+    if (chain.includes(includePath)) {
+      return failure(`Include cycle: ${formatIncludeChain(includeChain)}`)
+    }
+
+    if (!includes[includePath]) {
+      let includeResult: Result<AutomationScript>
+      if (isScriptModule(includePath)) {
+        includeResult = await parseScriptFromModule(includePath)
+      } else {
+        let content: string
+        try {
+          content = await readFile(includePath, 'utf-8')
+        } catch (error) {
+          return failure(
+            `${formatIncludeChain(chain)}: Step ${stepNumber}: failed to read called script ${step.script}: ${error}`,
+          )
+        }
+        includeResult = parseScriptFromString(content, getScriptFormat(includePath))
+      }
+      if (!includeResult.success) {
+        return failure(`${formatIncludeChain(includeChain)}: ${includeResult.error}`)
+      }
+      resolveFixtures(includeResult.data, includePath)
+      includes[includePath] = includeResult.data
+
+      const nestedResult = await loadIncludes(includeResult.data, includeChain, includes)
+      if (!nestedResult.success) {
+        return nestedResult
+      }
+    }
+
+    const missing = (includes[includePath].params || []).find((name) => !(name in (step.params || {})))
+    if (missing) {
+      return failure(
+        `${formatIncludeChain(chain)}: Step ${stepNumber}: missing parameter '${missing}' for ${step.script}`,
+      )
+    }
+
+    step.script = includePath
+  }
+
+  return success(undefined)
+}
+
+/**
+ * Rewrite the fixture files of route steps to absolute paths, relative to the script file like called scripts
+ */
+function resolveFixtures(script: AutomationScript, scriptPath: string): void {
+  for (const {step} of collectSteps(script, 'route')) {
+    if (step.fixture) {
+      step.fixture = resolve(dirname(scriptPath), step.fixture)
+    }
+  }
+}
+
+/**
+ * Format include chain relative to the working directory, e.g. `main.json → common/login.json`
+ */
+function formatIncludeChain(chain: string[]): string {
+  return chain.map((filePath) => relative(process.cwd(), filePath) || basename(filePath)).join(' → ')
+}
+
+/**
+ * Parse automation script from a TypeScript or JavaScript module exporting the script as `default` or `script`.
+ * The export may also be a function returning the script.
+ */
+export async function parseScriptFromModule(filePath: string): Promise<Result<AutomationScript>> {
+  let exported: unknown
   try {
-    const fileContent = await readFile(filePath, 'utf-8')
-    return parseScriptFromString(fileContent)
+    // Versioned by modification time, so edited modules are imported again, e.g. in watch mode
+    const url = pathToFileURL(resolve(filePath))
+    url.search = `mtime=${(await stat(filePath)).mtimeMs}`
+    const scriptModule = await import(url.href)
+    exported = scriptModule.default || scriptModule.script
+    if (typeof exported === 'function') {
+      exported = await exported()
+    }
   } catch (error) {
-    return failure(`Failed to read automation script file: ${error}`)
+    return failure(`Failed to load script module: ${error}`)
+  }
+
+  if (!exported || typeof exported !== 'object' || Array.isArray(exported)) {
+    return failure('Failed to load script module: module must export a script as default or `script`')
+  }
+
+  try {
+    return validateAndNormalizeScript(exported)
+  } catch (error) {
+    return failure(`Failed to load script module: ${error}`)
   }
 }
 
 /**
- * Parse automation script from JSON string
+ * Parse automation script from JSON, JSON5 or YAML string
  */
-export function parseScriptFromString(jsonContent: string): Result<AutomationScript> {
+export function parseScriptFromString(content: string, format: ScriptFormat = 'json'): Result<AutomationScript> {
+  let parsed: unknown
+  try {
+    if (format === 'yaml') {
+      parsed = parseYaml(content)
+    } else if (format === 'json5') {
+      parsed = JSON5.parse(content)
+    } else {
+      parsed = JSON.parse(content)
+    }
+  } catch (error) {
+    return failure(formatParseError(error, content, format))
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return failure(`Failed to parse ${FORMAT_NAMES[format]}: script must be an object`)
+  }
+
   try {
-    const parsed = JSON.parse(jsonContent)
     return validateAndNormalizeScript(parsed)
   } catch (error) {
-    return failure(`Failed to parse JSON: ${error}`)
+    return failure(`Failed to parse ${FORMAT_NAMES[format]}: ${error}`)
   }
 }
 
+/**
+ * Format syntax error with line and column, e.g. `Failed to parse YAML at line 4, column 1: ...`
+ */
+function formatParseError(error: unknown, content: string, format: ScriptFormat): string {
+  const message = error instanceof Error ? error.message : String(error)
+  let position: {line: number; column: number} | undefined
+  let reason = message
+
+  if (error instanceof YAMLError && error.linePos) {
+    position = {line: error.linePos[0].line, column: error.linePos[0].col}
+    reason = message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, '')
+  } else if (format === 'json5' && isJSON5Error(error)) {
+    position = {line: error.lineNumber, column: error.columnNumber}
+    reason = message.replace(/^JSON5: /, '').replace(/ at \d+:\d+$/, '')
+  } else {
+    const offset = message.match(/at position (\d+)/)
+    if (offset) {
+      position = getLineColumn(content, Number(offset[1]))
+      reason = message.replace(/ in JSON at position \d+.*$/, '')
+    }
+  }
+
+  const name = FORMAT_NAMES[format]
+  return position
+    ? `Failed to parse ${name} at line ${position.line}, column ${position.column}: ${reason}`
+    : `Failed to parse ${name}: ${reason}`
+}
+
+/**
+ * Syntax error thrown by JSON5, which carries its position
+ */
+interface JSON5Error extends SyntaxError {
+  lineNumber: number
+  columnNumber: number
+}
+
+function isJSON5Error(error: unknown): error is JSON5Error {
+  return error instanceof SyntaxError && 'lineNumber' in error && typeof error.lineNumber === 'number'
+}
+
+/**
+ * Convert a character offset to a 1-based line and column
+ */
+function getLineColumn(content: string, offset: number): {line: number; column: number} {
+  const lines = content.slice(0, offset).split('\n')
+  return {line: lines.length, column: lines[lines.length - 1].length + 1}
+}
+
 /**
  * Validate and normalize automation script
  */
@@ -42,145 +284,367 @@ function validateAndNormalizeScript(data: any): Result<AutomationScript> {
     return failure('Script must have at least one step')
   }
 
-  // Validate each step
-  const validatedSteps: ActionStep[] = []
-  for (let i = 0; i < data.steps.length; i++) {
-    const stepResult = validateStep(data.steps[i], i)
-    if (!stepResult.success) {
-      return stepResult
+  if (data.dataset !== undefined) {
+    const isFile = typeof data.dataset === 'string' && data.dataset.length > 0
+    const isRows =
+      Array.isArray(data.dataset) &&
+      data.dataset.every((row: unknown) => row !== null && typeof row === 'object' && !Array.isArray(row))
+    if (!isFile && !isRows) {
+      return failure('Script dataset must be a file path or an array of objects')
+    }
+  }
+
+  if (data.maxDuration !== undefined && (typeof data.maxDuration !== 'number' || data.maxDuration <= 0)) {
+    return failure('Script maxDuration must be a positive number of milliseconds')
+  }
+
+  for (const field of ['storageState', 'saveStorageState']) {
+    if (data[field] !== undefined && (typeof data[field] !== 'string' || data[field].length === 0)) {
+      return failure(`Script ${field} must be a profile name or file path`)
+    }
+  }
+
+  if (data.browser !== undefined) {
+    const browserResult = validateScriptBrowser(data.browser)
+    if (!browserResult.success) {
+      return browserResult
     }
-    validatedSteps.push(stepResult.data)
   }
 
-  return success({
+  const signatureResult = validateSignature(data, 'Script')
+  if (!signatureResult.success) {
+    return signatureResult
+  }
+
+  const functionsResult = validateFunctions(data.functions)
+  if (!functionsResult.success) {
+    return functionsResult
+  }
+
+  const hooksResult = validateHooks(data.hooks)
+  if (!hooksResult.success) {
+    return hooksResult
+  }
+
+  // Validate each step
+  const stepsResult = validateSteps(data.steps)
+  if (!stepsResult.success) {
+    return stepsResult
+  }
+
+  const setupResult = validateSection(data.setup, 'setup')
+  if (!setupResult.success) {
+    return setupResult
+  }
+
+  const teardownResult = validateSection(data.teardown, 'teardown')
+  if (!teardownResult.success) {
+    return teardownResult
+  }
+
+  const script: AutomationScript = {
     name: data.name,
     description: data.description || undefined,
     baseUrl: data.baseUrl || undefined,
-    steps: validatedSteps,
-  })
+    dataset: data.dataset || undefined,
+    maxDuration: data.maxDuration,
+    storageState: data.storageState,
+    saveStorageState: data.saveStorageState,
+    browser: data.browser,
+    params: data.params,
+    returns: data.returns,
+    functions: functionsResult.data,
+    hooks: data.hooks,
+    setup: setupResult.data,
+    steps: stepsResult.data,
+    teardown: teardownResult.data,
+  }
+
+  const callsResult = validateFunctionCalls(script)
+  if (!callsResult.success) {
+    return callsResult
+  }
+
+  return success(script)
 }
 
 /**
- * Validate individual action step
+ * Validate the `browser` section of a script, which holds emulation settings only
  */
-function validateStep(step: any, index: number): Result<ActionStep> {
-  const stepNumber = index + 1
+function validateScriptBrowser(browser: any): Result<void> {
+  if (!browser || typeof browser !== 'object' || Array.isArray(browser)) {
+    return failure('Script browser must be an object of emulation settings')
+  }
+  const unknown = Object.keys(browser).find((key) => !EMULATION_FIELDS.includes(key))
+  if (unknown) {
+    return failure(`Script browser.${unknown} cannot be set by a script, only ${EMULATION_FIELDS.join(', ')}`)
+  }
+  return validateEmulation(browser, 'Script browser')
+}
 
-  // Validate step type
-  if (!step.type || typeof step.type !== 'string') {
-    return failure(`Step ${stepNumber}: type is required and must be a string`)
+/**
+ * Validate `params` and `returns` of a script or function
+ */
+function validateSignature(data: any, owner: string): Result<void> {
+  for (const key of ['params', 'returns']) {
+    if (
+      data[key] !== undefined &&
+      (!Array.isArray(data[key]) || data[key].some((name: unknown) => typeof name !== 'string'))
+    ) {
+      return failure(`${owner} '${key}' must be an array of strings`)
+    }
   }
+  return success(undefined)
+}
 
-  const validTypes = ['navigate', 'click', 'type', 'wait', 'screenshot', 'scroll', 'select']
-  if (!validTypes.includes(step.type)) {
-    return failure(`Step ${stepNumber}: invalid type '${step.type}'. Valid types: ${validTypes.join(', ')}`)
+/**
+ * Validate the setup or teardown section, numbering its steps as `setup.1`
+ */
+function validateSection(steps: any, section: 'setup' | 'teardown'): Result<ActionStep[] | undefined> {
+  if (steps === undefined) {
+    return success(undefined)
+  }
+  if (!Array.isArray(steps)) {
+    return failure(`Script ${section} must be an array of steps`)
   }
+  return validateSteps(steps, section)
+}
 
-  // Validate step-specific requirements
-  const requirementsResult = validateStepRequirements(step, stepNumber)
-  if (!requirementsResult.success) {
-    return requirementsResult
-  }
-
-  return success({
-    type: step.type,
-    selector: step.selector || undefined,
-    value: step.value || undefined,
-    url: step.url || undefined,
-    timeout: step.timeout || undefined, // 설정 파일에서 기본값 사용
-    description: step.description || undefined,
-    frame: step.frame || undefined,
-    optional: step.optional || undefined,
-  })
+/**
+ * Validate script hooks, which only TypeScript/JavaScript scripts can define
+ */
+function validateHooks(hooks: any): Result<void> {
+  if (hooks === undefined) {
+    return success(undefined)
+  }
+  if (!hooks || typeof hooks !== 'object' || Array.isArray(hooks)) {
+    return failure('Script hooks must be an object')
+  }
+
+  for (const [name, hook] of Object.entries(hooks)) {
+    if (!HOOK_NAMES.includes(name as keyof AutoHooks)) {
+      return failure(`Unknown script hook '${name}'. Valid hooks: ${HOOK_NAMES.join(', ')}`)
+    }
+    if (typeof hook !== 'function') {
+      return failure(`Script hook '${name}' must be a function`)
+    }
+  }
+  return success(undefined)
 }
 
 /**
- * Validate step-specific requirements
+ * Validate the functions section, numbering function steps as `functions.login.1`
  */
-function validateStepRequirements(step: any, stepNumber: number): Result<void> {
-  switch (step.type) {
-    case 'navigate':
-      if (!step.url || typeof step.url !== 'string') {
-        return failure(`Step ${stepNumber}: navigate action requires 'url' field`)
-      }
-      break
+function validateFunctions(functions: any): Result<Record<string, ScriptFunction> | undefined> {
+  if (functions === undefined) {
+    return success(undefined)
+  }
+  if (!functions || typeof functions !== 'object' || Array.isArray(functions)) {
+    return failure('Script functions must be an object')
+  }
 
-    case 'click':
-      if (!step.selector || typeof step.selector !== 'string') {
-        return failure(`Step ${stepNumber}: click action requires 'selector' field`)
-      }
-      break
+  const validated: Record<string, ScriptFunction> = {}
+  for (const [name, fn] of Object.entries<any>(functions)) {
+    if (!fn || typeof fn !== 'object' || !Array.isArray(fn.steps) || fn.steps.length === 0) {
+      return failure(`Function '${name}' requires a non-empty 'steps' array`)
+    }
 
-    case 'type':
-      if (!step.selector || typeof step.selector !== 'string') {
-        return failure(`Step ${stepNumber}: type action requires 'selector' field`)
-      }
-      if (step.value === undefined || step.value === null) {
-        return failure(`Step ${stepNumber}: type action requires 'value' field`)
-      }
-      break
+    const signatureResult = validateSignature(fn, `Function '${name}'`)
+    if (!signatureResult.success) {
+      return signatureResult
+    }
 
-    case 'wait':
-      // Wait action can use default timeout from config, so timeout is optional
-      if (step.timeout !== undefined && (typeof step.timeout !== 'number' || step.timeout <= 0)) {
-        return failure(`Step ${stepNumber}: wait action timeout must be a positive number if provided`)
-      }
-      break
+    const stepsResult = validateSteps(fn.steps, `functions.${name}`)
+    if (!stepsResult.success) {
+      return stepsResult
+    }
 
-    case 'scroll':
-      if (!step.selector || typeof step.selector !== 'string') {
-        return failure(`Step ${stepNumber}: scroll action requires 'selector' field`)
-      }
-      break
+    validated[name] = {
+      description: fn.description || undefined,
+      params: fn.params,
+      returns: fn.returns,
+      steps: stepsResult.data,
+    }
+  }
+  return success(validated)
+}
+
+/**
+ * Check that called functions exist, get their parameters and do not call themselves
+ */
+function validateFunctionCalls(script: AutomationScript): Result<void> {
+  const functions = script.functions || {}
+
+  for (const {step, stepNumber} of collectSteps(script, 'call')) {
+    if (!step.function) {
+      continue
+    }
+    const fn = functions[step.function]
+    if (!fn) {
+      return failure(`Step ${stepNumber}: unknown function '${step.function}'`)
+    }
+    const missing = (fn.params || []).find((name) => !(name in (step.params || {})))
+    if (missing) {
+      return failure(`Step ${stepNumber}: missing parameter '${missing}' for function '${step.function}'`)
+    }
+  }
 
-    case 'select':
-      if (!step.selector || typeof step.selector !== 'string') {
-        return failure(`Step ${stepNumber}: select action requires 'selector' field`)
+  const visit = (name: string, chain: string[]): Result<void> => {
+    if (chain.includes(name)) {
+      return failure(`Function cycle: ${[...chain, name].join(' → ')}`)
+    }
+    const calls: string[] = []
+    forEachStep(functions[name].steps, (step) => {
+      if (step.function) {
+        calls.push(step.function)
       }
-      if (step.value === undefined || step.value === null) {
-        return failure(`Step ${stepNumber}: select action requires 'value' field`)
+    })
+    for (const callee of calls) {
+      const result = visit(callee, [...chain, name])
+      if (!result.success) {
+        return result
       }
-      break
+    }
+    return success(undefined)
+  }
+
+  for (const name of Object.keys(functions)) {
+    const result = visit(name, [])
+    if (!result.success) {
+      return result
+    }
+  }
+  return success(undefined)
+}
 
-    case 'screenshot':
-      // No additional requirements for screenshot
-      break
+/**
+ * Steps of a type in the setup, main steps, teardown and functions of a script, with their step numbers
+ */
+function collectSteps(script: AutomationScript, type: string): {step: ActionStep; stepNumber: string}[] {
+  const found: {step: ActionStep; stepNumber: string}[] = []
+  const collect = (step: ActionStep, stepNumber: string) => {
+    if (step.type === type) {
+      found.push({step, stepNumber})
+    }
+  }
 
-    default:
-      return failure(`Step ${stepNumber}: unknown action type '${step.type}'`)
+  forEachStep(script.setup || [], collect, 'setup')
+  forEachStep(script.steps, collect)
+  forEachStep(script.teardown || [], collect, 'teardown')
+  for (const [name, fn] of Object.entries(script.functions || {})) {
+    forEachStep(fn.steps, collect, `functions.${name}`)
   }
+  return found
+}
 
-  // Validate timeout if provided
-  if (step.timeout !== undefined && (typeof step.timeout !== 'number' || step.timeout <= 0)) {
-    return failure(`Step ${stepNumber}: timeout must be a positive number`)
+/**
+ * Visit steps and their nested steps, numbered like validateSteps
+ */
+function forEachStep(
+  steps: ActionStep[],
+  visit: (step: ActionStep, stepNumber: string) => void,
+  parentPath?: string,
+): void {
+  steps.forEach((step, i) => {
+    const stepNumber = parentPath ? `${parentPath}.${i + 1}` : String(i + 1)
+    visit(step, stepNumber)
+    for (const nested of getNestedSteps(step)) {
+      forEachStep(nested.steps, visit, nested.path ? `${stepNumber}.${nested.path}` : stepNumber)
+    }
+  })
+}
+
+/**
+ * Validate a list of steps, numbering nested steps as `3.then.1`
+ */
+function validateSteps(steps: any[], parentPath?: string): Result<ActionStep[]> {
+  const validatedSteps: ActionStep[] = []
+  for (let i = 0; i < steps.length; i++) {
+    const stepNumber = parentPath ? `${parentPath}.${i + 1}` : String(i + 1)
+    const stepResult = validateStep(steps[i], stepNumber)
+    if (!stepResult.success) {
+      return stepResult
+    }
+    validatedSteps.push(stepResult.data)
+  }
+
+  const labelsResult = validateLabels(validatedSteps, parentPath)
+  if (!labelsResult.success) {
+    return labelsResult
   }
+  return success(validatedSteps)
+}
 
+/**
+ * Check that labels and ids are unique and `goto:<label>` targets a later step of the same list
+ */
+function validateLabels(steps: ActionStep[], parentPath?: string): Result<void> {
+  const getStepNumber = (i: number) => (parentPath ? `${parentPath}.${i + 1}` : String(i + 1))
+  // Index of the step each label or id names; one step may use the same name for both
+  const targets = new Map<string, number>()
+  for (let i = 0; i < steps.length; i++) {
+    const names = [steps[i].id, steps[i].label].filter((name) => name !== undefined)
+    const duplicate = names.find((name) => targets.has(name))
+    if (duplicate !== undefined) {
+      return failure(`Step ${getStepNumber(i)}: duplicate ${duplicate === steps[i].id ? 'id' : 'label'} '${duplicate}'`)
+    }
+    names.forEach((name) => targets.set(name, i))
+  }
+
+  for (let i = 0; i < steps.length; i++) {
+    const stepNumber = getStepNumber(i)
+    const {onFailure} = steps[i]
+    if (onFailure?.startsWith('goto:')) {
+      const target = onFailure.slice('goto:'.length)
+      if ((targets.get(target) ?? -1) <= i) {
+        return failure(`Step ${stepNumber}: onFailure target '${target}' must label a later step in the same list`)
+      }
+    }
+  }
   return success(undefined)
 }
 
+/**
+ * Validate individual action step
+ */
+function validateStep(step: any, stepNumber: string): Result<ActionStep> {
+  if (!step || typeof step !== 'object') {
+    return failure(`Step ${stepNumber}: step must be an object`)
+  }
+
+  // Validate step type
+  if (!step.type || typeof step.type !== 'string') {
+    return failure(`Step ${stepNumber}: type is required and must be a string`)
+  }
+
+  if (!getActionDefinition(step.type)) {
+    return failure(`Step ${stepNumber}: ${describeUnknownAction(step.type)}`)
+  }
+
+  // Validate fields against the action's schema
+  const requirementsResult = validateActionStep(step)
+  if (!requirementsResult.success) {
+    return failure(`Step ${stepNumber}: ${requirementsResult.error}`)
+  }
+
+  // Validate nested steps of control-flow actions
+  const normalized = normalizeActionStep(step)
+  for (const nested of getNestedSteps(normalized)) {
+    const branchPath = nested.path ? `${stepNumber}.${nested.path}` : stepNumber
+    const branchResult = validateSteps(nested.steps, branchPath)
+    if (!branchResult.success) {
+      return branchResult
+    }
+    Object.assign(normalized, {[nested.branch]: branchResult.data})
+  }
+
+  return success(normalized)
+}
+
 /**
  * Get step summary for logging
  */
 export function getStepSummary(step: ActionStep, index: number): string {
-  const stepNumber = index + 1
   const desc = step.description ? ` (${step.description})` : ''
-
-  switch (step.type) {
-    case 'navigate':
-      return `Step ${stepNumber}: Navigate to ${step.url}${desc}`
-    case 'click':
-      return `Step ${stepNumber}: Click ${step.selector}${desc}`
-    case 'type':
-      return `Step ${stepNumber}: Type "${step.value}" into ${step.selector}${desc}`
-    case 'wait':
-      return `Step ${stepNumber}: Wait ${step.timeout}ms${desc}`
-    case 'screenshot':
-      return `Step ${stepNumber}: Take screenshot${desc}`
-    case 'scroll':
-      return `Step ${stepNumber}: Scroll ${step.selector}${desc}`
-    case 'select':
-      return `Step ${stepNumber}: Select "${step.value}" from ${step.selector}${desc}`
-    default:
-      return `Step ${stepNumber}: ${step.type}${desc}`
-  }
+  return `Step ${index + 1}: ${describeStep(step)}${desc}`
 }
@@ -0,0 +1,158 @@
+import {describe, it, expect} from 'vitest'
+import {
+  describeStep,
+  describeUnknownAction,
+  formatActionReference,
+  getActionTypes,
+  getNestedSteps,
+  isTabStep,
+  normalizeActionStep,
+  validateActionStep,
+} from './registry.js'
+
+describe('Action Registry', () => {
+  describe('getActionTypes', () => {
+    it('should list all built-in actions', () => {
+      const types = getActionTypes()
+
+      expect(types).toContain('alert')
+      expect(types).toContain('assertVariable')
+      expect(types).toHaveLength(new Set(types).size)
+    })
+  })
+
+  describe('validateActionStep', () => {
+    it('should check required fields and field types', () => {
+      expect(validateActionStep({type: 'navigate'})).toEqual({
+        success: false,
+        error: "navigate action requires 'url' field",
+      })
+      expect(validateActionStep({type: 'repeat', times: 0, steps: [{type: 'screenshot'}]})).toEqual({
+        success: false,
+        error: "repeat action requires positive integer 'times' field",
+      })
+      expect(validateActionStep({type: 'if', condition: {selector: 'h1'}, then: []})).toEqual({
+        success: false,
+        error: "if action requires a non-empty 'then' array",
+      })
+      expect(validateActionStep({type: 'click', selector: 'a', popup: 'yes'})).toEqual({
+        success: false,
+        error: "click action 'popup' must be a boolean",
+      })
+    })
+
+    it('should run action-specific checks after the schema', () => {
+      expect(validateActionStep({type: 'switchTab'})).toEqual({
+        success: false,
+        error: 'switchTab action requires one of index, alias, urlPattern, titlePattern',
+      })
+      expect(validateActionStep({type: 'assertVisible', selector: '.toast', equals: 'x'})).toEqual({
+        success: false,
+        error: 'assertVisible action does not take comparison operators',
+      })
+      expect(validateActionStep({type: 'alert', value: 'ignore'})).toEqual({
+        success: false,
+        error: "alert action 'value' must be 'accept' or 'dismiss'",
+      })
+      expect(validateActionStep({type: 'setGeolocation', latitude: 137.5, longitude: 37.5})).toEqual({
+        success: false,
+        error: 'setGeolocation action requires a latitude from -90 to 90 and a longitude from -180 to 180',
+      })
+      expect(validateActionStep({type: 'route', abort: 'failed'})).toEqual({
+        success: false,
+        error: 'route action requires url or resourceTypes',
+      })
+      expect(validateActionStep({type: 'route', url: '**/api/*', json: {}, fixture: './orders.json'})).toEqual({
+        success: false,
+        error: 'route action takes one of body, json and fixture, got json and fixture',
+      })
+      expect(validateActionStep({type: 'route', url: '**/api/*', patch: {total: 0}, abort: 'failed'})).toEqual({
+        success: false,
+        error: "route action 'patch' changes the real response and cannot be combined with abort",
+      })
+      expect(validateActionStep({type: 'route', resourceTypes: ['image', 'video'], abort: 'failed'})).toEqual({
+        success: false,
+        error: expect.stringContaining("route action has unknown resource type 'video'"),
+      })
+    })
+
+    it('should check common fields', () => {
+      expect(validateActionStep({type: 'screenshot', timeout: -1})).toEqual({
+        success: false,
+        error: 'timeout must be a positive number',
+      })
+      expect(validateActionStep({type: 'screenshot', tags: ['smoke', 1]})).toEqual({
+        success: false,
+        error: "'tags' must be an array of strings",
+      })
+      expect(validateActionStep({type: 'screenshot', description: 'Final state'})).toEqual({
+        success: true,
+        data: undefined,
+      })
+    })
+  })
+
+  describe('describeUnknownAction', () => {
+    it('should list valid types for unknown built-in actions', () => {
+      expect(describeUnknownAction('hover')).toMatch(/^invalid type 'hover'\. Valid types: navigate, /)
+    })
+
+    it('should name the plugin expected for namespaced actions', () => {
+      expect(describeUnknownAction('datepicker.selectDate')).toBe(
+        "unknown action 'datepicker.selectDate': plugin 'datepicker' is not loaded, add it to 'plugins' in the config file",
+      )
+    })
+  })
+
+  describe('normalizeActionStep', () => {
+    it('should keep only the fields of the action', () => {
+      const step = normalizeActionStep({type: 'navigate', url: '/home', selector: 'h1', timeout: 1000, extra: true})
+
+      expect(step).toEqual({type: 'navigate', url: '/home', timeout: 1000})
+    })
+  })
+
+  describe('getNestedSteps', () => {
+    it('should return branches and loop steps with their step number segment', () => {
+      const screenshot = {type: 'screenshot' as const}
+
+      expect(getNestedSteps({type: 'if', condition: {selector: 'h1'}, then: [screenshot], else: [screenshot]})).toEqual(
+        [
+          {branch: 'then', path: 'then', steps: [screenshot]},
+          {branch: 'else', path: 'else', steps: [screenshot]},
+        ],
+      )
+      expect(getNestedSteps({type: 'repeat', times: 2, steps: [screenshot]})).toEqual([
+        {branch: 'steps', path: undefined, steps: [screenshot]},
+      ])
+    })
+  })
+
+  describe('describeStep', () => {
+    it('should summarize steps', () => {
+      expect(describeStep({type: 'click', selector: '#login', popup: true})).toBe('Click #login and switch to popup')
+      expect(describeStep({type: 'forEach', items: 'rows', steps: []})).toBe('For each item in vars.rows')
+      expect(describeStep({type: 'alert'})).toBe('Accept dialogs')
+      expect(describeStep({type: 'grantPermissions', permissions: ['geolocation']})).toBe('Grant geolocation')
+    })
+  })
+
+  describe('isTabStep', () => {
+    it('should detect steps working on tabs', () => {
+      expect(isTabStep({type: 'newTab'})).toBe(true)
+      expect(isTabStep({type: 'click', selector: '#a', popup: true})).toBe(true)
+      expect(isTabStep({type: 'click', selector: '#a'})).toBe(false)
+    })
+  })
+
+  describe('formatActionReference', () => {
+    it('should document every action with its fields', () => {
+      const reference = formatActionReference()
+
+      for (const type of getActionTypes()) {
+        expect(reference).toContain(`### ${type}\n`)
+      }
+      expect(reference).toContain('| `url` | string | yes | URL to open |')
+    })
+  })
+})
@@ -0,0 +1,472 @@
+import type {Page} from 'playwright'
+import {
+  ActionStep,
+  FailurePolicy,
+  PluginStep,
+  Result,
+  StepNumber,
+  VariableStore,
+  success,
+  failure,
+} from '../types/index.js'
+import type {AutoConfig} from '../config/index.js'
+import type {BrowserController} from '../browser/controller.js'
+import type {Logger} from '../utils/logger.js'
+import {BUILTIN_ACTIONS} from './builtin.js'
+
+/**
+ * Value type of a step field, checked when a script is parsed
+ */
+export type FieldType =
+  | 'string'
+  | 'number'
+  | 'positiveInteger'
+  | 'nonNegativeInteger'
+  | 'boolean'
+  | 'object'
+  | 'value' // string or number
+  | 'scalar' // string, number or boolean
+  | 'strings' // array of strings
+  | 'json' // any JSON value
+  | 'steps' // nested step list
+  | 'condition' // StepCondition
+
+export interface FieldSchema {
+  type: FieldType
+  required?: boolean
+  description: string
+}
+
+export type ActionCategory =
+  | 'navigation'
+  | 'interaction'
+  | 'data'
+  | 'control'
+  | 'tabs'
+  | 'browser'
+  | 'assertion'
+  | 'reuse'
+  | 'plugin'
+
+/**
+ * What an action executor gets to work with
+ */
+export interface ActionContext {
+  page: Page // active page
+  controller?: BrowserController // set for actions that work on tabs
+  config: AutoConfig
+  logger?: Logger
+  stepNumber?: StepNumber
+  variables?: VariableStore
+  signal?: AbortSignal // fires when the run is cancelled; long waits should stop early
+}
+
+/**
+ * Collects findings of an action's lint checks in `validate`
+ */
+export interface LintReport {
+  error(field: string, message: string): void
+  warn(message: string): void
+}
+
+/**
+ * Everything the tool knows about one action type
+ */
+export interface ActionDefinition<S extends ActionStep = ActionStep> {
+  category: ActionCategory
+  plugin?: string // name of the plugin contributing the action
+  description: string
+  fields: Record<string, FieldSchema>
+  /** Checks beyond the field schema; returns an error such as `call action requires either 'script' or 'function' field` */
+  validate?(step: S): string | undefined
+  /** Warnings and errors reported by the `validate` command */
+  lint?(step: S, report: LintReport): void
+  /** One-line summary for logs, e.g. `Navigate to https://example.com` */
+  describe(step: S): string
+  /** Runs the step in the browser; control-flow and assert actions have none and are run by the engine */
+  execute?(step: S, context: ActionContext): Promise<Result<string | undefined>>
+  /** Whether the step works on the page collection rather than the active page */
+  tabs?: boolean | ((step: S) => boolean)
+}
+
+/**
+ * Action contributed by a plugin; it must bring its own executor
+ */
+export type PluginAction<S extends ActionStep = PluginStep> = Omit<
+  ActionDefinition<S>,
+  'category' | 'plugin' | 'execute'
+> & {
+  category?: ActionCategory // section in the action reference (default: plugin)
+  execute(step: S, context: ActionContext): Promise<Result<string | undefined>>
+}
+
+/**
+ * Plugin contributing actions, registered as `<name>.<action>`, e.g. `datepicker.selectDate`
+ */
+export interface AutoPlugin {
+  name: string
+  description?: string
+  actions: Record<string, PluginAction>
+}
+
+// Fields every action accepts
+const COMMON_FIELDS: Record<string, FieldSchema> = {
+  description: {type: 'string', description: 'Human-readable description of the step'},
+  timeout: {type: 'number', description: 'Timeout for this step in milliseconds (default: browser.timeout)'},
+  optional: {type: 'boolean', description: 'Log a failure of the step as a warning and go on'},
+  id: {
+    type: 'string',
+    description: 'Identifier of the step, targeted like a label by `goto:<id>`, `--from`, `--to` and `--only`',
+  },
+  label: {
+    type: 'string',
+    description: "Name of the step, the target of `onFailure: 'goto:<label>'` and of `--from`, `--to` and `--only`",
+  },
+  tags: {type: 'strings', description: 'Tags of the step, selected with `--only <tag>`'},
+  onFailure: {
+    type: 'string',
+    description: "On failure: 'stop', 'continue', 'skipRest' (rest of the step list) or 'goto:<label>' (a later step)",
+  },
+}
+
+const FIELD_TYPES: Record<FieldType, {check: (value: any) => boolean; expected: string; label: string}> = {
+  string: {check: (value) => typeof value === 'string', expected: 'a string', label: 'string'},
+  number: {check: (value) => typeof value === 'number', expected: 'a number', label: 'number'},
+  positiveInteger: {
+    check: (value) => Number.isInteger(value) && value >= 1,
+    expected: 'a positive integer',
+    label: 'positive integer',
+  },
+  nonNegativeInteger: {
+    check: (value) => Number.isInteger(value) && value >= 0,
+    expected: 'a non-negative integer',
+    label: 'non-negative integer',
+  },
+  boolean: {check: (value) => typeof value === 'boolean', expected: 'a boolean', label: 'boolean'},
+  object: {
+    check: (value) => !!value && typeof value === 'object' && !Array.isArray(value),
+    expected: 'an object',
+    label: 'object',
+  },
+  value: {
+    check: (value) => typeof value === 'string' || typeof value === 'number',
+    expected: 'a string or number',
+    label: 'string | number',
+  },
+  scalar: {
+    check: (value) => ['string', 'number', 'boolean'].includes(typeof value),
+    expected: 'a string, number or boolean',
+    label: 'string | number | boolean',
+  },
+  strings: {
+    check: (value) => Array.isArray(value) && value.every((item) => typeof item === 'string'),
+    expected: 'an array of strings',
+    label: 'string[]',
+  },
+  json: {check: (value) => value !== undefined, expected: 'a JSON value', label: 'JSON'},
+  steps: {check: (value) => Array.isArray(value), expected: 'an array', label: 'steps'},
+  condition: {
+    check: (value) => !!value && typeof value === 'object' && !Array.isArray(value),
+    expected: 'an object',
+    label: 'condition',
+  },
+}
+
+const CATEGORY_TITLES: Record<ActionCategory, string> = {
+  navigation: 'Navigation Actions',
+  interaction: 'Interaction Actions',
+  data: 'Data Actions',
+  control: 'Control Flow Actions',
+  tabs: 'Tab Actions',
+  browser: 'Browser Actions',
+  assertion: 'Assertion Actions',
+  reuse: 'Reusable Steps',
+  plugin: 'Plugin Actions',
+}
+
+let actions: Map<string, ActionDefinition> | undefined
+const plugins = new Map<string, AutoPlugin>()
+
+/**
+ * Registered actions, created on first use: the built-in executors import the browser controller,
+ * which imports this module
+ */
+function getRegistry(): Map<string, ActionDefinition> {
+  actions ??= new Map(Object.entries(BUILTIN_ACTIONS) as [string, ActionDefinition][])
+  return actions
+}
+
+/**
+ * Register the actions of a plugin. Registering the same plugin again is a no-op; another plugin with
+ * the same name, e.g. of a re-imported config, replaces it and its actions.
+ */
+export function registerPlugin(plugin: AutoPlugin): Result<void> {
+  if (!plugin || typeof plugin.name !== 'string' || !/^[A-Za-z][\w-]*$/.test(plugin.name)) {
+    return failure(`Invalid plugin name '${plugin?.name}': use letters, digits, '-' and '_'`)
+  }
+  const registered = plugins.get(plugin.name)
+  if (registered === plugin) {
+    return success(undefined)
+  }
+  if (!plugin.actions || typeof plugin.actions !== 'object' || Object.keys(plugin.actions).length === 0) {
+    return failure(`Plugin '${plugin.name}' has no actions`)
+  }
+
+  for (const [name, action] of Object.entries(plugin.actions)) {
+    if (!/^[A-Za-z]\w*$/.test(name)) {
+      return failure(`Plugin '${plugin.name}': invalid action name '${name}'`)
+    }
+    if (typeof action?.execute !== 'function' || typeof action.describe !== 'function') {
+      return failure(`Plugin '${plugin.name}': action '${name}' requires 'execute' and 'describe' functions`)
+    }
+  }
+
+  for (const name of Object.keys(registered?.actions || {})) {
+    getRegistry().delete(`${plugin.name}.${name}`)
+  }
+  plugins.set(plugin.name, plugin)
+  // Like the built-in ones, each definition only gets steps of its own type
+  for (const [name, action] of Object.entries(plugin.actions)) {
+    getRegistry().set(`${plugin.name}.${name}`, {
+      ...action,
+      category: action.category || 'plugin',
+      plugin: plugin.name,
+      fields: action.fields || {},
+    } as ActionDefinition)
+  }
+  return success(undefined)
+}
+
+/**
+ * Get registered plugin names
+ */
+export function getPluginNames(): string[] {
+  return [...plugins.keys()]
+}
+
+/**
+ * Explain an unknown action type, naming the plugin it was expected from
+ */
+export function describeUnknownAction(type: string): string {
+  const separator = type.indexOf('.')
+  if (separator === -1) {
+    return `invalid type '${type}'. Valid types: ${getActionTypes().join(', ')}`
+  }
+
+  const pluginName = type.slice(0, separator)
+  const plugin = plugins.get(pluginName)
+  if (!plugin) {
+    return `unknown action '${type}': plugin '${pluginName}' is not loaded, add it to 'plugins' in the config file`
+  }
+  const actionNames = Object.keys(plugin.actions).join(', ')
+  return `unknown action '${type}': plugin '${pluginName}' has no action '${type.slice(separator + 1)}' (actions: ${actionNames})`
+}
+
+/**
+ * Get definition of an action type
+ */
+export function getActionDefinition(type: string): ActionDefinition | undefined {
+  return getRegistry().get(type)
+}
+
+/**
+ * Get all action types in registration order
+ */
+export function getActionTypes(): string[] {
+  return [...getRegistry().keys()]
+}
+
+/**
+ * Get fields an action accepts, including the fields common to all actions
+ */
+export function getActionFields(type: string): Record<string, FieldSchema> {
+  return {...COMMON_FIELDS, ...getRegistry().get(type)?.fields}
+}
+
+/**
+ * Validate step fields against the action's schema and checks.
+ * Errors name the action, e.g. `navigate action requires 'url' field`.
+ */
+export function validateActionStep(step: any): Result<void> {
+  const definition = getRegistry().get(step.type)
+  if (!definition) {
+    return failure(describeUnknownAction(step.type))
+  }
+
+  for (const [name, field] of Object.entries(definition.fields)) {
+    const error = validateField(step, name, field)
+    if (error) {
+      return failure(error)
+    }
+  }
+
+  // Plugin steps are not typed by the tool; a misspelled field would be dropped without notice
+  if (definition.plugin) {
+    const fields = getActionFields(step.type)
+    const unknown = Object.keys(step).find((name) => name !== 'type' && !(name in fields))
+    if (unknown) {
+      const declared = Object.keys(definition.fields)
+      return failure(
+        `${step.type} action has no field '${unknown}'${declared.length > 0 ? ` (fields: ${declared.join(', ')})` : ''}`,
+      )
+    }
+  }
+
+  const error = definition.validate?.(step)
+  if (error) {
+    return failure(error)
+  }
+
+  // Validate common fields
+  if (step.timeout !== undefined && (typeof step.timeout !== 'number' || step.timeout <= 0)) {
+    return failure('timeout must be a positive number')
+  }
+  if (step.onFailure !== undefined && !isFailurePolicy(step.onFailure)) {
+    return failure("onFailure must be 'stop', 'continue', 'skipRest' or 'goto:<label>'")
+  }
+  for (const name of ['description', 'optional', 'id', 'label', 'tags'] as const) {
+    if (step[name] !== undefined && !FIELD_TYPES[COMMON_FIELDS[name].type].check(step[name])) {
+      return failure(`'${name}' must be ${FIELD_TYPES[COMMON_FIELDS[name].type].expected}`)
+    }
+  }
+
+  return success(undefined)
+}
+
+function isFailurePolicy(value: unknown): value is FailurePolicy {
+  return (
+    value === 'stop' ||
+    value === 'continue' ||
+    value === 'skipRest' ||
+    (typeof value === 'string' && /^goto:.+/.test(value))
+  )
+}
+
+/**
+ * Copy the fields the action accepts, dropping unknown ones
+ */
+export function normalizeActionStep(step: any): ActionStep {
+  const names = Object.keys(getActionFields(step.type)).filter((name) => step[name] !== undefined)
+  return {type: step.type, ...Object.fromEntries(names.map((name) => [name, step[name]]))}
+}
+
+/**
+ * Get nested step lists of a control-flow step, with the path segment used in step numbers
+ * (`then` and `else` branches, loop `steps` without a segment)
+ */
+export function getNestedSteps(step: ActionStep): {branch: string; path?: string; steps: ActionStep[]}[] {
+  const fields = getActionFields(step.type)
+  const record = step as unknown as Record<string, unknown>
+  return Object.keys(fields)
+    .filter((name) => fields[name].type === 'steps' && Array.isArray(record[name]))
+    .map((name) => ({branch: name, path: name === 'steps' ? undefined : name, steps: record[name] as ActionStep[]}))
+}
+
+/**
+ * Summarize step for logs, e.g. `Click button#submit`
+ */
+export function describeStep(step: ActionStep): string {
+  const definition = getRegistry().get(step.type)
+  return definition ? definition.describe(step) : `Execute ${step.type}`
+}
+
+/**
+ * Check if step works on the page collection rather than the active page
+ */
+export function isTabStep(step: ActionStep): boolean {
+  const tabs = getRegistry().get(step.type)?.tabs
+  return typeof tabs === 'function' ? tabs(step) : tabs === true
+}
+
+/**
+ * Generate the markdown action reference from the registered actions
+ */
+export function formatActionReference(): string {
+  const lines: string[] = ['# Action Reference', '']
+  lines.push('Fields accepted by every action:', '')
+  lines.push(...formatFieldTable(COMMON_FIELDS), '')
+
+  for (const category of Object.keys(CATEGORY_TITLES) as ActionCategory[]) {
+    const entries = [...getRegistry().entries()].filter(([, definition]) => definition.category === category)
+    if (entries.length === 0) {
+      continue
+    }
+    lines.push(`## ${CATEGORY_TITLES[category]}`, '')
+    for (const [type, definition] of entries) {
+      lines.push(`### ${type}`, '', definition.description, '')
+      if (Object.keys(definition.fields).length > 0) {
+        lines.push(...formatFieldTable(definition.fields), '')
+      }
+    }
+  }
+
+  return lines.join('\n').trimEnd() + '\n'
+}
+
+function formatFieldTable(fields: Record<string, FieldSchema>): string[] {
+  return [
+    '| Field | Type | Required | Description |',
+    '|-------|------|----------|-------------|',
+    ...Object.entries(fields).map(
+      ([name, field]) =>
+        `| \`${name}\` | ${FIELD_TYPES[field.type].label} | ${field.required ? 'yes' : 'no'} | ${field.description} |`,
+    ),
+  ]
+}
+
+/**
+ * Check one field of a step against its schema
+ */
+function validateField(step: any, name: string, field: FieldSchema): string | undefined {
+  const value = step[name]
+  const {check, expected, label} = FIELD_TYPES[field.type]
+
+  if (field.type === 'condition') {
+    return value === undefined && !field.required ? undefined : validateCondition(value)
+  }
+
+  if (field.required) {
+    const empty = value === '' || (Array.isArray(value) && value.length === 0)
+    if (value === undefined || value === null || empty || !check(value)) {
+      if (field.type === 'steps') {
+        return `${step.type} action requires a non-empty '${name}' array`
+      }
+      const qualifier = ['positiveInteger', 'nonNegativeInteger'].includes(field.type) ? `${label} ` : ''
+      return `${step.type} action requires ${qualifier}'${name}' field`
+    }
+    return undefined
+  }
+
+  if (value !== undefined && !check(value)) {
+    return `${step.type} action '${name}' must be ${expected}`
+  }
+  return undefined
+}
+
+/**
+ * Validate condition of a control-flow step
+ */
+function validateCondition(condition: any): string | undefined {
+  if (!condition || typeof condition !== 'object' || Array.isArray(condition)) {
+    return `'condition' is required and must be an object`
+  }
+
+  const checks = ['selector', 'text', 'url', 'variable']
+  if (!checks.some((key) => typeof condition[key] === 'string' && condition[key].length > 0)) {
+    return `condition requires one of ${checks.join(', ')}`
+  }
+
+  for (const key of ['exists', 'visible', 'not']) {
+    if (condition[key] !== undefined && typeof condition[key] !== 'boolean') {
+      return `condition '${key}' must be a boolean`
+    }
+  }
+
+  for (const key of ['greaterThan', 'lessThan']) {
+    if (condition[key] !== undefined && typeof condition[key] !== 'number') {
+      return `condition '${key}' must be a number`
+    }
+  }
+
+  return undefined
+}
@@ -111,6 +111,38 @@ describe('Script Validator', () => {
       })
     })
 
+    it('should accept URLs with variable placeholders', () => {
+      const script: AutomationScript = {
+        name: 'Test Script',
+        steps: [
+          {type: 'navigate', url: '${vars.base}/home'},
+          {type: 'navigate', url: '${env>BASE_URL}'},
+          {type: 'newTab', url: 'https://${env>HOST}/reports'},
+          {type: 'navigate', url: 'not-a-url'},
+        ],
+      }
+
+      const result = validateScript(script)
+
+      expect(result.errors).toEqual([{field: 'url', message: 'Invalid URL format', step: 4}])
+    })
+
+    it('should accept URL patterns of route steps', () => {
+      const script: AutomationScript = {
+        name: 'Test Script',
+        steps: [
+          {type: 'route', url: '**/api/user', json: {name: 'Kim'}},
+          {type: 'route', url: '/analytics/', abort: 'blockedbyclient'},
+          {type: 'route', url: '/[unclosed/', abort: 'failed'},
+          {type: 'unroute', url: '**/api/user'},
+        ],
+      }
+
+      const result = validateScript(script)
+
+      expect(result.errors).toEqual([{field: 'url', message: 'Invalid URL pattern', step: 3}])
+    })
+
     it('should detect negative timeout', () => {
       const script: AutomationScript = {
         name: 'Test Script',
@@ -270,6 +302,37 @@ describe('Script Validator', () => {
 
       expect(result.warnings).toContain('Step 1: Timeout over 60 seconds may be too long')
     })
+
+    it('should validate nested branch steps with their path', () => {
+      const script: AutomationScript = {
+        name: 'Test Script',
+        steps: [
+          {
+            type: 'if',
+            condition: {selector: '#login-form'},
+            then: [{type: 'navigate', url: 'not-a-url'}],
+            else: [{type: 'wait', timeout: 50}],
+          },
+        ],
+      }
+
+      const result = validateScript(script)
+
+      expect(result.errors).toContainEqual({field: 'url', message: 'Invalid URL format', step: '1.then.1'})
+      expect(result.warnings).toContain('Step 1.else.1: Very short wait time (50ms)')
+    })
+
+    it('should detect invalid condition variable paths', () => {
+      const script: AutomationScript = {
+        name: 'Test Script',
+        steps: [{type: 'if', condition: {variable: 'rows[x]'}, then: [{type: 'screenshot'}]}],
+      }
+
+      const result = validateScript(script)
+
+      expect(result.valid).toBe(false)
+      expect(result.errors[0].field).toBe('condition.variable')
+    })
   })
 
   describe('formatValidationResults', () => {
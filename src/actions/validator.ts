@@ -1,9 +1,16 @@
-import {ActionStep, AutomationScript} from '../types/index.js'
+import {basename} from 'path'
+import {ActionStep, AutomationScript, StepNumber} from '../types/index.js'
+import {getActionDefinition, getNestedSteps} from './registry.js'
+import {isValidSelector, isValidUrl} from '../utils/validation.js'
+import {isValidPattern} from '../utils/matcher.js'
+
+// Actions whose url is a pattern (substring, glob or /regex/) rather than a URL to open
+const URL_PATTERN_ACTIONS = ['route', 'unroute']
 
 export interface ValidationError {
   field: string
   message: string
-  step?: number
+  step?: StepNumber
 }
 
 export interface ValidationResult {
@@ -22,8 +29,23 @@ export function validateScript(script: AutomationScript): ValidationResult {
   // Validate script-level fields
   validateScriptFields(script, errors)
 
-  // Validate steps
+  // Validate steps, with setup and teardown steps numbered as `setup.1`
   validateSteps(script.steps, errors, warnings)
+  validateSteps(script.setup || [], errors, warnings, 'setup')
+  validateSteps(script.teardown || [], errors, warnings, 'teardown')
+
+  // Validate function steps, numbered as `functions.login.1`
+  for (const [name, fn] of Object.entries(script.functions || {})) {
+    validateSteps(fn.steps, errors, warnings, `functions.${name}`)
+  }
+
+  // Validate called scripts, numbered as `login.json.1`
+  for (const [includePath, include] of Object.entries(script.includes || {})) {
+    validateSteps(include.steps, errors, warnings, basename(includePath))
+    for (const [name, fn] of Object.entries(include.functions || {})) {
+      validateSteps(fn.steps, errors, warnings, `${basename(includePath)}.functions.${name}`)
+    }
+  }
 
   return {
     valid: errors.length === 0,
@@ -54,8 +76,8 @@ function validateScriptFields(script: AutomationScript, errors: ValidationError[
 /**
  * Validate all steps
  */
-function validateSteps(steps: ActionStep[], errors: ValidationError[], warnings: string[]): void {
-  if (steps.length === 0) {
+function validateSteps(steps: ActionStep[], errors: ValidationError[], warnings: string[], parentPath?: string): void {
+  if (steps.length === 0 && !parentPath) {
     errors.push({
       field: 'steps',
       message: 'Script must have at least one step',
@@ -63,26 +85,34 @@ function validateSteps(steps: ActionStep[], errors: ValidationError[], warnings:
     return
   }
 
+  const stepNumberAt = (index: number): StepNumber => (parentPath ? `${parentPath}.${index + 1}` : index + 1)
+
   // Check for common patterns and issues
-  checkStepPatterns(steps, warnings)
+  checkStepPatterns(steps, warnings, stepNumberAt)
 
   // Validate each step
   steps.forEach((step, index) => {
-    validateStep(step, index + 1, errors, warnings)
+    const stepNumber = stepNumberAt(index)
+    validateStep(step, stepNumber, errors, warnings)
+
+    // Validate nested branches of control-flow steps
+    for (const nested of getNestedSteps(step)) {
+      validateSteps(nested.steps, errors, warnings, nested.path ? `${stepNumber}.${nested.path}` : String(stepNumber))
+    }
   })
 }
 
 /**
  * Check for common step patterns and provide warnings
  */
-function checkStepPatterns(steps: ActionStep[], warnings: string[]): void {
+function checkStepPatterns(steps: ActionStep[], warnings: string[], stepNumberAt: (index: number) => StepNumber): void {
   // Check for navigation without wait
   for (let i = 0; i < steps.length - 1; i++) {
     const current = steps[i]
     const next = steps[i + 1]
 
     if (current.type === 'navigate' && next.type !== 'wait') {
-      warnings.push(`Step ${i + 1}: Consider adding a wait after navigation for better reliability`)
+      warnings.push(`Step ${stepNumberAt(i)}: Consider adding a wait after navigation for better reliability`)
     }
 
     if (
@@ -90,7 +120,7 @@ function checkStepPatterns(steps: ActionStep[], warnings: string[]): void {
       next.type === 'click' &&
       !steps.slice(i + 1, i + 2).some((s) => s.type === 'wait')
     ) {
-      warnings.push(`Step ${i + 1}: Multiple consecutive clicks without wait may cause issues`)
+      warnings.push(`Step ${stepNumberAt(i)}: Multiple consecutive clicks without wait may cause issues`)
     }
   }
 
@@ -103,7 +133,7 @@ function checkStepPatterns(steps: ActionStep[], warnings: string[]): void {
 /**
  * Validate individual step
  */
-function validateStep(step: ActionStep, stepNumber: number, errors: ValidationError[], warnings: string[]): void {
+function validateStep(step: ActionStep, stepNumber: StepNumber, errors: ValidationError[], warnings: string[]): void {
   // Validate selectors
   if (step.selector && !isValidSelector(step.selector)) {
     errors.push({
@@ -113,8 +143,16 @@ function validateStep(step: ActionStep, stepNumber: number, errors: ValidationEr
     })
   }
 
-  // Validate URLs
-  if (step.url && !isValidUrl(step.url)) {
+  // Validate URLs; route steps take URL patterns, and placeholders are only filled in at run time
+  if (URL_PATTERN_ACTIONS.includes(step.type)) {
+    if (step.url !== undefined && !isValidPattern(step.url)) {
+      errors.push({
+        field: 'url',
+        message: 'Invalid URL pattern',
+        step: stepNumber,
+      })
+    }
+  } else if (step.url && !/\$\{.+?\}/.test(step.url) && !isValidUrl(step.url)) {
     errors.push({
       field: 'url',
       message: 'Invalid URL format',
@@ -135,71 +173,11 @@ function validateStep(step: ActionStep, stepNumber: number, errors: ValidationEr
     }
   }
 
-  // Type-specific validations
-  validateStepType(step, stepNumber, errors, warnings)
-}
-
-/**
- * Validate step based on its type
- */
-function validateStepType(step: ActionStep, stepNumber: number, errors: ValidationError[], warnings: string[]): void {
-  switch (step.type) {
-    case 'type':
-      if (typeof step.value === 'string' && step.value.length > 1000) {
-        warnings.push(`Step ${stepNumber}: Very long text input (${step.value.length} chars)`)
-      }
-      break
-
-    case 'wait':
-      if (step.timeout && step.timeout < 100) {
-        warnings.push(`Step ${stepNumber}: Very short wait time (${step.timeout}ms)`)
-      }
-      break
-
-    case 'navigate':
-      if (step.url && step.url.startsWith('file://')) {
-        warnings.push(`Step ${stepNumber}: Local file URLs may not work in all browsers`)
-      }
-      break
-
-    case 'scroll':
-      if (step.value && typeof step.value === 'number' && Math.abs(step.value) > 10000) {
-        warnings.push(`Step ${stepNumber}: Large scroll distance (${step.value}px)`)
-      }
-      break
-  }
-}
-
-/**
- * Check if URL is valid
- */
-function isValidUrl(url: string): boolean {
-  try {
-    new URL(url)
-    return true
-  } catch {
-    return false
-  }
-}
-
-/**
- * Basic CSS selector validation
- */
-function isValidSelector(selector: string): boolean {
-  try {
-    // Try to use querySelector to validate selector
-    // This is a basic check - in a real browser environment, we'd use document.querySelector
-    if (selector.trim().length === 0) return false
-
-    // Basic checks for common invalid patterns
-    if (selector.includes('>>') || selector.includes('<<<')) return false
-    if (selector.startsWith('.') && selector.length === 1) return false
-    if (selector.startsWith('#') && selector.length === 1) return false
-
-    return true
-  } catch {
-    return false
-  }
+  // Action-specific checks
+  getActionDefinition(step.type)?.lint?.(step, {
+    error: (field, message) => errors.push({field, message, step: stepNumber}),
+    warn: (message) => warnings.push(`Step ${stepNumber}: ${message}`),
+  })
 }
 
 /**
@@ -13,7 +13,16 @@ import {
   waitForElement,
   elementExists,
   getElementText,
+  extractData,
   executeActionStep,
+  registerPage,
+  describePage,
+  openNewTab,
+  switchToTab,
+  closeTab,
+  clickAndCapturePopup,
+  isTabAction,
+  executeTabAction,
   BrowserController,
 } from './controller.js'
 import {ActionStep} from '../types/index.js'
@@ -23,6 +32,7 @@ import {defineConfig} from '../config/index.js'
 vi.mock('playwright', () => ({
   chromium: {
     launch: vi.fn(),
+    launchPersistentContext: vi.fn(),
   },
   firefox: {
     launch: vi.fn(),
@@ -50,11 +60,20 @@ describe('Browser Controller', () => {
       selectOption: vi.fn(),
       waitForSelector: vi.fn(),
       setDefaultTimeout: vi.fn(),
+      on: vi.fn(),
+      bringToFront: vi.fn(),
+      url: vi.fn().mockReturnValue('https://example.com'),
+      title: vi.fn().mockResolvedValue('Example'),
     } as unknown as Page
 
     mockContext = {
       close: vi.fn(),
       newPage: vi.fn().mockResolvedValue(mockPage),
+      on: vi.fn(),
+      waitForEvent: vi.fn(),
+      pages: vi.fn().mockReturnValue([]),
+      browser: vi.fn().mockReturnValue(null),
+      route: vi.fn(),
     } as unknown as BrowserContext
 
     mockBrowser = {
@@ -66,6 +85,8 @@ describe('Browser Controller', () => {
       browser: mockBrowser,
       context: mockContext,
       page: mockPage,
+      pages: [mockPage],
+      pageAliases: {},
     }
   })
 
@@ -148,6 +169,15 @@ describe('Browser Controller', () => {
        })
      })
 
+    it('should open a context in a running browser without launching one', async () => {
+      const {chromium} = await import('playwright')
+
+      const result = await initializeBrowser(defineConfig(), undefined, {browser: mockBrowser})
+
+      expect(chromium.launch).not.toHaveBeenCalled()
+      expect(result.success && result.data.sharedBrowser).toBe(true)
+    })
+
      it('should fail with unsupported browser type', async () => {
        const config = defineConfig({
          browser: {
@@ -188,6 +218,105 @@ describe('Browser Controller', () => {
         expect(result.error).toContain('Failed to initialize browser')
       }
     })
+
+    it('should pass channel, arguments and certificate settings to the browser', async () => {
+      const {chromium} = await import('playwright')
+      vi.mocked(chromium.launch).mockResolvedValue(mockBrowser)
+      const config = defineConfig()
+      config.browser = {...config.browser, channel: 'msedge', args: ['--lang=ko-KR'], ignoreHTTPSErrors: true}
+
+      await initializeBrowser(config)
+
+      expect(chromium.launch).toHaveBeenCalledWith(expect.objectContaining({channel: 'msedge', args: ['--lang=ko-KR']}))
+      expect(mockBrowser.newContext).toHaveBeenCalledWith(expect.objectContaining({ignoreHTTPSErrors: true}))
+    })
+
+    it('should open the context with the emulation settings', async () => {
+      const {chromium} = await import('playwright')
+      vi.mocked(chromium.launch).mockResolvedValue(mockBrowser)
+      const config = defineConfig()
+      config.browser = {...config.browser, locale: 'ko-KR', timezoneId: 'Asia/Seoul', colorScheme: 'dark'}
+
+      await initializeBrowser(config)
+
+      expect(mockBrowser.newContext).toHaveBeenCalledWith(
+        expect.objectContaining({
+          viewport: config.browser.viewport,
+          locale: 'ko-KR',
+          timezoneId: 'Asia/Seoul',
+          colorScheme: 'dark',
+        }),
+      )
+    })
+
+    it('should set the proxy at launch and the network settings on the context', async () => {
+      const {chromium} = await import('playwright')
+      vi.mocked(chromium.launch).mockResolvedValue(mockBrowser)
+      const config = defineConfig()
+      const proxy = {server: 'http://proxy.corp:3128', username: 'kim', password: 's3cret'}
+      config.browser = {
+        ...config.browser,
+        proxy,
+        httpCredentials: {username: 'kim', password: 's3cret'},
+        extraHTTPHeaders: {'X-Team': 'qa'},
+      }
+
+      await initializeBrowser(config)
+
+      expect(chromium.launch).toHaveBeenCalledWith(expect.objectContaining({proxy}))
+      expect(mockBrowser.newContext).toHaveBeenCalledWith(
+        expect.objectContaining({
+          proxy,
+          httpCredentials: {username: 'kim', password: 's3cret'},
+          extraHTTPHeaders: {'X-Team': 'qa'},
+        }),
+      )
+    })
+
+    it('should block the requests matching the config rules', async () => {
+      const {chromium} = await import('playwright')
+      vi.mocked(chromium.launch).mockResolvedValue(mockBrowser)
+      const config = defineConfig()
+
+      await initializeBrowser(config)
+      expect(mockContext.route).not.toHaveBeenCalled()
+
+      config.browser = {...config.browser, blockRequests: ['google-analytics.com', {resourceTypes: ['font']}]}
+      await initializeBrowser(config)
+
+      expect(mockContext.route).toHaveBeenCalledWith('**/*', expect.any(Function))
+    })
+
+    it('should open a userDataDir profile in a persistent context', async () => {
+      const {chromium} = await import('playwright')
+      vi.mocked(mockContext.pages).mockReturnValue([mockPage])
+      vi.mocked(chromium.launchPersistentContext).mockResolvedValue(mockContext)
+      const config = defineConfig()
+      config.browser = {...config.browser, userDataDir: '/profiles/hr', downloadsPath: '/downloads'}
+
+      const result = await initializeBrowser(config)
+
+      expect(chromium.launch).not.toHaveBeenCalled()
+      expect(chromium.launchPersistentContext).toHaveBeenCalledWith(
+        '/profiles/hr',
+        expect.objectContaining({headless: true, downloadsPath: '/downloads', viewport: config.browser.viewport}),
+      )
+      expect(result.success && result.data).toMatchObject({page: mockPage, persistent: true})
+      expect(await initializeBrowser(config, undefined, {storageState: {cookies: [], origins: []}})).toEqual({
+        success: false,
+        error: 'storageState cannot be loaded into a browser.userDataDir profile, which keeps its own session',
+      })
+    })
+
+    it('should reject a channel of another browser type', async () => {
+      const config = defineConfig()
+      config.browser = {...config.browser, type: 'firefox', channel: 'chrome'}
+
+      expect(await initializeBrowser(config)).toEqual({
+        success: false,
+        error: "browser.channel 'chrome' requires browser type chromium, got firefox",
+      })
+    })
   })
 
   describe('closeBrowser', () => {
@@ -200,6 +329,23 @@ describe('Browser Controller', () => {
       expect(mockBrowser.close).toHaveBeenCalled()
     })
 
+    it('should leave a shared browser running', async () => {
+      const result = await closeBrowser({...mockController, sharedBrowser: true})
+
+      expect(result.success).toBe(true)
+      expect(mockContext.close).toHaveBeenCalled()
+      expect(mockBrowser.close).not.toHaveBeenCalled()
+    })
+
+    it('should close only the context of a persistent profile', async () => {
+      const result = await closeBrowser({...mockController, persistent: true})
+
+      expect(result.success).toBe(true)
+      expect(mockContext.close).toHaveBeenCalled()
+      expect(mockPage.close).not.toHaveBeenCalled()
+      expect(mockBrowser.close).not.toHaveBeenCalled()
+    })
+
     it('should handle null browser components', async () => {
       const emptyController: BrowserController = {
         browser: null,
@@ -561,6 +707,171 @@ describe('Browser Controller', () => {
     })
   })
 
+  describe('extractData', () => {
+    let mockElements: any[]
+    let mockLocator: any
+
+    beforeEach(() => {
+      mockElements = [
+        {textContent: vi.fn().mockResolvedValue(' First '), getAttribute: vi.fn().mockResolvedValue('/one')},
+        {textContent: vi.fn().mockResolvedValue('Second'), getAttribute: vi.fn().mockResolvedValue(null)},
+      ]
+      mockLocator = {
+        all: vi.fn().mockResolvedValue(mockElements),
+        first: vi.fn().mockReturnValue({inputValue: vi.fn().mockResolvedValue('typed')}),
+        count: vi.fn().mockResolvedValue(2),
+      }
+      vi.mocked(mockPage.locator).mockReturnValue(mockLocator)
+    })
+
+    it('should extract trimmed text from all matches', async () => {
+      const result = await extractData(mockPage, '.quote')
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data).toEqual(['First', 'Second'])
+      }
+    })
+
+    it('should extract attributes with empty string fallback', async () => {
+      const result = await extractData(mockPage, 'a', 'href')
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data).toEqual(['/one', ''])
+      }
+    })
+
+    it('should extract a single input value', async () => {
+      const result = await extractData(mockPage, 'input', 'value', false)
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data).toBe('typed')
+      }
+    })
+
+    it('should fail for a missing single element', async () => {
+      mockLocator.count.mockResolvedValue(0)
+
+      const result = await extractData(mockPage, '#missing', 'text', false)
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBe('Element not found: #missing')
+      }
+    })
+  })
+
+  describe('tabs', () => {
+    const config = defineConfig({
+      actions: {
+        waitBetweenActions: 0,
+        retryAttempts: 3,
+        screenshotOnError: false,
+      },
+    })
+
+    function createTab(url: string, title = ''): Page {
+      return {
+        close: vi.fn(),
+        on: vi.fn(),
+        bringToFront: vi.fn(),
+        setDefaultTimeout: vi.fn(),
+        goto: vi.fn(),
+        waitForLoadState: vi.fn(),
+        url: vi.fn().mockReturnValue(url),
+        title: vi.fn().mockResolvedValue(title),
+      } as unknown as Page
+    }
+
+    it('should open a new tab and make it active', async () => {
+      const newPage = createTab('about:blank')
+      vi.mocked(mockContext.newPage).mockResolvedValue(newPage)
+
+      const result = await openNewTab(mockController, config, 'https://example.com/other', 'other')
+
+      expect(result.success).toBe(true)
+      expect(mockController.page).toBe(newPage)
+      expect(mockController.pages).toEqual([mockPage, newPage])
+      expect(mockController.pageAliases?.other).toBe(newPage)
+      expect(newPage.goto).toHaveBeenCalledWith('https://example.com/other', expect.any(Object))
+    })
+
+    it('should switch tabs by index, alias and URL pattern', async () => {
+      const second = createTab('https://example.com/approval', 'Approve')
+      registerPage(mockController, second, 'approval')
+
+      expect((await switchToTab(mockController, {index: 1})).success).toBe(true)
+      expect(mockController.page).toBe(second)
+
+      expect((await switchToTab(mockController, {index: 0})).success).toBe(true)
+      expect(mockController.page).toBe(mockPage)
+
+      expect((await switchToTab(mockController, {urlPattern: '*/approval'})).success).toBe(true)
+      expect(mockController.page).toBe(second)
+
+      expect((await switchToTab(mockController, {alias: 'approval'})).success).toBe(true)
+      expect(describePage(mockController)).toBe('tab 1 (approval)')
+    })
+
+    it('should fail when no tab matches', async () => {
+      const result = await switchToTab(mockController, {titlePattern: 'Missing'})
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toContain('Tab not found: title Missing')
+      }
+    })
+
+    it('should close the active tab and fall back to the previous one', async () => {
+      const second = createTab('https://example.com/popup')
+      registerPage(mockController, second)
+      mockController.page = second
+
+      const result = await closeTab(mockController, {})
+
+      expect(result.success).toBe(true)
+      expect(second.close).toHaveBeenCalled()
+      expect(mockController.page).toBe(mockPage)
+      expect(mockController.pages).toEqual([mockPage])
+    })
+
+    it('should refuse to close the last tab', async () => {
+      const result = await closeTab(mockController, {})
+
+      expect(result.success).toBe(false)
+      expect(mockPage.close).not.toHaveBeenCalled()
+    })
+
+    it('should capture popup opened by click', async () => {
+      const popup = createTab('https://example.com/login')
+      vi.mocked(mockContext.waitForEvent).mockResolvedValue(popup as any)
+      vi.mocked(mockPage.locator).mockReturnValue({count: vi.fn().mockResolvedValue(1)} as any)
+
+      const result = await clickAndCapturePopup(mockController, '#login', 'login')
+
+      expect(result.success).toBe(true)
+      expect(mockPage.click).toHaveBeenCalledWith('#login', expect.any(Object))
+      expect(mockController.page).toBe(popup)
+      expect(describePage(mockController)).toBe('tab 1 (login)')
+    })
+
+    it('should route tab steps through executeTabAction', async () => {
+      expect(isTabAction({type: 'newTab'})).toBe(true)
+      expect(isTabAction({type: 'click', selector: '#a', popup: true})).toBe(true)
+      expect(isTabAction({type: 'click', selector: '#a'})).toBe(false)
+
+      const newPage = createTab('about:blank')
+      vi.mocked(mockContext.newPage).mockResolvedValue(newPage)
+
+      const result = await executeTabAction(mockController, {type: 'newTab'}, config)
+
+      expect(result.success).toBe(true)
+      expect(mockController.page).toBe(newPage)
+    })
+  })
+
   describe('executeActionStep', () => {
     const config = defineConfig({
       actions: {
@@ -665,6 +976,45 @@ describe('Browser Controller', () => {
       expect(mockPage.selectOption).toHaveBeenCalled()
     })
 
+    it('should store extracted data in variables', async () => {
+      const mockLocator = {
+        all: vi.fn().mockResolvedValue([{textContent: vi.fn().mockResolvedValue('Title')}]),
+      }
+      vi.mocked(mockPage.locator).mockReturnValue(mockLocator as any)
+      const variables: Record<string, unknown> = {}
+
+      const step: ActionStep = {
+        type: 'extract',
+        selector: 'h1',
+        variable: 'titles',
+      }
+
+      const result = await executeActionStep(mockPage, step, config, undefined, 1, variables)
+
+      expect(result.success).toBe(true)
+      expect(variables.titles).toEqual(['Title'])
+    })
+
+    it('should append extracted data to an existing list', async () => {
+      const mockLocator = {
+        all: vi.fn().mockResolvedValue([{textContent: vi.fn().mockResolvedValue('Page 2')}]),
+      }
+      vi.mocked(mockPage.locator).mockReturnValue(mockLocator as any)
+      const variables: Record<string, unknown> = {titles: ['Page 1']}
+
+      const step: ActionStep = {
+        type: 'extract',
+        selector: 'h1',
+        variable: 'titles',
+        append: true,
+      }
+
+      const result = await executeActionStep(mockPage, step, config, undefined, 1, variables)
+
+      expect(result.success).toBe(true)
+      expect(variables.titles).toEqual(['Page 1', 'Page 2'])
+    })
+
     it('should fail with unknown action type', async () => {
       const step: ActionStep = {
         type: 'unknown' as any,
@@ -679,10 +1029,10 @@ describe('Browser Controller', () => {
     })
 
     it('should fail when required fields are missing', async () => {
-      const step: ActionStep = {
+      const step = {
         type: 'navigate',
         // url is missing
-      }
+      } as ActionStep
 
       const result = await executeActionStep(mockPage, step, config)
 
@@ -1,7 +1,21 @@
-import {Browser, BrowserContext, Page, chromium, firefox, webkit} from 'playwright'
-import {ActionStep, Result, success, failure} from '../types/index.js'
-import {AutoConfig} from '../config/index.js'
+import {
+  Browser,
+  BrowserContext,
+  BrowserContextOptions,
+  BrowserType,
+  LaunchOptions,
+  Page,
+  chromium,
+  firefox,
+  webkit,
+} from 'playwright'
+import {ActionStep, Result, StepNumber, VariableStore, success, failure} from '../types/index.js'
+import {AutoConfig, BrowserConfig, validateBrowserConfig} from '../config/index.js'
 import {Logger} from '../utils/logger.js'
+import {getEmulationOptions} from './emulation.js'
+import {blockRequests, getNetworkOptions, maskSecrets} from './network.js'
+import {matchesPattern} from '../utils/matcher.js'
+import {describeUnknownAction, getActionDefinition, isTabStep} from '../actions/registry.js'
 import {join} from 'path'
 import {existsSync} from 'fs'
 import {mkdir} from 'fs/promises'
@@ -9,54 +23,147 @@ import {mkdir} from 'fs/promises'
 export interface BrowserController {
   browser: Browser | null
   context: BrowserContext | null
-  page: Page | null
+  page: Page | null // active page that steps run on
   logger?: Logger
+  pages?: Page[] // open pages of the context in opening order
+  pageAliases?: Record<string, Page>
+  sharedBrowser?: boolean // browser outlives this run, only the context is closed
+  persistent?: boolean // context of a userDataDir profile, closing it closes the browser
+}
+
+/**
+ * Per-run browser settings on top of the configuration
+ */
+export interface BrowserSessionOptions {
+  storageState?: BrowserContextOptions['storageState'] // cookies and localStorage to start with
+  browser?: Browser // running browser to open the context in, left running by closeBrowser
+}
+
+const BROWSER_TYPES: Record<BrowserConfig['type'], BrowserType> = {chromium, firefox, webkit}
+
+/**
+ * Options of the browser process; the proxy applies to every context of the browser
+ */
+function getLaunchOptions(browserConfig: BrowserConfig): Result<LaunchOptions> {
+  const networkResult = getNetworkOptions(browserConfig)
+  if (!networkResult.success) {
+    return networkResult
+  }
+  return success({
+    headless: browserConfig.headless,
+    slowMo: browserConfig.slowMo,
+    channel: browserConfig.channel,
+    executablePath: browserConfig.executablePath,
+    args: browserConfig.args,
+    downloadsPath: browserConfig.downloadsPath,
+    proxy: networkResult.data.proxy,
+  })
+}
+
+/**
+ * Options of the browser context; the viewport of a device replaces the configured one. The proxy is set
+ * here too, so a context in a running browser uses the proxy of its own config.
+ */
+function getContextOptions(browserConfig: BrowserConfig): Result<BrowserContextOptions> {
+  const emulationResult = getEmulationOptions(browserConfig)
+  if (!emulationResult.success) {
+    return emulationResult
+  }
+  const networkResult = getNetworkOptions(browserConfig)
+  if (!networkResult.success) {
+    return networkResult
+  }
+  return success({
+    viewport: browserConfig.viewport,
+    ignoreHTTPSErrors: browserConfig.ignoreHTTPSErrors,
+    ...emulationResult.data,
+    ...networkResult.data,
+  })
+}
+
+/**
+ * Check the browser settings, logging the error
+ */
+function checkBrowserConfig(browserConfig: BrowserConfig, logger?: Logger): Result<void> {
+  const result = validateBrowserConfig(browserConfig)
+  if (!result.success) {
+    logger?.error(result.error, {supportedTypes: Object.keys(BROWSER_TYPES)})
+  }
+  return result
+}
+
+/**
+ * Launch the configured browser
+ */
+export async function launchBrowser(config: AutoConfig, logger?: Logger): Promise<Result<Browser>> {
+  const {browser: browserConfig} = config
+  const validationResult = checkBrowserConfig(browserConfig, logger)
+  if (!validationResult.success) {
+    return validationResult
+  }
+  if (browserConfig.userDataDir) {
+    return failure('A browser.userDataDir profile is opened with its own browser and cannot be shared between runs')
+  }
+  const launchOptions = getLaunchOptions(browserConfig)
+  if (!launchOptions.success) {
+    logger?.error(launchOptions.error)
+    return launchOptions
+  }
+  try {
+    return success(await BROWSER_TYPES[browserConfig.type].launch(launchOptions.data))
+  } catch (error) {
+    const errorMsg = `Failed to initialize browser: ${error}`
+    logger?.error(errorMsg, {error: String(error), config: maskSecrets(browserConfig)})
+    return failure(errorMsg)
+  }
 }
 
 /**
  * Initialize browser with configuration
  */
-export async function initializeBrowser(config: AutoConfig, logger?: Logger): Promise<Result<BrowserController>> {
+export async function initializeBrowser(
+  config: AutoConfig,
+  logger?: Logger,
+  options: BrowserSessionOptions = {},
+): Promise<Result<BrowserController>> {
   try {
     const {browser: browserConfig} = config
 
     logger?.browser('initialization', 'Starting browser initialization', {type: browserConfig.type, headless: browserConfig.headless})
 
-    // Select browser type
-    let browser: Browser
-    switch (browserConfig.type) {
-      case 'chromium':
-        browser = await chromium.launch({
-          headless: browserConfig.headless,
-          slowMo: browserConfig.slowMo,
-        })
-        break
-      case 'firefox':
-        browser = await firefox.launch({
-          headless: browserConfig.headless,
-          slowMo: browserConfig.slowMo,
-        })
-        break
-      case 'webkit':
-        browser = await webkit.launch({
-          headless: browserConfig.headless,
-          slowMo: browserConfig.slowMo,
-        })
-        break
-      default:
-        const errorMsg = `Unsupported browser type: ${browserConfig.type}`
-        logger?.error(errorMsg, {supportedTypes: ['chromium', 'firefox', 'webkit']})
-        return failure(errorMsg)
-    }
-
-    logger?.browser('launch', `Browser ${browserConfig.type} launched successfully`)
+    if (browserConfig.userDataDir) {
+      return await openPersistentContext(config, logger, options)
+    }
+
+    const contextOptions = getContextOptions(browserConfig)
+    if (!contextOptions.success) {
+      logger?.error(contextOptions.error)
+      return contextOptions
+    }
+
+    let browser = options.browser
+    if (browser) {
+      logger?.browser('launch', `Reusing running ${browserConfig.type} browser`)
+    } else {
+      const launchResult = await launchBrowser(config, logger)
+      if (!launchResult.success) {
+        return launchResult
+      }
+      browser = launchResult.data
+      logger?.browser('launch', `Browser ${browserConfig.type} launched successfully`)
+    }
 
     // Create browser context
-    const context = await browser.newContext({
-      viewport: browserConfig.viewport,
+    const context = await browser.newContext({...contextOptions.data, storageState: options.storageState})
+
+    logger?.browser('context', 'Browser context created', {
+      viewport: contextOptions.data.viewport,
+      device: browserConfig.device,
+      locale: browserConfig.locale,
+      timezoneId: browserConfig.timezoneId,
+      storageState: options.storageState !== undefined,
     })
-
-    logger?.browser('context', 'Browser context created', {viewport: browserConfig.viewport})
+    await blockRequests(context, browserConfig.blockRequests, logger)
 
     // Create new page
     const page = await context.newPage()
@@ -66,31 +173,101 @@ export async function initializeBrowser(config: AutoConfig, logger?: Logger): Pr
 
     logger?.browser('page', 'New page created', {timeout: browserConfig.timeout})
 
-    return success({
+    const controller: BrowserController = {
       browser,
       context,
       page,
       logger,
-    })
+      pages: [],
+      pageAliases: {},
+      sharedBrowser: options.browser !== undefined,
+    }
+
+    // Track every page of the context, including popups opened by the site
+    registerPage(controller, page)
+    context.on('page', (newPage) => registerPage(controller, newPage))
+
+    return success(controller)
       } catch (error) {
     const errorMsg = `Failed to initialize browser: ${error}`
-    logger?.error(errorMsg, {error: String(error), config: config.browser})
+    logger?.error(errorMsg, {error: String(error), config: maskSecrets(config.browser)})
     return failure(errorMsg)
   }
 }
 
+/**
+ * Open the userDataDir profile, keeping its cookies, localStorage and certificates between runs
+ */
+async function openPersistentContext(
+  config: AutoConfig,
+  logger?: Logger,
+  options: BrowserSessionOptions = {},
+): Promise<Result<BrowserController>> {
+  const {browser: browserConfig} = config
+  const validationResult = checkBrowserConfig(browserConfig, logger)
+  if (!validationResult.success) {
+    return validationResult
+  }
+  if (options.browser) {
+    return failure('A browser.userDataDir profile is opened with its own browser and cannot use a running one')
+  }
+  if (options.storageState) {
+    return failure('storageState cannot be loaded into a browser.userDataDir profile, which keeps its own session')
+  }
+  // Context options fail on every setting the launch options could fail on
+  const contextOptions = getContextOptions(browserConfig)
+  if (!contextOptions.success) {
+    logger?.error(contextOptions.error)
+    return contextOptions
+  }
+  const launchOptions = getLaunchOptions(browserConfig)
+  if (!launchOptions.success) {
+    return launchOptions
+  }
+
+  const context = await BROWSER_TYPES[browserConfig.type].launchPersistentContext(browserConfig.userDataDir!, {
+    ...launchOptions.data,
+    ...contextOptions.data,
+  })
+  logger?.browser('launch', `Browser ${browserConfig.type} launched with profile ${browserConfig.userDataDir}`)
+  await blockRequests(context, browserConfig.blockRequests, logger)
+
+  // The profile opens with a page of its own, next to the tabs it restores
+  const page = context.pages()[0] || (await context.newPage())
+  page.setDefaultTimeout(browserConfig.timeout)
+
+  const controller: BrowserController = {
+    browser: context.browser(),
+    context,
+    page,
+    logger,
+    pages: [],
+    pageAliases: {},
+    persistent: true,
+  }
+  context.pages().forEach((openPage) => registerPage(controller, openPage))
+  context.on('page', (newPage) => registerPage(controller, newPage))
+
+  return success(controller)
+}
+
 /**
  * Close browser and cleanup resources
  */
 export async function closeBrowser(controller: BrowserController): Promise<Result<void>> {
   try {
+    // Closing a persistent context closes its browser and writes the profile to disk
+    if (controller.persistent) {
+      await controller.context?.close()
+      return success(undefined)
+    }
     if (controller.page) {
       await controller.page.close()
     }
     if (controller.context) {
       await controller.context.close()
     }
-    if (controller.browser) {
+    if (controller.browser && !controller.sharedBrowser) {
       await controller.browser.close()
     }
     return success(undefined)
@@ -99,6 +276,252 @@ export async function closeBrowser(controller: BrowserController): Promise<Resul
   }
 }
 
+/**
+ * Add page to the controller's page collection
+ */
+export function registerPage(controller: BrowserController, page: Page, alias?: string): void {
+  controller.pages = controller.pages || []
+  controller.pageAliases = controller.pageAliases || {}
+
+  if (!controller.pages.includes(page)) {
+    controller.pages.push(page)
+    page.on('close', () => unregisterPage(controller, page))
+  }
+
+  if (alias) {
+    controller.pageAliases[alias] = page
+  }
+}
+
+/**
+ * Remove closed page and fall back to the most recent remaining page
+ */
+function unregisterPage(controller: BrowserController, page: Page): void {
+  controller.pages = (controller.pages || []).filter((p) => p !== page)
+
+  for (const [alias, aliasPage] of Object.entries(controller.pageAliases || {})) {
+    if (aliasPage === page) {
+      delete controller.pageAliases![alias]
+    }
+  }
+
+  if (controller.page === page) {
+    controller.page = controller.pages[controller.pages.length - 1] || null
+  }
+}
+
+/**
+ * Describe page for logs, e.g. `tab 2 (approval)`
+ */
+export function describePage(controller: BrowserController, page: Page | null = controller.page): string {
+  const pages = controller.pages || []
+  const index = page ? pages.indexOf(page) : -1
+  const alias = Object.entries(controller.pageAliases || {}).find(([, aliasPage]) => aliasPage === page)?.[0]
+  const tab = `tab ${index >= 0 ? index : 0}`
+  return alias ? `${tab} (${alias})` : tab
+}
+
+/**
+ * Find page by index, alias, URL pattern or title pattern
+ */
+export async function findPage(
+  controller: BrowserController,
+  target: Pick<ActionStep, 'index' | 'alias' | 'urlPattern' | 'titlePattern'>,
+): Promise<Result<Page>> {
+  const pages = controller.pages || []
+
+  if (target.index !== undefined) {
+    const page = pages[target.index]
+    return page ? success(page) : failure(`Tab not found: index ${target.index} (${pages.length} open)`)
+  }
+
+  if (target.alias) {
+    const page = controller.pageAliases?.[target.alias]
+    return page ? success(page) : failure(`Tab not found: alias '${target.alias}'`)
+  }
+
+  for (const page of pages) {
+    if (target.urlPattern && !matchesPattern(page.url(), target.urlPattern)) {
+      continue
+    }
+    if (target.titlePattern && !matchesPattern(await page.title(), target.titlePattern)) {
+      continue
+    }
+    if (target.urlPattern || target.titlePattern) {
+      return success(page)
+    }
+  }
+
+  const description = target.urlPattern ? `URL ${target.urlPattern}` : `title ${target.titlePattern}`
+  return failure(`Tab not found: ${description}`)
+}
+
+/**
+ * Open a new tab, optionally navigate it, and make it active
+ */
+export async function openNewTab(
+  controller: BrowserController,
+  config: AutoConfig,
+  url?: string,
+  alias?: string,
+  timeout?: number,
+  logger?: Logger,
+): Promise<Result<void>> {
+  try {
+    if (!controller.context) {
+      return failure('Browser context is not available')
+    }
+
+    const page = await controller.context.newPage()
+    page.setDefaultTimeout(config.browser.timeout)
+    registerPage(controller, page, alias)
+    controller.page = page
+    await page.bringToFront()
+
+    logger?.browser('tab', `Opened ${describePage(controller)}`, {url, alias})
+
+    if (url) {
+      return navigateToUrl(page, url, timeout, logger)
+    }
+    return success(undefined)
+  } catch (error) {
+    return failure(`Failed to open new tab: ${error}`)
+  }
+}
+
+/**
+ * Make another tab active
+ */
+export async function switchToTab(
+  controller: BrowserController,
+  target: Pick<ActionStep, 'index' | 'alias' | 'urlPattern' | 'titlePattern'>,
+  logger?: Logger,
+): Promise<Result<void>> {
+  try {
+    const pageResult = await findPage(controller, target)
+    if (!pageResult.success) {
+      return pageResult
+    }
+
+    controller.page = pageResult.data
+    await pageResult.data.bringToFront()
+
+    logger?.browser('tab', `Switched to ${describePage(controller)}`, {url: pageResult.data.url()})
+    return success(undefined)
+  } catch (error) {
+    return failure(`Failed to switch tab: ${error}`)
+  }
+}
+
+/**
+ * Close the given tab, or the active one, and activate the most recent remaining tab
+ */
+export async function closeTab(
+  controller: BrowserController,
+  target: Pick<ActionStep, 'index' | 'alias' | 'urlPattern' | 'titlePattern'>,
+  logger?: Logger,
+): Promise<Result<void>> {
+  try {
+    const hasTarget =
+      target.index !== undefined || target.alias !== undefined || target.urlPattern || target.titlePattern
+    const pageResult = hasTarget ? await findPage(controller, target) : success(controller.page)
+    if (!pageResult.success) {
+      return pageResult
+    }
+
+    const page = pageResult.data
+    if (!page) {
+      return failure('No active tab to close')
+    }
+    if ((controller.pages || []).length <= 1) {
+      return failure('Cannot close the last open tab')
+    }
+
+    const description = describePage(controller, page)
+    await page.close()
+    unregisterPage(controller, page)
+    await controller.page?.bringToFront()
+
+    logger?.browser('tab', `Closed ${description}, active: ${describePage(controller)}`)
+    return success(undefined)
+  } catch (error) {
+    return failure(`Failed to close tab: ${error}`)
+  }
+}
+
+/**
+ * Click element and switch to the popup window it opens
+ */
+export async function clickAndCapturePopup(
+  controller: BrowserController,
+  selector: string,
+  alias?: string,
+  timeout?: number,
+  frameSelector?: string,
+  logger?: Logger,
+): Promise<Result<void>> {
+  try {
+    if (!controller.context || !controller.page) {
+      return failure('Browser page is not available')
+    }
+
+    const popupPromise = controller.context.waitForEvent('page', {timeout: timeout || 30000})
+    const clickResult = await clickElement(controller.page, selector, timeout, frameSelector)
+    if (!clickResult.success) {
+      popupPromise.catch(() => undefined)
+      return clickResult
+    }
+
+    const popup = await popupPromise
+    await popup.waitForLoadState()
+    registerPage(controller, popup, alias)
+    controller.page = popup
+
+    logger?.browser('tab', `Captured popup as ${describePage(controller)}`, {url: popup.url()})
+    return success(undefined)
+  } catch (error) {
+    return failure(`Failed to capture popup from ${selector}: ${error}`)
+  }
+}
+
+/**
+ * Check if step works on the page collection rather than the active page
+ */
+export function isTabAction(step: ActionStep): boolean {
+  return isTabStep(step)
+}
+
+/**
+ * Execute tab action against the page collection
+ */
+export async function executeTabAction(
+  controller: BrowserController,
+  step: ActionStep,
+  config: AutoConfig,
+  logger?: Logger,
+  signal?: AbortSignal,
+): Promise<Result<string | undefined>> {
+  const {actions: actionConfig} = config
+
+  try {
+    // Wait between actions if configured
+    if (actionConfig.waitBetweenActions > 0) {
+      await waitForTime(actionConfig.waitBetweenActions, signal)
+    }
+    if (signal?.aborted) {
+      return failure('Action cancelled')
+    }
+
+    const definition = getActionDefinition(step.type)
+    if (!definition?.execute) {
+      return failure(`Unknown tab action type: ${step.type}`)
+    }
+    return await definition.execute(step, {page: controller.page!, controller, config, logger, signal})
+  } catch (error) {
+    return failure(`Failed to execute tab action: ${error}`)
+  }
+}
+
 /**
  * Navigate to URL
  */
@@ -228,10 +651,18 @@ export async function typeText(
 /**
  * Wait for specified time
  */
-export async function waitForTime(milliseconds: number): Promise<Result<void>> {
+export async function waitForTime(milliseconds: number, signal?: AbortSignal): Promise<Result<void>> {
   try {
-    await new Promise((resolve) => setTimeout(resolve, milliseconds))
-    return success(undefined)
+    await new Promise<void>((resolve) => {
+      const done = () => {
+        clearTimeout(timer)
+        signal?.removeEventListener('abort', done)
+        resolve()
+      }
+      const timer = setTimeout(done, milliseconds)
+      signal?.addEventListener('abort', done, {once: true})
+    })
+    return signal?.aborted ? failure('Wait cancelled') : success(undefined)
   } catch (error) {
     return failure(`Failed to wait: ${error}`)
   }
@@ -245,7 +676,7 @@ export async function takeScreenshot(
   config: AutoConfig,
   path?: string,
   logger?: Logger,
-  step?: number,
+  step?: StepNumber,
 ): Promise<Result<string>> {
   try {
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-')
@@ -382,6 +813,47 @@ export async function getElementText(page: Page, selector: string): Promise<Resu
   }
 }
 
+/**
+ * Extract text, input values or attributes from matching elements
+ */
+export async function extractData(
+  page: Page,
+  selector: string,
+  attribute: string = 'text',
+  multiple: boolean = true,
+  frameSelector?: string,
+): Promise<Result<string | string[]>> {
+  try {
+    const locator = frameSelector ? page.frameLocator(frameSelector).locator(selector) : page.locator(selector)
+    const elements = multiple ? await locator.all() : [locator.first()]
+
+    if (!multiple && (await locator.count()) === 0) {
+      return failure(`Element not found: ${selector}`)
+    }
+
+    const values: string[] = []
+    for (const element of elements) {
+      switch (attribute) {
+        case 'text':
+          values.push(((await element.textContent()) || '').trim())
+          break
+        case 'value':
+          values.push(await element.inputValue())
+          break
+        case 'html':
+          values.push(await element.innerHTML())
+          break
+        default:
+          values.push((await element.getAttribute(attribute)) || '')
+      }
+    }
+
+    return success(multiple ? values : values[0])
+  } catch (error) {
+    return failure(`Failed to extract ${attribute} from ${selector}: ${error}`)
+  }
+}
+
 /**
  * Handle browser alert/dialog
  */
@@ -424,123 +896,28 @@ export async function executeActionStep(
   step: ActionStep,
   config: AutoConfig,
   logger?: Logger,
-  stepNumber?: number,
+  stepNumber?: StepNumber,
+  variables?: VariableStore,
+  signal?: AbortSignal,
 ): Promise<Result<string | undefined>> {
   const {actions: actionConfig} = config
 
   try {
     // Wait between actions if configured
     if (actionConfig.waitBetweenActions > 0) {
-      await waitForTime(actionConfig.waitBetweenActions)
-    }
-
-    switch (step.type) {
-      case 'navigate': {
-        if (!step.url) {
-          return failure('Navigate action requires URL')
-        }
-        const result = await navigateToUrl(page, step.url, step.timeout || config.browser.timeout, logger)
-        if (!result.success) {
-          return result
-        }
-        return success(undefined)
-      }
-
-      case 'click': {
-        if (!step.selector) {
-          return failure('Click action requires selector')
-        }
-        
-        // Check if this is a conditional click (when optional flag is set)
-        if (step.optional) {
-          const result = await clickElementIfExists(page, step.selector, step.timeout || config.browser.timeout, logger)
-          if (!result.success) {
-            return result
-          }
-          return success(undefined)
-        } else {
-          const result = await clickElement(page, step.selector, step.timeout || config.browser.timeout, step.frame)
-          if (!result.success) {
-            return result
-          }
-          return success(undefined)
-        }
-      }
-
-      case 'type': {
-        if (!step.selector || step.value === undefined) {
-          return failure('Type action requires selector and value')
-        }
-        const result = await typeText(page, step.selector, String(step.value), step.timeout || config.browser.timeout, step.frame)
-        if (!result.success) {
-          return result
-        }
-        return success(undefined)
-      }
-
-      case 'wait': {
-        if (step.selector) {
-          // Wait for element to appear
-          const result = await waitForElement(page, step.selector, step.timeout || config.browser.timeout, step.frame)
-          if (!result.success) {
-            return result
-          }
-          return success(undefined)
-        } else if (step.timeout) {
-          // Wait for specified time
-          const result = await waitForTime(step.timeout)
-          if (!result.success) {
-            return result
-          }
-          return success(undefined)
-        } else {
-          return failure('Wait action requires either selector or timeout')
-        }
-      }
-
-      case 'screenshot': {
-        const result = await takeScreenshot(page, config, undefined, logger, stepNumber)
-        if (!result.success) {
-          return result
-        }
-        return success(result.data)
-      }
-
-      case 'scroll': {
-        if (!step.selector) {
-          return failure('Scroll action requires selector')
-        }
-        const distance = typeof step.value === 'number' ? step.value : undefined
-        const result = await scrollElement(page, step.selector, distance)
-        if (!result.success) {
-          return result
-        }
-        return success(undefined)
-      }
-
-      case 'select': {
-        if (!step.selector || step.value === undefined) {
-          return failure('Select action requires selector and value')
-        }
-        const result = await selectOption(page, step.selector, step.value, step.timeout || config.browser.timeout, step.frame)
-        if (!result.success) {
-          return result
-        }
-        return success(undefined)
-      }
-
-      case 'alert': {
-        const action = step.value === 'accept' || step.value === 'dismiss' ? step.value : 'accept'
-        const result = await handleAlert(page, action, step.promptText, logger)
-        if (!result.success) {
-          return result
-        }
-        return success(undefined)
-      }
+      await waitForTime(actionConfig.waitBetweenActions, signal)
+    }
+    if (signal?.aborted) {
+      return failure('Action cancelled')
+    }
 
-      default:
-        return failure(`Unknown action type: ${step.type}`)
+    const definition = getActionDefinition(step.type)
+    if (!definition?.execute) {
+      return failure(
+        `Unknown action type: ${step.type}${step.type.includes('.') ? ` (${describeUnknownAction(step.type)})` : ''}`,
+      )
     }
+    return await definition.execute(step, {page, config, logger, stepNumber, variables, signal})
   } catch (error) {
     return failure(`Failed to execute action step: ${error}`)
   }
@@ -0,0 +1,46 @@
+import {describe, it, expect} from 'vitest'
+import {devices} from 'playwright'
+import {applyScriptEmulation, getEmulationOptions} from './emulation.js'
+import {defineConfig} from '../config/index.js'
+
+describe('Emulation', () => {
+  const config = defineConfig()
+
+  it('should let the browser section of the script override the config', () => {
+    const english = {...config, browser: {...config.browser, locale: 'en-US', timezoneId: 'UTC'}}
+
+    const merged = applyScriptEmulation(english, {name: 'Korean', browser: {locale: 'ko-KR'}, steps: []})
+
+    expect(merged.browser).toMatchObject({type: 'chromium', locale: 'ko-KR', timezoneId: 'UTC'})
+    expect(applyScriptEmulation(config, {name: 'Plain', steps: []})).toBe(config)
+  })
+
+  it('should start from the device descriptor and override it with set settings', () => {
+    const {defaultBrowserType, ...iPhone} = devices['iPhone 13']
+
+    const result = getEmulationOptions({
+      ...config.browser,
+      device: 'iPhone 13',
+      locale: 'ko-KR',
+      timezoneId: 'Asia/Seoul',
+      userAgent: 'auto-run',
+    })
+
+    expect(defaultBrowserType).toBe('webkit')
+    expect(result).toEqual({
+      success: true,
+      data: {...iPhone, locale: 'ko-KR', timezoneId: 'Asia/Seoul', userAgent: 'auto-run'},
+    })
+  })
+
+  it('should reject unknown devices and mobile devices in firefox', () => {
+    expect(getEmulationOptions({...config.browser, device: 'iPhone 99'})).toEqual({
+      success: false,
+      error: "Unknown device 'iPhone 99', use a Playwright device name such as 'iPhone 13' or 'Pixel 7'",
+    })
+    expect(getEmulationOptions({...config.browser, type: 'firefox', device: 'Pixel 7'})).toEqual({
+      success: false,
+      error: "Device 'Pixel 7' is a mobile device, which firefox cannot emulate; use chromium or webkit",
+    })
+  })
+})
@@ -0,0 +1,49 @@
+import {BrowserContextOptions, devices} from 'playwright'
+import {AutomationScript, Result, success, failure} from '../types/index.js'
+import {AutoConfig, BrowserConfig} from '../config/index.js'
+
+/**
+ * Config with the emulation settings of the script's `browser` section, which override those of the config
+ */
+export function applyScriptEmulation(config: AutoConfig, script: AutomationScript): AutoConfig {
+  if (!script.browser) {
+    return config
+  }
+  return {...config, browser: {...config.browser, ...script.browser}}
+}
+
+/**
+ * Context options of the device descriptor and the emulation settings; set settings override the device
+ */
+export function getEmulationOptions(browser: BrowserConfig): Result<BrowserContextOptions> {
+  let deviceOptions: BrowserContextOptions = {}
+  if (browser.device) {
+    const descriptor = devices[browser.device]
+    if (!descriptor) {
+      return failure(
+        `Unknown device '${browser.device}', use a Playwright device name such as 'iPhone 13' or 'Pixel 7'`,
+      )
+    }
+    // Firefox cannot emulate mobile devices
+    if (descriptor.isMobile && browser.type === 'firefox') {
+      return failure(
+        `Device '${browser.device}' is a mobile device, which firefox cannot emulate; use chromium or webkit`,
+      )
+    }
+    // The descriptor's browser type is a suggestion, browser.type decides
+    const {defaultBrowserType, ...options} = descriptor
+    deviceOptions = options
+  }
+
+  const settings: BrowserContextOptions = {
+    locale: browser.locale,
+    timezoneId: browser.timezoneId,
+    geolocation: browser.geolocation,
+    permissions: browser.permissions,
+    colorScheme: browser.colorScheme,
+    userAgent: browser.userAgent,
+    deviceScaleFactor: browser.deviceScaleFactor,
+  }
+  const setSettings = Object.fromEntries(Object.entries(settings).filter(([, value]) => value !== undefined))
+  return success({...deviceOptions, ...setSettings})
+}
@@ -0,0 +1,181 @@
+import {describe, it, expect, beforeAll, afterAll, vi} from 'vitest'
+import {rm, writeFile} from 'fs/promises'
+import type {BrowserContext, Route} from 'playwright'
+import {addRoute, blockRequests, getNetworkOptions, maskSecrets, removeRoutes, resolveSecrets} from './network.js'
+import {defineConfig} from '../config/index.js'
+import type {Logger} from '../utils/logger.js'
+
+describe('Network', () => {
+  const browser = defineConfig().browser
+  const envFile = '.env.network-spec'
+
+  beforeAll(async () => {
+    await writeFile(envFile, 'PROXY_USER=kim\nPROXY_PASSWORD=s3cret\nAPI_TOKEN=abc123\n')
+  })
+
+  afterAll(async () => {
+    await rm(envFile, {force: true})
+  })
+
+  it('should resolve env placeholders of the proxy, credentials and headers', () => {
+    const result = getNetworkOptions({
+      ...browser,
+      proxy: {
+        server: 'http://proxy.corp:3128',
+        bypass: 'localhost',
+        username: '${env.network-spec>PROXY_USER}',
+        password: '${env.network-spec>PROXY_PASSWORD}',
+      },
+      httpCredentials: {username: 'kim', password: '${.env.network-spec>PROXY_PASSWORD}', send: 'always'},
+      extraHTTPHeaders: {Authorization: 'Bearer ${env.network-spec>API_TOKEN}'},
+    })
+
+    expect(result).toEqual({
+      success: true,
+      data: {
+        proxy: {server: 'http://proxy.corp:3128', bypass: 'localhost', username: 'kim', password: 's3cret'},
+        httpCredentials: {username: 'kim', password: 's3cret', send: 'always'},
+        extraHTTPHeaders: {Authorization: 'Bearer abc123'},
+      },
+    })
+    expect(getNetworkOptions(browser)).toEqual({success: true, data: {}})
+  })
+
+  it('should fail on placeholders that are not defined', () => {
+    const result = getNetworkOptions({
+      ...browser,
+      proxy: {server: 'http://proxy.corp:3128', password: '${env.network-spec>MISSING}'},
+    })
+
+    expect(result).toEqual({
+      success: false,
+      error: 'browser.proxy.password uses ${env.network-spec>MISSING}, which is not defined',
+    })
+    expect(resolveSecrets({'X-User': '${vars.user}'}, 'headers', {user: 'kim'})).toEqual({
+      success: true,
+      data: {'X-User': 'kim'},
+    })
+  })
+
+  it('should mask passwords for logs', () => {
+    const masked = maskSecrets({
+      ...browser,
+      proxy: {server: 'http://proxy.corp:3128', username: 'kim', password: 's3cret'},
+      httpCredentials: {username: 'kim', password: 's3cret'},
+    })
+
+    expect(masked.proxy).toEqual({server: 'http://proxy.corp:3128', username: 'kim', password: '***'})
+    expect(masked.httpCredentials).toEqual({username: 'kim', password: '***'})
+  })
+
+  describe('routes', () => {
+    const createContext = () => ({route: vi.fn(), unroute: vi.fn()}) as unknown as BrowserContext
+    const createRoute = (url: string, resourceType = 'fetch') =>
+      ({
+        request: () => ({url: () => url, resourceType: () => resourceType, method: () => 'GET'}),
+        abort: vi.fn().mockResolvedValue(undefined),
+        fallback: vi.fn(),
+        continue: vi.fn().mockResolvedValue(undefined),
+        fulfill: vi.fn(),
+        fetch: vi.fn().mockResolvedValue({
+          text: vi.fn().mockResolvedValue('{"total": 42, "currency": "EUR"}'),
+          headers: () => ({'content-type': 'application/json', 'content-length': '32'}),
+          status: () => 200,
+        }),
+      }) as unknown as Route
+
+    it('should abort the requests matching the config rules', async () => {
+      const context = createContext()
+      await blockRequests(context, ['google-analytics.com', {resourceTypes: ['font']}])
+      const handler = vi.mocked(context.route).mock.calls[0][1] as (route: Route) => Promise<void>
+
+      const analytics = createRoute('https://www.google-analytics.com/collect')
+      const font = createRoute('https://example.com/inter.woff2', 'font')
+      const page = createRoute('https://example.com/', 'document')
+      await Promise.all([handler(analytics), handler(font), handler(page)])
+
+      expect(analytics.abort).toHaveBeenCalledWith('blockedbyclient')
+      expect(font.abort).toHaveBeenCalledWith('blockedbyclient')
+      expect(page.abort).not.toHaveBeenCalled()
+      expect(page.fallback).toHaveBeenCalled()
+    })
+
+    it('should abort, answer or change the requests of a route step', async () => {
+      const context = createContext()
+      await addRoute(context, {type: 'route', resourceTypes: ['image'], abort: 'failed'})
+      await addRoute(context, {type: 'route', url: '**/api/user', json: {name: 'Kim'}, times: 1})
+      await addRoute(context, {type: 'route', url: '**/api/cart', patch: {total: 0}, replace: {EUR: 'USD'}})
+      const [blockImages, mockUser, changeCart] = vi.mocked(context.route).mock.calls
+
+      const [matchUser, user] = mockUser as [(url: URL) => boolean, (route: Route) => Promise<void>, {times: number}]
+      expect(matchUser(new URL('https://example.com/api/user'))).toBe(true)
+      expect(matchUser(new URL('https://example.com/api/users'))).toBe(false)
+      expect(mockUser[2]).toEqual({times: 1})
+      const userRoute = createRoute('https://example.com/api/user')
+      await user(userRoute)
+      expect(userRoute.fulfill).toHaveBeenCalledWith(
+        expect.objectContaining({contentType: 'application/json', body: '{"name":"Kim"}'}),
+      )
+
+      const images = blockImages[1] as (route: Route) => Promise<void>
+      const image = createRoute('https://example.com/logo.png', 'image')
+      const script = createRoute('https://example.com/app.js', 'script')
+      await Promise.all([images(image), images(script)])
+      expect(image.abort).toHaveBeenCalledWith('failed')
+      expect(script.fallback).toHaveBeenCalled()
+
+      const cart = createRoute('https://example.com/api/cart')
+      await (changeCart[1] as (route: Route) => Promise<void>)(cart)
+      expect(cart.fulfill).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 200,
+          headers: {'content-type': 'application/json'},
+          body: '{"total":0,"currency":"USD"}',
+        }),
+      )
+    })
+
+    it('should send the request unchanged when changing the response fails', async () => {
+      const context = createContext()
+      const logger = {debug: vi.fn(), warn: vi.fn()} as unknown as Logger
+      await addRoute(context, {type: 'route', url: '**/api/cart', patch: {total: 0}}, logger)
+      const handler = vi.mocked(context.route).mock.calls[0][1] as (route: Route) => Promise<void>
+
+      const cart = createRoute('https://example.com/api/cart')
+      vi.mocked(cart.fetch).mockRejectedValue(new Error('net::ERR_CONNECTION_RESET'))
+      await handler(cart)
+
+      expect(cart.fulfill).not.toHaveBeenCalled()
+      expect(cart.continue).toHaveBeenCalled()
+      expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('ERR_CONNECTION_RESET'))
+
+      const closed = createRoute('https://example.com/api/cart')
+      vi.mocked(closed.fulfill).mockRejectedValue(new Error('Route is already handled'))
+      vi.mocked(closed.continue).mockRejectedValue(new Error('Route is already handled'))
+      await expect(handler(closed)).resolves.toBeUndefined()
+      expect(closed.abort).toHaveBeenCalledWith('failed')
+    })
+
+    it('should fail on a missing fixture', async () => {
+      const result = await addRoute(createContext(), {type: 'route', url: '**/api/*', fixture: 'missing-fixture.json'})
+
+      expect(result).toEqual({success: false, error: expect.stringContaining('Fixture not found')})
+    })
+
+    it('should remove the routes of route steps by URL pattern', async () => {
+      const context = createContext()
+      await addRoute(context, {type: 'route', url: '**/api/user', abort: 'failed'})
+      await addRoute(context, {type: 'route', url: '**/api/cart', abort: 'failed'})
+      await addRoute(context, {type: 'route', url: '**/api/cart', status: 500, body: 'Error'})
+
+      expect(await removeRoutes(context, '**/api/orders')).toEqual({
+        success: false,
+        error: "No route for '**/api/orders' to remove",
+      })
+      expect(await removeRoutes(context, '**/api/cart')).toEqual({success: true, data: 2})
+      expect(context.unroute).toHaveBeenCalledTimes(2)
+      expect(await removeRoutes(context)).toEqual({success: true, data: 1})
+      expect(await removeRoutes(context)).toEqual({success: true, data: 0})
+    })
+  })
+})
@@ -0,0 +1,250 @@
+import {existsSync} from 'fs'
+import {resolve} from 'path'
+import {BrowserContext, BrowserContextOptions, Request, Route} from 'playwright'
+import {Result, StepOf, VariableStore, success, failure} from '../types/index.js'
+import {BlockRule, BrowserConfig} from '../config/index.js'
+import {Logger} from '../utils/logger.js'
+import {matchesPattern} from '../utils/matcher.js'
+import {replaceVariables} from '../utils/variable-replacer.js'
+
+export type NetworkOptions = Pick<BrowserContextOptions, 'proxy' | 'httpCredentials' | 'extraHTTPHeaders'>
+
+const PLACEHOLDER = /\$\{.+?\}/
+
+// Error codes of route.abort
+export const ABORT_ERRORS = [
+  'aborted',
+  'accessdenied',
+  'addressunreachable',
+  'blockedbyclient',
+  'blockedbyresponse',
+  'connectionaborted',
+  'connectionclosed',
+  'connectionfailed',
+  'connectionrefused',
+  'connectionreset',
+  'internetdisconnected',
+  'namenotresolved',
+  'timedout',
+  'failed',
+]
+
+interface StepRoute {
+  url?: string // pattern of the step, matched by unroute
+  matcher: (url: URL) => boolean
+  handler: (route: Route) => Promise<void>
+}
+
+// Routes added by route steps, per browser context
+const stepRoutes = new WeakMap<BrowserContext, StepRoute[]>()
+
+/**
+ * Replace `${env>NAME}` (and `${vars.name}`) placeholders of a setting; fails when one is not defined,
+ * rather than sending it as is
+ */
+function resolveSecret(value: string, name: string, variables?: VariableStore): Result<string> {
+  const resolved = replaceVariables(value, variables)
+  const unresolved = resolved.match(PLACEHOLDER)
+  if (unresolved) {
+    return failure(`${name} uses ${unresolved[0]}, which is not defined`)
+  }
+  return success(resolved)
+}
+
+/**
+ * Resolve every value of a string record, e.g. HTTP headers
+ */
+export function resolveSecrets(
+  values: Record<string, string>,
+  name: string,
+  variables?: VariableStore,
+): Result<Record<string, string>> {
+  const resolved: Record<string, string> = {}
+  for (const [key, value] of Object.entries(values)) {
+    const result = resolveSecret(value, `${name}.${key}`, variables)
+    if (!result.success) {
+      return result
+    }
+    resolved[key] = result.data
+  }
+  return success(resolved)
+}
+
+/**
+ * Proxy, HTTP credentials and extra headers of the config, with their placeholders resolved
+ */
+export function getNetworkOptions(browser: BrowserConfig): Result<NetworkOptions> {
+  const options: NetworkOptions = {}
+  if (browser.proxy) {
+    const {bypass, ...proxy} = browser.proxy
+    const proxyResult = resolveSecrets(proxy, 'browser.proxy')
+    if (!proxyResult.success) {
+      return proxyResult
+    }
+    options.proxy = {...(proxyResult.data as typeof proxy), bypass}
+  }
+  if (browser.httpCredentials) {
+    const {send, ...credentials} = browser.httpCredentials
+    const credentialsResult = resolveSecrets(credentials, 'browser.httpCredentials')
+    if (!credentialsResult.success) {
+      return credentialsResult
+    }
+    options.httpCredentials = {...(credentialsResult.data as typeof credentials), send}
+  }
+  if (browser.extraHTTPHeaders) {
+    const headersResult = resolveSecrets(browser.extraHTTPHeaders, 'browser.extraHTTPHeaders')
+    if (!headersResult.success) {
+      return headersResult
+    }
+    options.extraHTTPHeaders = headersResult.data
+  }
+  return success(options)
+}
+
+/**
+ * Browser settings safe to log, with passwords masked
+ */
+export function maskSecrets(browser: BrowserConfig): BrowserConfig {
+  const masked = {...browser}
+  if (browser.proxy?.password) {
+    masked.proxy = {...browser.proxy, password: '***'}
+  }
+  if (browser.httpCredentials) {
+    masked.httpCredentials = {...browser.httpCredentials, password: '***'}
+  }
+  return masked
+}
+
+/**
+ * Whether a request matches a URL pattern and/or resource types
+ */
+function matchesRequest(request: Request, rule: BlockRule): boolean {
+  return (
+    (rule.url === undefined || matchesPattern(request.url(), rule.url)) &&
+    (rule.resourceTypes === undefined || rule.resourceTypes.includes(request.resourceType()))
+  )
+}
+
+/**
+ * Abort the requests matching the blocking rules of the config in every tab of the context
+ */
+export async function blockRequests(context: BrowserContext, rules: BrowserConfig['blockRequests'], logger?: Logger) {
+  if (!rules || rules.length === 0) {
+    return
+  }
+  const blockRules = rules.map((rule): BlockRule => (typeof rule === 'string' ? {url: rule} : rule))
+  await context.route('**/*', (route) => {
+    const request = route.request()
+    if (!blockRules.some((rule) => matchesRequest(request, rule))) {
+      return route.fallback()
+    }
+    logger?.debug(`Blocked ${request.resourceType()} ${request.url()}`)
+    return route.abort('blockedbyclient')
+  })
+  logger?.browser('context', `Blocking requests matching ${blockRules.length} rule(s)`)
+}
+
+/**
+ * Handle the requests of every tab of the context matching a route step: abort them, answer them, or change the real
+ * response.
+ * Routes of later steps take precedence over earlier ones and over the blocking rules of the config.
+ */
+export async function addRoute(context: BrowserContext, step: StepOf<'route'>, logger?: Logger): Promise<Result<void>> {
+  if (step.fixture && !existsSync(resolve(step.fixture))) {
+    return failure(`Fixture not found: ${resolve(step.fixture)}`)
+  }
+
+  const respond = async (route: Route) => {
+    const request = route.request()
+    if (step.resourceTypes && !step.resourceTypes.includes(request.resourceType())) {
+      return route.fallback()
+    }
+    logger?.debug(`Routed ${request.method()} ${request.url()}`)
+    if (step.abort) {
+      return route.abort(step.abort)
+    }
+    if (step.json !== undefined) {
+      return route.fulfill({
+        status: step.status,
+        headers: step.headers,
+        contentType: step.contentType ?? 'application/json',
+        body: JSON.stringify(step.json),
+      })
+    }
+    if (step.body !== undefined || step.fixture) {
+      return route.fulfill({
+        status: step.status,
+        headers: step.headers,
+        contentType: step.contentType,
+        body: step.body,
+        path: step.fixture && resolve(step.fixture),
+      })
+    }
+
+    // Change the real response
+    const response = await route.fetch()
+    let body = await response.text()
+    if (step.patch) {
+      try {
+        body = JSON.stringify({...JSON.parse(body), ...step.patch})
+      } catch {
+        logger?.warn(`Response of ${request.url()} is not JSON, patch not applied`)
+      }
+    }
+    for (const [search, replacement] of Object.entries(step.replace || {})) {
+      body = body.split(search).join(replacement)
+    }
+    // The body may have changed length
+    const {'content-length': _contentLength, ...headers} = response.headers()
+    return route.fulfill({
+      response,
+      status: step.status ?? response.status(),
+      headers: {...headers, ...step.headers},
+      contentType: step.contentType,
+      body,
+    })
+  }
+
+  // Playwright does not report errors of route handlers, and the request would hang
+  const handler = async (route: Route) => {
+    try {
+      await respond(route)
+    } catch (error) {
+      logger?.warn(`Route for ${route.request().url()} failed, sending the request unchanged: ${error}`)
+      await route.continue().catch(() => route.abort('failed').catch(() => {}))
+    }
+  }
+
+  const matcher = (url: URL) => step.url === undefined || matchesPattern(url.href, step.url)
+  try {
+    await context.route(matcher, handler, {times: step.times})
+  } catch (error) {
+    return failure(`Failed to add route: ${error}`)
+  }
+  stepRoutes.set(context, [...(stepRoutes.get(context) || []), {url: step.url, matcher, handler}])
+  return success(undefined)
+}
+
+/**
+ * Remove the routes of earlier route steps with the given URL pattern, or all of them; returns how many.
+ * The blocking rules of the config stay.
+ */
+export async function removeRoutes(context: BrowserContext, url?: string): Promise<Result<number>> {
+  const routes = stepRoutes.get(context) || []
+  const removed = routes.filter((route) => url === undefined || route.url === url)
+  if (url !== undefined && removed.length === 0) {
+    return failure(`No route for '${url}' to remove`)
+  }
+  try {
+    for (const route of removed) {
+      await context.unroute(route.matcher, route.handler)
+    }
+  } catch (error) {
+    return failure(`Failed to remove routes: ${error}`)
+  }
+  stepRoutes.set(
+    context,
+    routes.filter((route) => !removed.includes(route)),
+  )
+  return success(removed.length)
+}
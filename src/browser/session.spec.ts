@@ -0,0 +1,57 @@
+import {describe, it, expect, beforeEach, afterEach, vi} from 'vitest'
+import {mkdtemp, rm, writeFile} from 'fs/promises'
+import {existsSync} from 'fs'
+import {tmpdir} from 'os'
+import {join, resolve} from 'path'
+import {applyScriptSession, findSession, resolveSessionPath, saveSession} from './session.js'
+import {defineConfig, AutoConfig} from '../config/index.js'
+
+describe('Session', () => {
+  let dir: string
+  let config: AutoConfig
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'auto-run-session-'))
+    config = defineConfig()
+    config.browser.authDir = join(dir, 'auth')
+  })
+
+  afterEach(async () => {
+    await rm(dir, {recursive: true, force: true})
+  })
+
+  it('should store profiles in the auth directory and take other values as file paths', () => {
+    expect(resolveSessionPath('hr', config)).toBe(join(dir, 'auth', 'hr.json'))
+    expect(resolveSessionPath('state/hr.json', config)).toBe(resolve('state/hr.json'))
+    expect(resolveSessionPath('hr', defineConfig())).toBe(resolve('auth/hr.json'))
+  })
+
+  it('should let the script override the session settings of the config', () => {
+    config.browser.storageState = 'guest'
+
+    const merged = applyScriptSession(config, {name: 'Login', saveStorageState: 'hr', steps: []})
+
+    expect(merged.browser).toMatchObject({storageState: 'guest', saveStorageState: 'hr'})
+    expect(applyScriptSession(config, {name: 'Plain', steps: []})).toBe(config)
+  })
+
+  it('should find saved sessions and explain how to create missing ones', async () => {
+    const missing = findSession('hr', config)
+    await writeFile(join(dir, 'hr.json'), '{}')
+
+    expect(missing).toEqual({
+      success: false,
+      error: `Session 'hr' not found at ${join(dir, 'auth', 'hr.json')}, create it with: auto-run login <script> --profile hr`,
+    })
+    expect(findSession(join(dir, 'hr.json'), config)).toEqual({success: true, data: join(dir, 'hr.json')})
+  })
+
+  it('should create the auth directory when saving', async () => {
+    const storageState = vi.fn().mockImplementation(({path}) => writeFile(path, '{}'))
+
+    const result = await saveSession({storageState} as any, 'hr', config)
+
+    expect(result).toEqual({success: true, data: join(dir, 'auth', 'hr.json')})
+    expect(existsSync(join(dir, 'auth', 'hr.json'))).toBe(true)
+  })
+})
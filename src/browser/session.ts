@@ -0,0 +1,66 @@
+import {existsSync} from 'fs'
+import {mkdir} from 'fs/promises'
+import {dirname, extname, join, resolve} from 'path'
+import type {BrowserContext} from 'playwright'
+import {AutomationScript, Result, success, failure} from '../types/index.js'
+import {AutoConfig} from '../config/index.js'
+
+// Directory of named session profiles unless browser.authDir is set
+export const DEFAULT_AUTH_DIR = './auth'
+
+/**
+ * File of a session: a profile name (`hr`) is stored as `<authDir>/hr.json`, anything with a path
+ * separator or a `.json` extension is a file path
+ */
+export function resolveSessionPath(session: string, config: AutoConfig): string {
+  const isPath = session.includes('/') || session.includes('\\') || extname(session) === '.json'
+  return resolve(isPath ? session : join(config.browser.authDir || DEFAULT_AUTH_DIR, `${session}.json`))
+}
+
+/**
+ * Config with the session settings of the script, which override those of the config
+ */
+export function applyScriptSession(config: AutoConfig, script: AutomationScript): AutoConfig {
+  if (script.storageState === undefined && script.saveStorageState === undefined) {
+    return config
+  }
+  return {
+    ...config,
+    browser: {
+      ...config.browser,
+      storageState: script.storageState ?? config.browser.storageState,
+      saveStorageState: script.saveStorageState ?? config.browser.saveStorageState,
+    },
+  }
+}
+
+/**
+ * Find the session file to start the browser context with
+ */
+export function findSession(session: string, config: AutoConfig): Result<string> {
+  const filePath = resolveSessionPath(session, config)
+  if (!existsSync(filePath)) {
+    return failure(
+      `Session '${session}' not found at ${filePath}, create it with: auto-run login <script> --profile ${session}`,
+    )
+  }
+  return success(filePath)
+}
+
+/**
+ * Save cookies and localStorage of the browser context; returns the file path
+ */
+export async function saveSession(
+  context: BrowserContext,
+  session: string,
+  config: AutoConfig,
+): Promise<Result<string>> {
+  const filePath = resolveSessionPath(session, config)
+  try {
+    await mkdir(dirname(filePath), {recursive: true})
+    await context.storageState({path: filePath})
+    return success(filePath)
+  } catch (error) {
+    return failure(`Failed to save session '${session}': ${error}`)
+  }
+}
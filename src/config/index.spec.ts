@@ -1,5 +1,5 @@
 import {describe, it, expect, beforeEach, afterEach} from 'vitest'
-import {defineConfig} from './index.js'
+import {defineConfig, validateBrowserConfig} from './index.js'
 
 describe('Config Module', () => {
   const originalEnv = process.env
@@ -163,4 +163,48 @@ describe('Config Module', () => {
       expect(config.browser.viewport).toEqual({width: 1920, height: 1080}) // config value
     })
   })
+
+  describe('validateBrowserConfig', () => {
+    const browser = defineConfig().browser
+
+    it('should accept the defaults and launch settings', () => {
+      expect(validateBrowserConfig(browser)).toEqual({success: true, data: undefined})
+      const launchSettings = {channel: 'chrome', args: ['--start-maximized'], userDataDir: './profile'}
+      expect(validateBrowserConfig({...browser, ...launchSettings})).toEqual({success: true, data: undefined})
+    })
+
+    it('should reject settings Playwright cannot launch', () => {
+      expect(validateBrowserConfig({...browser, args: '--start-maximized' as any})).toEqual({
+        success: false,
+        error: 'browser.args must be a list of strings',
+      })
+      expect(validateBrowserConfig({...browser, channel: 'msedge', executablePath: '/usr/bin/chromium'})).toEqual({
+        success: false,
+        error: 'browser.channel and browser.executablePath cannot be combined, choose one browser',
+      })
+      expect(validateBrowserConfig({...browser, executablePath: '/missing/chrome'})).toEqual({
+        success: false,
+        error: 'browser.executablePath not found: /missing/chrome',
+      })
+      expect(validateBrowserConfig({...browser, proxy: {server: ''}})).toEqual({
+        success: false,
+        error: "browser.proxy requires a server, e.g. 'http://proxy.example.com:3128'",
+      })
+      const httpCredentials = {username: 'kim', password: 's3cret', send: 'never' as any}
+      expect(validateBrowserConfig({...browser, httpCredentials})).toEqual({
+        success: false,
+        error: "browser.httpCredentials.send must be 'unauthorized' or 'always'",
+      })
+      expect(
+        validateBrowserConfig({...browser, blockRequests: [{url: 'doubleclick.net', resourceTypes: ['ad']}]}),
+      ).toEqual({
+        success: false,
+        error: expect.stringContaining("browser.blockRequests[0].resourceTypes has unknown type 'ad'"),
+      })
+      expect(validateBrowserConfig({...browser, userDataDir: './profile', storageState: 'hr'})).toEqual({
+        success: false,
+        error: 'browser.storageState cannot be combined with browser.userDataDir, the profile keeps its own session',
+      })
+    })
+  })
 })
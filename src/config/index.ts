@@ -1,4 +1,35 @@
-export interface BrowserConfig {
+import {existsSync} from 'fs'
+import {Result, success, failure} from '../types/index.js'
+import type {AutoHooks} from '../executor/hooks.js'
+import type {PluginSource} from '../plugins/index.js'
+
+/**
+ * How the browser context presents itself to pages; scripts override it with their `browser` section
+ */
+export interface EmulationConfig {
+  device?: string // Playwright device descriptor, e.g. 'iPhone 13'; the settings below override its values
+  locale?: string // e.g. 'ko-KR', sets navigator.language and Accept-Language
+  timezoneId?: string // e.g. 'Asia/Seoul'
+  geolocation?: {latitude: number; longitude: number; accuracy?: number} // read by pages granted 'geolocation'
+  permissions?: string[] // granted to every site, e.g. ['geolocation', 'notifications']
+  colorScheme?: 'light' | 'dark' | 'no-preference'
+  userAgent?: string
+  deviceScaleFactor?: number
+}
+
+// Settings a script may override
+export const EMULATION_FIELDS: readonly string[] = [
+  'device',
+  'locale',
+  'timezoneId',
+  'geolocation',
+  'permissions',
+  'colorScheme',
+  'userAgent',
+  'deviceScaleFactor',
+]
+
+export interface BrowserConfig extends EmulationConfig {
   type: 'chromium' | 'firefox' | 'webkit'
   headless: boolean
   viewport: {
@@ -7,12 +38,63 @@ export interface BrowserConfig {
   }
   slowMo: number
   timeout: number
+  storageState?: string // session to start with: profile name in authDir or storageState file
+  saveStorageState?: string // session to save when the main steps succeeded
+  authDir?: string // directory of named session profiles (default: ./auth)
+  userDataDir?: string // persistent profile directory, kept between runs (launchPersistentContext)
+  channel?: string // installed Chrome or Edge instead of the bundled Chromium: chrome, msedge, chrome-beta, ...
+  executablePath?: string // browser binary to launch instead of the bundled one
+  args?: string[] // extra command line arguments of the browser
+  ignoreHTTPSErrors?: boolean // accept invalid and self-signed certificates
+  downloadsPath?: string // directory the browser saves downloads to
+  proxy?: ProxyConfig
+  httpCredentials?: HttpCredentialsConfig // answers basic and NTLM authentication challenges
+  extraHTTPHeaders?: Record<string, string> // sent with every request
+  blockRequests?: (string | BlockRule)[] // requests aborted in every run, e.g. analytics and ads; strings are URL patterns
+}
+
+export interface BlockRule {
+  url?: string // substring, glob (`*`) or /regex/ of the request URL
+  resourceTypes?: string[] // e.g. ['image', 'font', 'media']; both set: a request must match both
+}
+
+// Request types of Playwright, as used by block rules and route steps
+export const RESOURCE_TYPES = [
+  'document',
+  'stylesheet',
+  'image',
+  'media',
+  'font',
+  'script',
+  'texttrack',
+  'xhr',
+  'fetch',
+  'eventsource',
+  'websocket',
+  'manifest',
+  'other',
+]
+
+// Values may hold `${env>NAME}` placeholders, resolved when the browser starts
+export interface ProxyConfig {
+  server: string // e.g. 'http://proxy.corp:3128' or 'socks5://proxy.corp:1080'
+  bypass?: string // comma-separated hosts reached directly, e.g. '.corp.example.com, localhost'
+  username?: string
+  password?: string
+}
+
+export interface HttpCredentialsConfig {
+  username: string
+  password: string
+  origin?: string // send them to this origin only, e.g. 'https://intranet.example.com'
+  send?: 'unauthorized' | 'always' // 'always' sends basic credentials without waiting for a 401 (default: 'unauthorized')
 }
 
 export interface ActionConfig {
   waitBetweenActions: number
   retryAttempts: number
   screenshotOnError: boolean
+  continueOnError?: boolean // failed steps without onFailure go on with the next step instead of ending the run
 }
 
 export interface LoggingConfig {
@@ -26,6 +108,8 @@ export interface AutoConfig {
   browser: BrowserConfig
   actions: ActionConfig
   logging: LoggingConfig
+  plugins?: PluginSource[] // plugin objects, module paths or npm packages contributing actions
+  hooks?: AutoHooks // lifecycle hooks run around the script and every step
 }
 
 // Default configuration values
@@ -72,6 +156,8 @@ export function defineConfig(config: Partial<AutoConfig> = {}): AutoConfig {
       ...defaultConfig.logging,
       ...config.logging,
     },
+    ...(config.plugins && {plugins: config.plugins}),
+    ...(config.hooks && {hooks: config.hooks}),
   }
 
   // Environment variables override config values
@@ -140,6 +226,13 @@ export function defineConfig(config: Partial<AutoConfig> = {}): AutoConfig {
     }
   }
 
+  if (process.env.CONTINUE_ON_ERROR !== undefined) {
+    envOverrides.actions = {
+      ...(envOverrides.actions || mergedConfig.actions),
+      continueOnError: process.env.CONTINUE_ON_ERROR !== 'false',
+    }
+  }
+
   // Logging configuration overrides
   if (process.env.LOG_LEVEL) {
     envOverrides.logging = {
@@ -175,3 +268,148 @@ export function defineConfig(config: Partial<AutoConfig> = {}): AutoConfig {
     ...envOverrides,
   }
 }
+
+/**
+ * Check the browser settings before launching, so mistakes fail with the setting's name
+ */
+export function validateBrowserConfig(browser: BrowserConfig): Result<void> {
+  if (!['chromium', 'firefox', 'webkit'].includes(browser.type)) {
+    return failure(`Unsupported browser type: ${browser.type}`)
+  }
+  for (const field of ['userDataDir', 'channel', 'executablePath', 'downloadsPath'] as const) {
+    if (browser[field] !== undefined && (typeof browser[field] !== 'string' || browser[field].length === 0)) {
+      return failure(`browser.${field} must be a non-empty string`)
+    }
+  }
+  if (
+    browser.args !== undefined &&
+    (!Array.isArray(browser.args) || browser.args.some((arg) => typeof arg !== 'string'))
+  ) {
+    return failure('browser.args must be a list of strings')
+  }
+  if (browser.channel && browser.type !== 'chromium') {
+    return failure(`browser.channel '${browser.channel}' requires browser type chromium, got ${browser.type}`)
+  }
+  if (browser.channel && browser.executablePath) {
+    return failure('browser.channel and browser.executablePath cannot be combined, choose one browser')
+  }
+  if (browser.executablePath && !existsSync(browser.executablePath)) {
+    return failure(`browser.executablePath not found: ${browser.executablePath}`)
+  }
+  if (browser.userDataDir && browser.storageState) {
+    return failure(
+      'browser.storageState cannot be combined with browser.userDataDir, the profile keeps its own session',
+    )
+  }
+  const networkResult = validateNetwork(browser)
+  if (!networkResult.success) {
+    return networkResult
+  }
+  return validateEmulation(browser, 'browser')
+}
+
+/**
+ * Check the proxy, HTTP credentials and extra headers
+ */
+function validateNetwork(browser: BrowserConfig): Result<void> {
+  const isString = (value: unknown) => typeof value === 'string' && value.length > 0
+  const isOptionalString = (value: unknown) => value === undefined || isString(value)
+  const {proxy, httpCredentials, extraHTTPHeaders} = browser
+  if (proxy !== undefined) {
+    if (!proxy || !isString(proxy.server)) {
+      return failure("browser.proxy requires a server, e.g. 'http://proxy.example.com:3128'")
+    }
+    if (![proxy.bypass, proxy.username, proxy.password].every(isOptionalString)) {
+      return failure('browser.proxy bypass, username and password must be non-empty strings')
+    }
+  }
+  if (httpCredentials !== undefined) {
+    if (!httpCredentials || !isString(httpCredentials.username) || !isString(httpCredentials.password)) {
+      return failure('browser.httpCredentials requires a username and a password')
+    }
+    if (!isOptionalString(httpCredentials.origin)) {
+      return failure('browser.httpCredentials.origin must be a non-empty string')
+    }
+    if (httpCredentials.send !== undefined && !['unauthorized', 'always'].includes(httpCredentials.send)) {
+      return failure("browser.httpCredentials.send must be 'unauthorized' or 'always'")
+    }
+  }
+  if (
+    extraHTTPHeaders !== undefined &&
+    (!extraHTTPHeaders ||
+      typeof extraHTTPHeaders !== 'object' ||
+      Object.values(extraHTTPHeaders).some((value) => typeof value !== 'string'))
+  ) {
+    return failure('browser.extraHTTPHeaders must map header names to string values')
+  }
+  if (browser.blockRequests !== undefined) {
+    if (!Array.isArray(browser.blockRequests)) {
+      return failure('browser.blockRequests must be a list of URL patterns or block rules')
+    }
+    for (const [index, rule] of browser.blockRequests.entries()) {
+      const ruleResult = validateBlockRule(rule, `browser.blockRequests[${index}]`)
+      if (!ruleResult.success) {
+        return ruleResult
+      }
+    }
+  }
+  return success(undefined)
+}
+
+/**
+ * Check a block rule: a URL pattern, or an object with a URL pattern and/or resource types
+ */
+function validateBlockRule(rule: string | BlockRule, name: string): Result<void> {
+  if (typeof rule === 'string') {
+    return rule.length > 0 ? success(undefined) : failure(`${name} must not be empty`)
+  }
+  if (!rule || typeof rule !== 'object' || (rule.url === undefined && rule.resourceTypes === undefined)) {
+    return failure(`${name} requires a url pattern or resourceTypes`)
+  }
+  if (rule.url !== undefined && (typeof rule.url !== 'string' || rule.url.length === 0)) {
+    return failure(`${name}.url must be a non-empty string`)
+  }
+  if (rule.resourceTypes !== undefined) {
+    const unknown = Array.isArray(rule.resourceTypes)
+      ? rule.resourceTypes.find((type) => !RESOURCE_TYPES.includes(type))
+      : String(rule.resourceTypes)
+    if (unknown !== undefined) {
+      return failure(`${name}.resourceTypes has unknown type '${unknown}', use ${RESOURCE_TYPES.join(', ')}`)
+    }
+  }
+  return success(undefined)
+}
+
+/**
+ * Check emulation settings of the config or of a script's `browser` section, named `<prefix>.<field>` in errors
+ */
+export function validateEmulation(emulation: EmulationConfig, prefix: string): Result<void> {
+  for (const field of ['device', 'locale', 'timezoneId', 'userAgent'] as const) {
+    if (emulation[field] !== undefined && (typeof emulation[field] !== 'string' || emulation[field].length === 0)) {
+      return failure(`${prefix}.${field} must be a non-empty string`)
+    }
+  }
+  const {geolocation, permissions, colorScheme, deviceScaleFactor} = emulation
+  if (
+    geolocation !== undefined &&
+    (typeof geolocation?.latitude !== 'number' ||
+      typeof geolocation.longitude !== 'number' ||
+      Math.abs(geolocation.latitude) > 90 ||
+      Math.abs(geolocation.longitude) > 180)
+  ) {
+    return failure(`${prefix}.geolocation must have a latitude (-90 to 90) and a longitude (-180 to 180)`)
+  }
+  if (
+    permissions !== undefined &&
+    (!Array.isArray(permissions) || permissions.some((name) => typeof name !== 'string'))
+  ) {
+    return failure(`${prefix}.permissions must be a list of permission names`)
+  }
+  if (colorScheme !== undefined && !['light', 'dark', 'no-preference'].includes(colorScheme)) {
+    return failure(`${prefix}.colorScheme must be 'light', 'dark' or 'no-preference'`)
+  }
+  if (deviceScaleFactor !== undefined && (typeof deviceScaleFactor !== 'number' || deviceScaleFactor <= 0)) {
+    return failure(`${prefix}.deviceScaleFactor must be a positive number`)
+  }
+  return success(undefined)
+}
@@ -0,0 +1,159 @@
+import {describe, it, expect, vi, beforeEach, afterEach} from 'vitest'
+import {Page} from 'playwright'
+import {ActionStep, VariableStore} from '../types/index.js'
+import {evaluateAssertion, describeAssertion, isAssertAction} from './assertion.js'
+
+describe('Assertion', () => {
+  let mockLocator: any
+  let mockPage: Page
+
+  beforeEach(() => {
+    mockLocator = {
+      count: vi.fn().mockResolvedValue(3),
+      first: vi.fn(),
+    }
+    mockLocator.first.mockReturnValue({
+      isVisible: vi.fn().mockResolvedValue(true),
+      textContent: vi.fn().mockResolvedValue('Welcome, Alice'),
+      getAttribute: vi.fn().mockResolvedValue('/profile'),
+      inputValue: vi.fn().mockResolvedValue('alice@example.com'),
+    })
+
+    mockPage = {
+      locator: vi.fn().mockReturnValue(mockLocator),
+      frameLocator: vi.fn().mockReturnValue({locator: vi.fn().mockReturnValue(mockLocator)}),
+      url: vi.fn().mockReturnValue('https://example.com/dashboard'),
+      title: vi.fn().mockResolvedValue('Dashboard'),
+    } as unknown as Page
+  })
+
+  describe('isAssertAction', () => {
+    it('should detect assert actions', () => {
+      expect(isAssertAction({type: 'assertText', selector: 'h1', equals: 'Hi'})).toBe(true)
+      expect(isAssertAction({type: 'click', selector: 'h1'})).toBe(false)
+    })
+  })
+
+  describe('evaluateAssertion', () => {
+    beforeEach(() => {
+      vi.useFakeTimers()
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    // Failing assertions check again until their timeout runs out
+    const evaluate = async (step: ActionStep, variables: VariableStore) => {
+      const result = evaluateAssertion(mockPage, step, variables)
+      await vi.runAllTimersAsync()
+      return result
+    }
+
+    it('should compare element text', async () => {
+      const result = await evaluate({type: 'assertText', selector: 'h1', contains: 'Alice'}, {})
+
+      expect(result).toEqual({
+        success: true,
+        data: {passed: true, expected: 'contains "Alice"', actual: '"Welcome, Alice"'},
+      })
+    })
+
+    it('should report expected and actual values of failed assertions', async () => {
+      const result = await evaluate({type: 'assertTitle', equals: 'Home'}, {})
+
+      expect(result).toEqual({
+        success: true,
+        data: {passed: false, expected: 'equals "Home"', actual: '"Dashboard"'},
+      })
+    })
+
+    it('should compare element count', async () => {
+      const result = await evaluate({type: 'assertCount', selector: '.row', greaterThan: 5}, {})
+
+      expect(result.success && result.data).toEqual({passed: false, expected: '> 5', actual: '3'})
+    })
+
+    it('should check visibility and hidden state', async () => {
+      mockLocator.count.mockResolvedValue(0)
+
+      const visible = await evaluate({type: 'assertVisible', selector: '.toast'}, {})
+      const hidden = await evaluate({type: 'assertHidden', selector: '.toast'}, {})
+
+      expect(visible.success && visible.data).toEqual({passed: false, expected: 'visible', actual: 'hidden'})
+      expect(hidden.success && hidden.data.passed).toBe(true)
+    })
+
+    it('should fail when the element is missing', async () => {
+      mockLocator.count.mockResolvedValue(0)
+
+      const result = await evaluate({type: 'assertValue', selector: '#email', equals: ''}, {})
+
+      expect(result.success && result.data).toEqual({passed: false, expected: 'equals ""', actual: '(not found)'})
+    })
+
+    it('should read attributes and input values inside frames', async () => {
+      const attribute = await evaluate(
+        {type: 'assertAttribute', selector: 'a', frame: 'iframe#app', attribute: 'href', matches: '/prof.*/'},
+        {},
+      )
+      const value = await evaluate({type: 'assertValue', selector: '#email', contains: '@'}, {})
+
+      expect(attribute.success && attribute.data.passed).toBe(true)
+      expect(value.success && value.data.passed).toBe(true)
+      expect(mockPage.frameLocator).toHaveBeenCalledWith('iframe#app')
+    })
+
+    it('should check again until the assertion passes', async () => {
+      vi.mocked(mockPage.title).mockResolvedValueOnce('Loading').mockResolvedValueOnce('Loading')
+
+      const result = await evaluate({type: 'assertTitle', equals: 'Dashboard', timeout: 2000}, {})
+
+      expect(result.success && result.data.passed).toBe(true)
+      expect(mockPage.title).toHaveBeenCalledTimes(3)
+    })
+
+    it('should fail with the last value once the timeout runs out', async () => {
+      let settled = false
+      const promise = evaluateAssertion(mockPage, {type: 'assertTitle', equals: 'Home', timeout: 2000}, {}).finally(
+        () => (settled = true),
+      )
+
+      await vi.advanceTimersByTimeAsync(1900)
+      expect(settled).toBe(false)
+      await vi.advanceTimersByTimeAsync(100)
+      const result = await promise
+
+      expect(result.success && result.data).toEqual({passed: false, expected: 'equals "Home"', actual: '"Dashboard"'})
+      expect(vi.mocked(mockPage.title).mock.calls.length).toBeGreaterThan(2)
+    })
+
+    it('should check variables only once', async () => {
+      const result = evaluateAssertion(mockPage, {type: 'assertVariable', variable: 'count', equals: 2}, {count: 1})
+
+      expect(await result).toMatchObject({success: true, data: {passed: false}})
+    })
+
+    it('should compare URL and variables with substituted references', async () => {
+      const variables = {user: {name: 'Alice'}, path: 'dashboard'}
+
+      const url = await evaluate({type: 'assertUrl', contains: '/${vars.path}'}, variables)
+      const variable = await evaluate({type: 'assertVariable', variable: 'user.name', equals: 'Alice'}, variables)
+
+      expect(url.success && url.data.passed).toBe(true)
+      expect(variable.success && variable.data.passed).toBe(true)
+    })
+  })
+
+  describe('describeAssertion', () => {
+    it('should describe assertions for logs', () => {
+      expect(describeAssertion({type: 'assertText', selector: 'h1', equals: 'Hi'})).toBe(
+        'Assert text of h1 equals "Hi"',
+      )
+      expect(describeAssertion({type: 'assertCount', selector: '.row', greaterThan: 2, lessThan: 10})).toBe(
+        'Assert count of .row > 2 and < 10',
+      )
+      expect(describeAssertion({type: 'assertHidden', selector: '.spinner'})).toBe('Assert .spinner is hidden')
+    })
+  })
+})
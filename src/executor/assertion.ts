@@ -0,0 +1,184 @@
+import {Page} from 'playwright'
+import {ActionStep, ValueComparison, VariableStore, Result, success, failure} from '../types/index.js'
+import {compareValue, describeComparison} from '../utils/matcher.js'
+import {getActionDefinition} from '../actions/registry.js'
+import {waitForTime} from '../browser/controller.js'
+import {replaceVariables, resolveVariablePath, stringifyVariable} from '../utils/variable-replacer.js'
+
+/**
+ * Outcome of an assertion with the values shown in logs
+ */
+export interface AssertionOutcome {
+  passed: boolean
+  expected: string
+  actual: string
+}
+
+/**
+ * Check if step is one of the assert actions
+ */
+export function isAssertAction(step: ActionStep): boolean {
+  return getActionDefinition(step.type)?.category === 'assertion'
+}
+
+// How long assertions wait for their condition without a step timeout, like Playwright's expect
+const DEFAULT_ASSERTION_TIMEOUT = 5000
+
+// Pauses between checks of a failing assertion; the last one repeats
+const POLL_INTERVALS = [100, 250, 500, 1000]
+
+/**
+ * Evaluate an assert step against the current page and variables, checking again until it passes
+ * or its timeout runs out
+ */
+export async function evaluateAssertion(
+  page: Page,
+  step: ActionStep,
+  variables: VariableStore,
+  signal?: AbortSignal,
+): Promise<Result<AssertionOutcome>> {
+  // Variables do not change while the step waits
+  const timeout = step.type === 'assertVariable' ? 0 : (step.timeout ?? DEFAULT_ASSERTION_TIMEOUT)
+  const deadline = Date.now() + timeout
+  for (let attempt = 0; ; attempt++) {
+    const result = await checkAssertion(page, step, variables)
+    const remaining = deadline - Date.now()
+    if (!result.success || result.data.passed || remaining <= 0 || signal?.aborted) {
+      return result
+    }
+    await waitForTime(Math.min(POLL_INTERVALS[Math.min(attempt, POLL_INTERVALS.length - 1)], remaining), signal)
+  }
+}
+
+/**
+ * Check an assert step once
+ */
+async function checkAssertion(
+  page: Page,
+  step: ActionStep,
+  variables: VariableStore,
+): Promise<Result<AssertionOutcome>> {
+  try {
+    const comparison = resolveComparisonVariables(step, variables)
+
+    if (step.type === 'assertVisible' || step.type === 'assertHidden') {
+      const locator = getLocator(page, step)
+      const visible = (await locator.count()) > 0 && (await locator.first().isVisible())
+      const expectedVisible = step.type === 'assertVisible'
+      return success({
+        passed: visible === expectedVisible,
+        expected: expectedVisible ? 'visible' : 'hidden',
+        actual: visible ? 'visible' : 'hidden',
+      })
+    }
+
+    const actualResult = await getActualValue(page, step, variables)
+    if (!actualResult.success) {
+      return actualResult
+    }
+
+    const actual = actualResult.data
+    return success({
+      passed: actual !== undefined && compareValue(actual, comparison),
+      expected: describeComparison(comparison),
+      actual: formatActual(actual),
+    })
+  } catch (error) {
+    return failure(`Failed to evaluate assertion: ${error}`)
+  }
+}
+
+/**
+ * Describe an assert step for logs, e.g. `Assert text of h1 contains "Welcome"`
+ */
+export function describeAssertion(step: ActionStep): string {
+  const target = step.frame ? `${step.selector} in ${step.frame}` : step.selector
+  const comparison = describeComparison(step)
+
+  switch (step.type) {
+    case 'assertText':
+      return `Assert text of ${target} ${comparison}`
+    case 'assertCount':
+      return `Assert count of ${target} ${comparison}`
+    case 'assertVisible':
+      return `Assert ${target} is visible`
+    case 'assertHidden':
+      return `Assert ${target} is hidden`
+    case 'assertAttribute':
+      return `Assert ${step.attribute} of ${target} ${comparison}`
+    case 'assertUrl':
+      return `Assert URL ${comparison}`
+    case 'assertTitle':
+      return `Assert title ${comparison}`
+    case 'assertValue':
+      return `Assert value of ${target} ${comparison}`
+    case 'assertVariable':
+      return `Assert vars.${step.variable} ${comparison}`
+    default:
+      return `Assert ${step.type}`
+  }
+}
+
+/**
+ * Read the value checked by the assertion; undefined when the element is missing
+ */
+async function getActualValue(page: Page, step: ActionStep, variables: VariableStore): Promise<Result<unknown>> {
+  switch (step.type) {
+    case 'assertUrl':
+      return success(page.url())
+    case 'assertTitle':
+      return success(await page.title())
+    case 'assertVariable':
+      return success(resolveVariablePath(variables, step.variable!))
+    case 'assertCount':
+      return success(await getLocator(page, step).count())
+  }
+
+  const locator = getLocator(page, step)
+  if ((await locator.count()) === 0) {
+    return success(undefined)
+  }
+
+  switch (step.type) {
+    case 'assertText':
+      return success((await locator.first().textContent()) ?? '')
+    case 'assertAttribute':
+      return success((await locator.first().getAttribute(step.attribute!)) ?? undefined)
+    case 'assertValue':
+      return success(await locator.first().inputValue())
+    default:
+      return failure(`Unknown assert action type: ${step.type}`)
+  }
+}
+
+function getLocator(page: Page, step: ActionStep) {
+  return step.frame ? page.frameLocator(step.frame).locator(step.selector!) : page.locator(step.selector!)
+}
+
+/**
+ * Substitute variables in the string operators of an assertion
+ */
+function resolveComparisonVariables(step: ActionStep, variables: VariableStore): ValueComparison {
+  const resolved: ValueComparison = {
+    equals: step.equals,
+    notEquals: step.notEquals,
+    contains: step.contains,
+    matches: step.matches,
+    greaterThan: step.greaterThan,
+    lessThan: step.lessThan,
+  }
+  for (const key of ['equals', 'notEquals', 'contains', 'matches'] as const) {
+    const value = resolved[key]
+    if (typeof value === 'string') {
+      Object.assign(resolved, {[key]: replaceVariables(value, variables)})
+    }
+  }
+  return resolved
+}
+
+function formatActual(value: unknown): string {
+  if (value === undefined) {
+    return '(not found)'
+  }
+  return typeof value === 'string' ? JSON.stringify(value) : stringifyVariable(value)
+}
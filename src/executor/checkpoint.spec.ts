@@ -0,0 +1,64 @@
+import {describe, it, expect, beforeEach, afterEach} from 'vitest'
+import {mkdtemp, rm, writeFile} from 'fs/promises'
+import {tmpdir} from 'os'
+import {join} from 'path'
+import {Checkpoint, getCheckpointPath, loadCheckpoint, saveCheckpoint, validateCheckpoint} from './checkpoint.js'
+
+describe('Checkpoint', () => {
+  let dir: string
+  const checkpoint: Checkpoint = {
+    sessionId: '2025-01-31T10-00-00-000Z-abc123',
+    script: 'Order Flow',
+    scriptPath: '/scripts/order.json',
+    stepIndex: 2,
+    error: 'Element not found: #submit',
+    url: 'https://shop.example.com/checkout',
+    variables: {orderId: '42'},
+    storageState: {cookies: [], origins: []},
+    savedAt: '2025-01-31T10:05:00.000Z',
+  }
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'auto-run-checkpoint-'))
+  })
+
+  afterEach(async () => {
+    await rm(dir, {recursive: true, force: true})
+  })
+
+  it('should save checkpoints next to the session log and load them by session ID', async () => {
+    const saved = await saveCheckpoint(dir, checkpoint)
+
+    expect(saved).toEqual({success: true, data: getCheckpointPath(dir, checkpoint.sessionId)})
+    expect(await loadCheckpoint(dir, checkpoint.sessionId)).toEqual({success: true, data: checkpoint})
+  })
+
+  it('should fail for unknown sessions and invalid files', async () => {
+    const missing = await loadCheckpoint(dir, 'unknown')
+    await writeFile(getCheckpointPath(dir, 'broken'), JSON.stringify({sessionId: 'broken'}))
+    const invalid = await loadCheckpoint(dir, 'broken')
+
+    expect(missing.success).toBe(false)
+    if (!missing.success) {
+      expect(missing.error).toContain("No checkpoint found for session 'unknown'")
+    }
+    expect(invalid).toEqual({success: false, error: `Invalid checkpoint file: ${getCheckpointPath(dir, 'broken')}`})
+  })
+
+  it('should only resume the script it was saved for', () => {
+    const steps = [
+      {type: 'click' as const, selector: '#a'},
+      {type: 'click' as const, selector: '#b'},
+    ]
+
+    expect(validateCheckpoint(checkpoint, {name: 'Order Flow', steps: [...steps, ...steps]}).success).toBe(true)
+    expect(validateCheckpoint(checkpoint, {name: 'Other', steps})).toEqual({
+      success: false,
+      error: "Checkpoint was saved for script 'Order Flow', not 'Other'",
+    })
+    expect(validateCheckpoint(checkpoint, {name: 'Order Flow', steps})).toEqual({
+      success: false,
+      error: 'Checkpoint step 3 is beyond the 2 steps of the script',
+    })
+  })
+})
@@ -0,0 +1,83 @@
+import {readFile, writeFile, mkdir} from 'fs/promises'
+import {join} from 'path'
+import type {BrowserContext} from 'playwright'
+import {AutomationScript, Result, VariableStore, success, failure} from '../types/index.js'
+
+/**
+ * Cookies and localStorage of a browser context, as saved by Playwright
+ */
+export type StorageState = Awaited<ReturnType<BrowserContext['storageState']>>
+
+/**
+ * State of a run that stopped at a main step, enough to continue from that step
+ */
+export interface Checkpoint {
+  sessionId: string // session of the stopped run
+  script: string // script name, checked on resume
+  scriptPath?: string // file the script was loaded from
+  stepIndex: number // index of the main step to continue from
+  error: string // why the run stopped
+  url: string // page the step failed on
+  variables: VariableStore
+  storageState: StorageState
+  savedAt: string
+}
+
+/**
+ * Checkpoint file of a session, next to its log file
+ */
+export function getCheckpointPath(outputDir: string, sessionId: string): string {
+  return join(outputDir, `checkpoint-${sessionId}.json`)
+}
+
+/**
+ * Save a checkpoint; returns its path
+ */
+export async function saveCheckpoint(outputDir: string, checkpoint: Checkpoint): Promise<Result<string>> {
+  const filePath = getCheckpointPath(outputDir, checkpoint.sessionId)
+  try {
+    await mkdir(outputDir, {recursive: true})
+    await writeFile(filePath, JSON.stringify(checkpoint, null, 2))
+    return success(filePath)
+  } catch (error) {
+    return failure(`Failed to save checkpoint: ${error}`)
+  }
+}
+
+/**
+ * Load the checkpoint of a session
+ */
+export async function loadCheckpoint(outputDir: string, sessionId: string): Promise<Result<Checkpoint>> {
+  const filePath = getCheckpointPath(outputDir, sessionId)
+  let content: string
+  try {
+    content = await readFile(filePath, 'utf-8')
+  } catch {
+    return failure(`No checkpoint found for session '${sessionId}' (${filePath})`)
+  }
+
+  try {
+    const checkpoint = JSON.parse(content) as Checkpoint
+    if (!Number.isInteger(checkpoint.stepIndex) || typeof checkpoint.url !== 'string' || !checkpoint.storageState) {
+      return failure(`Invalid checkpoint file: ${filePath}`)
+    }
+    return success(checkpoint)
+  } catch (error) {
+    return failure(`Invalid checkpoint file ${filePath}: ${error}`)
+  }
+}
+
+/**
+ * Check that a checkpoint can resume the script
+ */
+export function validateCheckpoint(checkpoint: Checkpoint, script: AutomationScript): Result<void> {
+  if (checkpoint.script !== script.name) {
+    return failure(`Checkpoint was saved for script '${checkpoint.script}', not '${script.name}'`)
+  }
+  if (checkpoint.stepIndex >= script.steps.length) {
+    return failure(
+      `Checkpoint step ${checkpoint.stepIndex + 1} is beyond the ${script.steps.length} steps of the script`,
+    )
+  }
+  return success(undefined)
+}
@@ -0,0 +1,88 @@
+import {describe, it, expect, vi, beforeEach} from 'vitest'
+import {Page} from 'playwright'
+import {evaluateCondition, describeCondition} from './condition.js'
+
+describe('Condition', () => {
+  let mockLocator: any
+  let mockPage: Page
+
+  beforeEach(() => {
+    mockLocator = {
+      count: vi.fn().mockResolvedValue(1),
+      first: vi.fn(),
+    }
+    mockLocator.first.mockReturnValue({
+      isVisible: vi.fn().mockResolvedValue(true),
+      textContent: vi.fn().mockResolvedValue('Welcome, Alice'),
+    })
+
+    mockPage = {
+      locator: vi.fn().mockReturnValue(mockLocator),
+      frameLocator: vi.fn().mockReturnValue({locator: vi.fn().mockReturnValue(mockLocator)}),
+      url: vi.fn().mockReturnValue('https://example.com/dashboard'),
+    } as unknown as Page
+  })
+
+  describe('evaluateCondition', () => {
+    it('should check element existence by default', async () => {
+      const result = await evaluateCondition(mockPage, {selector: '#logout'}, {})
+
+      expect(result).toEqual({success: true, data: true})
+    })
+
+    it('should check element absence', async () => {
+      mockLocator.count.mockResolvedValue(0)
+
+      const result = await evaluateCondition(mockPage, {selector: '#login-form', exists: false}, {})
+
+      expect(result).toEqual({success: true, data: true})
+    })
+
+    it('should check visibility and text inside frames', async () => {
+      const result = await evaluateCondition(
+        mockPage,
+        {selector: '.greeting', frame: 'iframe#app', visible: true, text: 'Alice'},
+        {},
+      )
+
+      expect(result).toEqual({success: true, data: true})
+      expect(mockPage.frameLocator).toHaveBeenCalledWith('iframe#app')
+    })
+
+    it('should match the current URL', async () => {
+      const result = await evaluateCondition(mockPage, {url: '**/login'}, {})
+
+      expect(result).toEqual({success: true, data: false})
+    })
+
+    it('should compare variables and substitute references', async () => {
+      const variables = {user: 'Alice', expected: 'Alice', rows: []}
+
+      expect(await evaluateCondition(mockPage, {variable: 'user', equals: '${vars.expected}'}, variables)).toEqual({
+        success: true,
+        data: true,
+      })
+      expect(await evaluateCondition(mockPage, {variable: 'rows'}, variables)).toEqual({success: true, data: false})
+    })
+
+    it('should negate the result', async () => {
+      const result = await evaluateCondition(mockPage, {selector: '#logout', not: true}, {})
+
+      expect(result).toEqual({success: true, data: false})
+    })
+
+    it('should fail for empty conditions', async () => {
+      const result = await evaluateCondition(mockPage, {}, {})
+
+      expect(result.success).toBe(false)
+    })
+  })
+
+  describe('describeCondition', () => {
+    it('should describe combined checks', () => {
+      expect(describeCondition({selector: '#logout'})).toBe('#logout exists')
+      expect(describeCondition({url: '/home', not: true})).toBe('not (URL matches /home)')
+      expect(describeCondition({variable: 'count', greaterThan: 2})).toBe('vars.count > 2')
+    })
+  })
+})
@@ -0,0 +1,116 @@
+import {Page} from 'playwright'
+import {StepCondition, VariableStore, Result, success, failure} from '../types/index.js'
+import {compareValue, describeComparison, hasComparison, matchesPattern} from '../utils/matcher.js'
+import {replaceVariables, resolveVariablePath} from '../utils/variable-replacer.js'
+
+/**
+ * Evaluate a step condition against the current page and variables
+ */
+export async function evaluateCondition(
+  page: Page,
+  condition: StepCondition,
+  variables: VariableStore,
+): Promise<Result<boolean>> {
+  try {
+    const resolved = resolveConditionVariables(condition, variables)
+    const checks: boolean[] = []
+
+    if (resolved.selector) {
+      const locator = resolved.frame
+        ? page.frameLocator(resolved.frame).locator(resolved.selector)
+        : page.locator(resolved.selector)
+      const count = await locator.count()
+
+      const checksElementOnly = resolved.visible === undefined && resolved.text === undefined
+      if (resolved.exists !== undefined || checksElementOnly) {
+        checks.push(count > 0 === (resolved.exists ?? true))
+      }
+
+      if (resolved.visible !== undefined) {
+        const visible = count > 0 && (await locator.first().isVisible())
+        checks.push(visible === resolved.visible)
+      }
+
+      if (resolved.text !== undefined) {
+        const text = count > 0 ? (await locator.first().textContent()) || '' : ''
+        checks.push(text.includes(resolved.text))
+      }
+    } else if (resolved.text !== undefined) {
+      const bodyText = (await page.locator('body').textContent()) || ''
+      checks.push(bodyText.includes(resolved.text))
+    }
+
+    if (resolved.url !== undefined) {
+      checks.push(matchesPattern(page.url(), resolved.url))
+    }
+
+    if (resolved.variable !== undefined) {
+      const value = resolveVariablePath(variables, resolved.variable)
+      checks.push(hasComparison(resolved) ? compareValue(value, resolved) : isTruthy(value))
+    }
+
+    if (checks.length === 0) {
+      return failure('Condition has nothing to check')
+    }
+
+    const result = checks.every(Boolean)
+    return success(resolved.not ? !result : result)
+  } catch (error) {
+    return failure(`Failed to evaluate condition: ${error}`)
+  }
+}
+
+/**
+ * Describe a condition for logs
+ */
+export function describeCondition(condition: StepCondition): string {
+  const parts: string[] = []
+
+  if (condition.selector) {
+    const target = condition.frame ? `${condition.selector} in ${condition.frame}` : condition.selector
+    if (condition.visible !== undefined) {
+      parts.push(`${target} is ${condition.visible ? 'visible' : 'hidden'}`)
+    }
+    if (condition.text !== undefined) {
+      parts.push(`${target} contains "${condition.text}"`)
+    }
+    if (condition.exists !== undefined || (condition.visible === undefined && condition.text === undefined)) {
+      parts.push(`${target} ${condition.exists === false ? 'does not exist' : 'exists'}`)
+    }
+  } else if (condition.text !== undefined) {
+    parts.push(`page contains "${condition.text}"`)
+  }
+
+  if (condition.url !== undefined) {
+    parts.push(`URL matches ${condition.url}`)
+  }
+
+  if (condition.variable !== undefined) {
+    const comparison = describeComparison(condition)
+    parts.push(comparison ? `vars.${condition.variable} ${comparison}` : `vars.${condition.variable} is set`)
+  }
+
+  const description = parts.join(' and ')
+  return condition.not ? `not (${description})` : description
+}
+
+/**
+ * Substitute variables in the string fields of a condition
+ */
+function resolveConditionVariables(condition: StepCondition, variables: VariableStore): StepCondition {
+  const resolved = {...condition}
+  for (const key of ['selector', 'frame', 'text', 'url', 'contains', 'matches', 'equals', 'notEquals'] as const) {
+    const value = condition[key]
+    if (typeof value === 'string') {
+      Object.assign(resolved, {[key]: replaceVariables(value, variables)})
+    }
+  }
+  return resolved
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.length > 0
+  }
+  return Boolean(value) && value !== 'false'
+}
@@ -0,0 +1,132 @@
+import {describe, it, expect, vi, beforeEach} from 'vitest'
+import {executeDataset, formatDatasetResult, parseCsv, resolveDataset} from './dataset.js'
+import {defineConfig} from '../config/index.js'
+import {AutomationScript} from '../types/index.js'
+
+// Mock engine
+vi.mock('./engine.js', () => ({
+  executeScript: vi.fn(),
+}))
+
+describe('Dataset', () => {
+  const config = defineConfig()
+  const script: AutomationScript = {
+    name: 'Form filling',
+    steps: [{type: 'type', selector: '#email', value: '${vars.email}'}],
+  }
+  const rows = [{email: 'a@example.com'}, {email: 'bad'}, {email: 'c@example.com'}]
+  let mockExecuteScript: any
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    const engineModule = await import('./engine.js')
+    mockExecuteScript = vi.mocked(engineModule.executeScript)
+    mockExecuteScript.mockImplementation(async (_script: unknown, _config: unknown, options: any) => ({
+      success: true,
+      data: {
+        success: options.variables.email !== 'bad',
+        error: options.variables.email === 'bad' ? 'Element not found: #email' : undefined,
+        executionTime: 10,
+      },
+    }))
+  })
+
+  describe('parseCsv', () => {
+    it('should parse header and rows', () => {
+      const result = parseCsv('name,email\nAlice,alice@example.com\r\nBob,bob@example.com\n')
+
+      expect(result).toEqual({
+        success: true,
+        data: [
+          {name: 'Alice', email: 'alice@example.com'},
+          {name: 'Bob', email: 'bob@example.com'},
+        ],
+      })
+    })
+
+    it('should handle quoted fields with commas, quotes and newlines', () => {
+      const result = parseCsv('name,address\n"Kim, Alice","Line 1\nLine ""2"""\n')
+
+      expect(result.success && result.data).toEqual([{name: 'Kim, Alice', address: 'Line 1\nLine "2"'}])
+    })
+
+    it('should fill missing fields and reject extra fields', () => {
+      expect(parseCsv('a,b\n1\n')).toEqual({success: true, data: [{a: '1', b: ''}]})
+      expect(parseCsv('a,b\n1,2,3\n')).toEqual({
+        success: false,
+        error: 'Invalid CSV: row 1 has 3 fields, header has 2',
+      })
+    })
+  })
+
+  describe('resolveDataset', () => {
+    it('should use inline rows of the script', async () => {
+      const result = await resolveDataset({...script, dataset: [{email: 'a@example.com'}]})
+
+      expect(result).toEqual({success: true, data: [{email: 'a@example.com'}]})
+    })
+
+    it('should fail without dataset', async () => {
+      const result = await resolveDataset(script)
+
+      expect(result).toEqual({success: false, error: 'Script has no dataset'})
+    })
+  })
+
+  describe('executeDataset', () => {
+    it('should run the script once per row with columns as variables', async () => {
+      const result = await executeDataset(script, config, rows)
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data).toMatchObject({success: false, total: 3, passed: 2, failed: 1, skipped: 0})
+        expect(result.data.iterations[1]).toMatchObject({
+          index: 2,
+          status: 'failed',
+          error: 'Element not found: #email',
+        })
+        expect(result.data.iterations[0].result?.success).toBe(true)
+      }
+      expect(mockExecuteScript).toHaveBeenCalledTimes(3)
+      expect(mockExecuteScript).toHaveBeenCalledWith(script, config, {variables: {email: 'c@example.com'}})
+    })
+
+    it('should skip remaining rows after the first failure', async () => {
+      const result = await executeDataset(script, config, rows, {stopOnFailure: true})
+
+      expect(result.success && result.data).toMatchObject({passed: 1, failed: 1, skipped: 1})
+      expect(mockExecuteScript).toHaveBeenCalledTimes(2)
+    })
+
+    it('should run rows in parallel', async () => {
+      let running = 0
+      let maxRunning = 0
+      mockExecuteScript.mockImplementation(async () => {
+        running++
+        maxRunning = Math.max(maxRunning, running)
+        await new Promise((resolve) => setTimeout(resolve, 5))
+        running--
+        return {success: true, data: {success: true, executionTime: 5}}
+      })
+
+      const result = await executeDataset(script, config, rows, {parallel: 2})
+
+      expect(result.success && result.data.passed).toBe(3)
+      expect(maxRunning).toBe(2)
+    })
+  })
+
+  describe('formatDatasetResult', () => {
+    it('should summarize rows', async () => {
+      const result = await executeDataset(script, config, rows, {stopOnFailure: true})
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        const output = formatDatasetResult(result.data)
+        expect(output).toContain('FAILED: 1/3 rows passed, 1 failed, 1 skipped')
+        expect(output).toContain('✗ Row 2 (email=bad): Element not found: #email')
+        expect(output).toContain('- Row 3 (email=c@example.com): skipped')
+      }
+    })
+  })
+})
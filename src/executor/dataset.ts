@@ -0,0 +1,311 @@
+import {readFile, writeFile} from 'fs/promises'
+import {dirname, extname, resolve} from 'path'
+import {AutomationScript, Result, VariableStore, success, failure} from '../types/index.js'
+import {AutoConfig} from '../config/index.js'
+import {parseScriptFromFile} from '../actions/parser.js'
+import {loadPlugins} from '../plugins/index.js'
+import {executeScript, ExecutionResult} from './engine.js'
+import {StepSelection} from './selection.js'
+
+export interface DatasetOptions {
+  data?: string // dataset file, overrides the script's dataset
+  baseDir?: string // directory the script's dataset path is relative to
+  parallel?: number // rows run at the same time, each in its own browser (default: 1)
+  stopOnFailure?: boolean // skip the remaining rows after the first failed row
+  signal?: AbortSignal // cancels running rows and skips the remaining ones
+  steps?: StepSelection // main steps run for every row
+}
+
+export interface DatasetIteration {
+  index: number
+  row: VariableStore
+  status: 'success' | 'failed' | 'skipped' | 'cancelled'
+  error?: string
+  result?: ExecutionResult
+}
+
+export interface DatasetResult {
+  success: boolean
+  total: number
+  passed: number
+  failed: number
+  skipped: number
+  cancelled: number
+  executionTime: number
+  iterations: DatasetIteration[]
+}
+
+/**
+ * Execute automation script from file once per dataset row
+ */
+export async function executeDatasetFromFile(
+  filePath: string,
+  config: AutoConfig,
+  options: DatasetOptions = {},
+): Promise<Result<DatasetResult>> {
+  const pluginsResult = await loadPlugins(config.plugins)
+  if (!pluginsResult.success) {
+    return pluginsResult
+  }
+
+  const parseResult = await parseScriptFromFile(filePath)
+  if (!parseResult.success) {
+    return failure(`Failed to parse script: ${parseResult.error}`)
+  }
+
+  const rowsResult = await resolveDataset(parseResult.data, {baseDir: dirname(resolve(filePath)), ...options})
+  if (!rowsResult.success) {
+    return rowsResult
+  }
+
+  return executeDataset(parseResult.data, config, rowsResult.data, options)
+}
+
+/**
+ * Execute automation script once per row, with the row's columns as runtime variables
+ */
+export async function executeDataset(
+  script: AutomationScript,
+  config: AutoConfig,
+  rows: VariableStore[],
+  options: DatasetOptions = {},
+): Promise<Result<DatasetResult>> {
+  const startTime = Date.now()
+  const iterations: DatasetIteration[] = rows.map((row, index) => ({index: index + 1, row, status: 'skipped'}))
+  const parallel = Math.max(1, Math.min(options.parallel || 1, rows.length))
+  let next = 0
+  let stopped = false
+
+  const runNextRows = async () => {
+    while (!stopped && !options.signal?.aborted && next < iterations.length) {
+      const iteration = iterations[next++]
+      const result = await executeScript(script, config, {
+        variables: iteration.row,
+        signal: options.signal,
+        steps: options.steps,
+      })
+
+      if (result.success) {
+        iteration.result = result.data
+        iteration.status = result.data.success ? 'success' : result.data.cancelled ? 'cancelled' : 'failed'
+        iteration.error = result.data.error
+      } else {
+        iteration.status = 'failed'
+        iteration.error = result.error
+      }
+
+      if (iteration.status === 'failed' && options.stopOnFailure) {
+        stopped = true
+      }
+    }
+  }
+
+  try {
+    await Promise.all(Array.from({length: parallel}, runNextRows))
+  } catch (error) {
+    return failure(`Failed to execute dataset: ${error}`)
+  }
+
+  const count = (status: DatasetIteration['status']) => iterations.filter((it) => it.status === status).length
+  const failed = count('failed')
+  const skipped = count('skipped')
+  const cancelled = count('cancelled')
+
+  return success({
+    success: failed === 0 && skipped === 0 && cancelled === 0,
+    total: iterations.length,
+    passed: count('success'),
+    failed,
+    skipped,
+    cancelled,
+    executionTime: Date.now() - startTime,
+    iterations,
+  })
+}
+
+/**
+ * Resolve dataset rows from the CLI file, or the script's file or inline rows
+ */
+export async function resolveDataset(
+  script: AutomationScript,
+  options: DatasetOptions = {},
+): Promise<Result<VariableStore[]>> {
+  let rowsResult: Result<VariableStore[]>
+  if (options.data) {
+    rowsResult = await loadDataset(resolve(options.data))
+  } else if (Array.isArray(script.dataset)) {
+    rowsResult = success(script.dataset)
+  } else if (script.dataset) {
+    rowsResult = await loadDataset(resolve(options.baseDir || process.cwd(), script.dataset))
+  } else {
+    return failure('Script has no dataset')
+  }
+
+  if (rowsResult.success && rowsResult.data.length === 0) {
+    return failure('Dataset is empty')
+  }
+  return rowsResult
+}
+
+/**
+ * Load dataset rows from a CSV or JSON file
+ */
+export async function loadDataset(filePath: string): Promise<Result<VariableStore[]>> {
+  let content: string
+  try {
+    content = await readFile(filePath, 'utf-8')
+  } catch (error) {
+    return failure(`Failed to read dataset file: ${error}`)
+  }
+
+  const extension = extname(filePath).toLowerCase()
+  if (extension === '.csv') {
+    return parseCsv(content)
+  }
+  if (extension === '.json') {
+    return parseJsonDataset(content)
+  }
+  return failure(`Unsupported dataset format '${extension}'. Use .csv or .json`)
+}
+
+/**
+ * Parse CSV with a header row; quoted fields may contain commas, quotes ("") and newlines
+ */
+export function parseCsv(content: string): Result<VariableStore[]> {
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ''
+  let quoted = false
+  const text = content.replace(/^\uFEFF/, '')
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true
+    } else if (char === ',') {
+      record.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++
+      }
+      record.push(field)
+      records.push(record)
+      record = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (quoted) {
+    return failure('Invalid CSV: unterminated quoted field')
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field)
+    records.push(record)
+  }
+
+  const nonEmpty = records.filter((fields) => fields.some((value) => value.trim() !== ''))
+  if (nonEmpty.length === 0) {
+    return success([])
+  }
+
+  const [header, ...rows] = nonEmpty
+  const columns = header.map((column) => column.trim())
+  const data: VariableStore[] = []
+  for (let i = 0; i < rows.length; i++) {
+    if (rows[i].length > columns.length) {
+      return failure(`Invalid CSV: row ${i + 1} has ${rows[i].length} fields, header has ${columns.length}`)
+    }
+    data.push(Object.fromEntries(columns.map((column, index) => [column, rows[i][index] ?? ''])))
+  }
+  return success(data)
+}
+
+/**
+ * Parse JSON dataset: an array of objects
+ */
+function parseJsonDataset(content: string): Result<VariableStore[]> {
+  try {
+    const parsed = JSON.parse(content)
+    if (!Array.isArray(parsed) || parsed.some((row) => row === null || typeof row !== 'object' || Array.isArray(row))) {
+      return failure('JSON dataset must be an array of objects')
+    }
+    return success(parsed)
+  } catch (error) {
+    return failure(`Failed to parse JSON dataset: ${error}`)
+  }
+}
+
+/**
+ * Format dataset result for console output
+ */
+export function formatDatasetResult(result: DatasetResult): string {
+  const lines: string[] = []
+
+  lines.push('='.repeat(60))
+  lines.push('DATASET EXECUTION RESULT')
+  lines.push('='.repeat(60))
+
+  if (result.success) {
+    lines.push(`✅ SUCCESS: All ${result.total} rows passed`)
+  } else {
+    const cancelled = result.cancelled ? `, ${result.cancelled} cancelled` : ''
+    lines.push(
+      `❌ FAILED: ${result.passed}/${result.total} rows passed, ${result.failed} failed, ${result.skipped} skipped${cancelled}`,
+    )
+  }
+
+  lines.push(`⏱ Execution time: ${result.executionTime}ms`)
+  lines.push('')
+  lines.push('ROWS:')
+  lines.push('-'.repeat(40))
+
+  result.iterations.forEach((iteration) => {
+    const label = `Row ${iteration.index} ${describeRow(iteration.row)}`
+    if (iteration.status === 'skipped') {
+      lines.push(`- ${label}: skipped`)
+    } else if (iteration.status === 'success') {
+      lines.push(`✓ ${label} (${iteration.result?.executionTime}ms)`)
+    } else if (iteration.status === 'cancelled') {
+      lines.push(`⏹ ${label}: ${iteration.error}`)
+    } else {
+      lines.push(`✗ ${label}: ${iteration.error}`)
+    }
+  })
+
+  lines.push('='.repeat(60))
+
+  return lines.join('\n')
+}
+
+/**
+ * Save dataset result to file
+ */
+export async function saveDatasetResult(result: DatasetResult, outputPath: string): Promise<Result<void>> {
+  try {
+    await writeFile(outputPath, JSON.stringify(result, null, 2), 'utf-8')
+    return success(undefined)
+  } catch (error) {
+    return failure(`Failed to save dataset result: ${error}`)
+  }
+}
+
+/**
+ * Short row preview for the summary, e.g. `(name=Alice, email=alice@example.com)`
+ */
+function describeRow(row: VariableStore): string {
+  const entries = Object.entries(row).slice(0, 2)
+  const preview = entries.map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`)
+  return `(${preview.join(', ')}${Object.keys(row).length > entries.length ? ', …' : ''})`
+}
@@ -0,0 +1,153 @@
+import {describe, it, expect, beforeEach, afterEach, vi} from 'vitest'
+import {mkdtemp, readFile, rm, writeFile} from 'fs/promises'
+import {tmpdir} from 'os'
+import {join} from 'path'
+import {createDebugger} from './debugger.js'
+import {StepHookContext} from './hooks.js'
+import {AutomationScript} from '../types/index.js'
+import {defineConfig} from '../config/index.js'
+
+describe('Debugger', () => {
+  const script: AutomationScript = {
+    name: 'Debug',
+    steps: [
+      {type: 'type', selector: '#email', value: 'kim@example.com'},
+      {
+        type: 'if',
+        condition: {selector: '#banner'},
+        then: [{type: 'click', selector: '#close'}],
+      },
+    ],
+  }
+  let answers: string[]
+  let output: string[]
+  let page: {locator: ReturnType<typeof vi.fn>; screenshot: ReturnType<typeof vi.fn>}
+
+  const createContext = (stepNumber: StepHookContext['stepNumber'], step = script.steps[0]): StepHookContext => ({
+    script,
+    page: page as any,
+    logger: {} as any,
+    config: defineConfig(),
+    variables: {user: 'kim'},
+    step,
+    stepNumber,
+  })
+
+  const start = (scriptPath?: string) => {
+    const hooks = createDebugger({
+      prompt: async () => answers.shift() ?? 'quit',
+      print: (line) => output.push(line),
+      scriptPath,
+    })
+    hooks.beforeAll!(createContext(0))
+    return hooks
+  }
+
+  beforeEach(() => {
+    answers = []
+    output = []
+    page = {
+      locator: vi.fn().mockReturnValue({count: vi.fn().mockResolvedValue(2), highlight: vi.fn()}),
+      screenshot: vi.fn(),
+    }
+  })
+
+  it('should pause before steps until continue', async () => {
+    const hooks = start()
+    answers = ['', 'skip', 'continue']
+
+    expect(await hooks.beforeStep!(createContext(1))).toEqual({step: script.steps[0]})
+    expect(await hooks.beforeStep!(createContext(2))).toEqual({skip: true})
+    expect(await hooks.beforeStep!(createContext(3))).toEqual({step: script.steps[0]})
+    expect(await hooks.beforeStep!(createContext(4))).toBeUndefined()
+    expect(output[0]).toBe('⏸  Step 1: Type "kim@example.com" into #email')
+  })
+
+  it('should run the step with edited fields', async () => {
+    const hooks = start()
+    answers = ['value lee@example.com', 'selector', 'step']
+
+    expect(await hooks.beforeStep!(createContext(1))).toEqual({
+      step: {type: 'type', selector: '#email', value: 'lee@example.com'},
+    })
+    expect(output).toContain('selector: #email')
+  })
+
+  it('should retry, ignore or keep failures', async () => {
+    const hooks = start()
+    const step = {type: 'click' as const, selector: '#old'}
+    answers = ['selector #new', 'retry', 'skip', '']
+
+    expect(await hooks.onError!({...createContext(3, step), error: 'Element not found'})).toEqual({
+      retry: true,
+      step: {type: 'click', selector: '#new'},
+    })
+    expect(await hooks.onError!({...createContext(3, step), error: 'Element not found'})).toEqual({recover: true})
+    expect(await hooks.onError!({...createContext(3, step), error: 'Element not found'})).toEqual({recover: false})
+  })
+
+  it('should evaluate selectors and dump variables', async () => {
+    const hooks = start()
+    answers = ['eval .row', 'vars', 'step']
+
+    await hooks.beforeStep!(createContext(1))
+
+    expect(page.locator).toHaveBeenCalledWith('.row')
+    expect(output).toContain('2 element(s) match .row')
+    expect(output).toContain(JSON.stringify({user: 'kim'}, null, 2))
+  })
+
+  it('should fail the remaining main steps after quit and let teardown run', async () => {
+    const hooks = start()
+    answers = ['quit']
+
+    await expect(hooks.beforeStep!(createContext(1))).rejects.toThrow('Stopped in debugger')
+    await expect(hooks.beforeStep!(createContext(2))).rejects.toThrow('Stopped in debugger')
+    await expect(hooks.beforeStep!(createContext('2.then.1'))).rejects.toThrow('Stopped in debugger')
+    expect(await hooks.beforeStep!(createContext('teardown.1'))).toBeUndefined()
+    expect(await hooks.beforeStep!(createContext('teardown.2.then.1'))).toBeUndefined()
+  })
+
+  describe('save', () => {
+    let dir: string
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'auto-run-debugger-'))
+    })
+
+    afterEach(async () => {
+      await rm(dir, {recursive: true, force: true})
+    })
+
+    it('should write edits of nested steps back to JSON scripts', async () => {
+      const scriptPath = join(dir, 'debug.json')
+      await writeFile(scriptPath, JSON.stringify(script))
+      const hooks = start(scriptPath)
+      answers = ['selector #dismiss', 'save', 'step']
+
+      await hooks.beforeStep!(createContext('2.then.1', {type: 'click', selector: '#close'}))
+
+      expect(JSON.parse(await readFile(scriptPath, 'utf-8')).steps[1].then[0]).toEqual({
+        type: 'click',
+        selector: '#dismiss',
+      })
+      expect(output).toContain(`Saved 1 edited step(s) to ${scriptPath}`)
+    })
+
+    it('should keep comments of YAML scripts', async () => {
+      const scriptPath = join(dir, 'debug.yaml')
+      await writeFile(
+        scriptPath,
+        'name: Debug\nsteps:\n  # Log in first\n  - type: type\n    selector: "#email"\n    value: kim@example.com\n',
+      )
+      const hooks = start(scriptPath)
+      answers = ['value lee@example.com', 'save', 'step']
+
+      await hooks.beforeStep!(createContext(1))
+
+      expect(await readFile(scriptPath, 'utf-8')).toBe(
+        'name: Debug\nsteps:\n  # Log in first\n  - type: type\n    selector: "#email"\n    value: lee@example.com\n',
+      )
+    })
+  })
+})
@@ -0,0 +1,325 @@
+import {readFile, writeFile} from 'fs/promises'
+import {join} from 'path'
+import {createInterface} from 'readline'
+import {parseDocument} from 'yaml'
+import {ActionStep, AutomationScript, Result, StepNumber, success, failure} from '../types/index.js'
+import {describeStep, getNestedSteps} from '../actions/registry.js'
+import {getScriptFormat, isScriptModule} from '../actions/parser.js'
+import {AutoHooks, StepHookContext} from './hooks.js'
+
+export interface DebuggerOptions {
+  prompt(question: string): Promise<string> // reads one command line
+  print?(line: string): void // default: console.log
+  scriptPath?: string // script file that `save` writes edits to
+}
+
+type EditableField = 'selector' | 'value'
+
+interface StepEdit {
+  path: (string | number)[] // location of the step in the script file
+  fields: Partial<Record<EditableField, string>>
+}
+
+// Commands ending the prompt, by alias
+const STEP_COMMANDS: Record<string, string> = {
+  '': 'step',
+  s: 'step',
+  step: 'step',
+  c: 'continue',
+  continue: 'continue',
+  k: 'skip',
+  skip: 'skip',
+  q: 'quit',
+  quit: 'quit',
+}
+
+const FAILURE_COMMANDS: Record<string, string> = {
+  r: 'retry',
+  retry: 'retry',
+  k: 'skip',
+  skip: 'skip',
+  '': 'fail',
+  f: 'fail',
+  fail: 'fail',
+  q: 'quit',
+  quit: 'quit',
+}
+
+const HELP = [
+  'Before a step:',
+  '  s, step (Enter)   run this step and pause before the next one',
+  '  c, continue       run without pausing; failures still stop here',
+  '  k, skip           skip this step',
+  'After a failure:',
+  '  r, retry          run the step again, with your edits',
+  '  k, skip           ignore the failure',
+  '  f, fail (Enter)   let the step fail',
+  'Always:',
+  '  selector [css]    show or change the selector of the step',
+  '  value [text]      show or change the value of the step',
+  '  x, eval <css>     highlight the elements matching a selector and count them',
+  '  shot              take a screenshot',
+  '  vars              print the variables',
+  '  save              write the changed selectors and values back to the script file',
+  '  q, quit           stop the run',
+]
+
+/**
+ * Step-through debugger, as hooks pausing before every step and after failures
+ */
+export function createDebugger(options: DebuggerOptions): AutoHooks {
+  const print = options.print || console.log
+  const edits = new Map<string, StepEdit>()
+  let script: AutomationScript | undefined
+  let paused = true
+  let stopped = false // quit: fail every remaining step without asking
+
+  const recordEdit = (stepNumber: StepNumber, field: EditableField, value: string) => {
+    const path = script && getStepPath(script, stepNumber)
+    if (!path) {
+      print(`Step ${stepNumber} is not in the script file, the change applies to this run only`)
+      return
+    }
+    const key = path.join('/')
+    const edit = edits.get(key) || {path, fields: {}}
+    edit.fields[field] = value
+    edits.set(key, edit)
+  }
+
+  // Read commands until one of the given ones; tools and edits keep the prompt open
+  const promptStep = async (
+    context: StepHookContext,
+    heading: string,
+    commands: Record<string, string>,
+  ): Promise<{command: string; step: ActionStep}> => {
+    let step = context.step
+    print(heading)
+    print(`   ${JSON.stringify(step)}`)
+    while (true) {
+      const line = (await options.prompt('debug> ')).trim()
+      const [name] = line.split(/\s+/)
+      const argument = line.slice(name.length).trim()
+      if (commands[name] !== undefined) {
+        return {command: commands[name], step}
+      }
+
+      try {
+        switch (name) {
+          case 'selector':
+          case 'value':
+            if (!argument) {
+              print(`${name}: ${step[name] ?? '(none)'}`)
+            } else {
+              step = {...step, [name]: argument}
+              recordEdit(context.stepNumber, name, argument)
+              print(`${name} set to ${argument}`)
+            }
+            break
+          case 'x':
+          case 'eval': {
+            if (!argument) {
+              print('Usage: eval <selector>')
+              break
+            }
+            const locator = context.page.locator(argument)
+            const count = await locator.count()
+            if (count > 0) {
+              await locator.highlight()
+            }
+            print(`${count} element(s) match ${argument}`)
+            break
+          }
+          case 'shot': {
+            const fileName = `debug-${String(context.stepNumber).replace(/[^\w.-]/g, '_')}-${Date.now()}.png`
+            const path = join(context.config.logging.outputDir, 'screenshots', fileName)
+            await context.page.screenshot({path, fullPage: true})
+            print(`Screenshot saved: ${path}`)
+            break
+          }
+          case 'vars':
+            print(JSON.stringify(context.variables, null, 2))
+            break
+          case 'save': {
+            if (!options.scriptPath) {
+              print('No script file to save to')
+              break
+            }
+            const result = await saveEdits(options.scriptPath, [...edits.values()])
+            print(result.success ? `Saved ${result.data} edited step(s) to ${options.scriptPath}` : result.error)
+            break
+          }
+          case 'help':
+          case '?':
+            HELP.forEach((helpLine) => print(helpLine))
+            break
+          default:
+            print(`Unknown command '${name}', type 'help' for the list`)
+        }
+      } catch (error) {
+        print(`⚠ ${error instanceof Error ? error.message : String(error)}`)
+      }
+    }
+  }
+
+  return {
+    beforeAll: (context) => {
+      script = context.script
+    },
+    beforeStep: async (context) => {
+      // Quitting ends the main steps; setup and teardown steps still run, without pausing
+      if (stopped) {
+        if (isSetupOrTeardown(context.stepNumber)) {
+          return
+        }
+        throw new Error('Stopped in debugger')
+      }
+      if (!paused) {
+        return
+      }
+      const {command, step} = await promptStep(
+        context,
+        `⏸  Step ${context.stepNumber}: ${describeStep(context.step)}`,
+        STEP_COMMANDS,
+      )
+      if (command === 'quit') {
+        stopped = true
+        throw new Error('Stopped in debugger')
+      }
+      paused = command !== 'continue'
+      return command === 'skip' ? {skip: true} : {step}
+    },
+    onError: async (context) => {
+      if (stopped) {
+        return
+      }
+      const {command, step} = await promptStep(
+        context,
+        `✗  Step ${context.stepNumber} failed: ${context.error}`,
+        FAILURE_COMMANDS,
+      )
+      if (command === 'quit') {
+        stopped = true
+        throw new Error('Stopped in debugger')
+      }
+      if (command === 'retry') {
+        return {retry: true, step}
+      }
+      return {recover: command === 'skip'}
+    },
+  }
+}
+
+/**
+ * Prompt reading commands from the terminal; Ctrl+C cancels the run like outside the prompt
+ */
+export function createTerminalPrompt(): {prompt: (question: string) => Promise<string>; close: () => void} {
+  const readline = createInterface({input: process.stdin, output: process.stdout})
+  let closed = false
+  let pending: ((line: string) => void) | undefined
+
+  readline.on('close', () => {
+    closed = true
+    pending?.('quit')
+  })
+  readline.on('SIGINT', () => {
+    readline.close()
+    process.emit('SIGINT')
+  })
+
+  return {
+    prompt: (question) =>
+      new Promise((resolve) => {
+        if (closed) {
+          resolve('quit')
+          return
+        }
+        pending = resolve
+        readline.question(question, (line) => {
+          pending = undefined
+          resolve(line)
+        })
+      }),
+    close: () => readline.close(),
+  }
+}
+
+/**
+ * Whether a step belongs to the setup or teardown of the script, e.g. `teardown.2` or `setup.1.then.1`
+ */
+function isSetupOrTeardown(stepNumber: StepNumber): boolean {
+  return /^(setup|teardown)\./.test(String(stepNumber))
+}
+
+/**
+ * Location of a step in the script file, e.g. `['steps', 2, 'then', 0]` for step `3.then.1`;
+ * undefined for steps of called functions
+ */
+function getStepPath(script: AutomationScript, stepNumber: StepNumber): (string | number)[] | undefined {
+  // Loop iterations (`2[3].1`) share the steps of the loop
+  const segments = String(stepNumber)
+    .replace(/\[\d+\]/g, '')
+    .split('.')
+  let path: (string | number)[] = ['steps']
+  let steps: ActionStep[] | undefined = script.steps
+  if (segments[0] === 'setup' || segments[0] === 'teardown') {
+    path = [segments[0]]
+    steps = script[segments[0]]
+    segments.shift()
+  }
+
+  let i = 0
+  while (steps) {
+    const index = Number(segments[i++]) - 1
+    const step: ActionStep | undefined = steps[index]
+    if (!step) {
+      return undefined
+    }
+    path.push(index)
+    if (i === segments.length) {
+      return path
+    }
+
+    // Branches are named in the step number, loop steps are not
+    const branch = Number.isNaN(Number(segments[i])) ? segments[i++] : undefined
+    const nested = getNestedSteps(step).find((candidate) => candidate.path === branch)
+    if (nested) {
+      path.push(nested.branch)
+    }
+    steps = nested?.steps
+  }
+  return undefined
+}
+
+/**
+ * Write edited fields back to a JSON or YAML script file; returns the number of edited steps
+ */
+async function saveEdits(filePath: string, edits: StepEdit[]): Promise<Result<number>> {
+  const format = getScriptFormat(filePath)
+  if (isScriptModule(filePath) || format === 'json5') {
+    return failure('Saving edits is supported for JSON and YAML scripts only')
+  }
+
+  try {
+    const content = await readFile(filePath, 'utf-8')
+    if (format === 'yaml') {
+      // Edit the document in place to keep comments and formatting
+      const document = parseDocument(content)
+      for (const edit of edits) {
+        for (const [field, value] of Object.entries(edit.fields)) {
+          document.setIn([...edit.path, field], value)
+        }
+      }
+      await writeFile(filePath, String(document))
+    } else {
+      const data = JSON.parse(content)
+      for (const edit of edits) {
+        const step = edit.path.reduce((parent, key) => parent[key], data)
+        Object.assign(step, edit.fields)
+      }
+      await writeFile(filePath, `${JSON.stringify(data, null, 2)}\n`)
+    }
+    return success(edits.length)
+  } catch (error) {
+    return failure(`Failed to save edits to ${filePath}: ${error}`)
+  }
+}
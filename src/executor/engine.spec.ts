@@ -1,5 +1,10 @@
-import {describe, it, expect, beforeEach, vi, type MockedFunction} from 'vitest'
-import {executeScript} from './engine.js'
+import {describe, it, expect, beforeEach, afterEach, vi, type MockedFunction} from 'vitest'
+import {mkdtemp, rm, writeFile} from 'fs/promises'
+import {tmpdir} from 'os'
+import {join} from 'path'
+import {executeScript, formatExecutionResult} from './engine.js'
+import {createRunner} from './runner.js'
+import {Checkpoint, loadCheckpoint} from './checkpoint.js'
 import {AutoConfig} from '../config/index.js'
 import {AutomationScript} from '../types/index.js'
 import {BrowserController} from '../browser/controller.js'
@@ -11,6 +16,9 @@ vi.mock('../browser/controller.js', () => ({
   initializeBrowser: vi.fn(),
   closeBrowser: vi.fn(),
   executeActionStep: vi.fn(),
+  executeTabAction: vi.fn(),
+  isTabAction: vi.fn().mockReturnValue(false),
+  describePage: vi.fn().mockReturnValue('tab 0'),
 }))
 
 // Mock logger
@@ -31,12 +39,12 @@ vi.mock('../utils/logger.js', () => ({
       logsByLevel: {INFO: 3, ERROR: 1, WARN: 1},
       duration: 2500,
       logFilePath: './logs/test-session.log',
-      screenshots: []
+      screenshots: [],
     }),
     getExecutionTimeline: vi.fn().mockReturnValue([]),
     exportLogs: vi.fn().mockResolvedValue('./logs/export.json'),
-    cleanup: vi.fn().mockResolvedValue(undefined)
-  }))
+    cleanup: vi.fn().mockResolvedValue(undefined),
+  })),
 }))
 
 // Mock parser and validator
@@ -50,6 +58,18 @@ vi.mock('../actions/validator.js', () => ({
   formatValidationResults: vi.fn(),
 }))
 
+vi.mock('./condition.js', () => ({
+  evaluateCondition: vi.fn(),
+  describeCondition: vi.fn().mockReturnValue('condition'),
+}))
+
+// Mock assertion evaluation
+vi.mock('./assertion.js', () => ({
+  evaluateAssertion: vi.fn(),
+  describeAssertion: vi.fn().mockReturnValue('Assert title equals "Home"'),
+  isAssertAction: vi.fn().mockImplementation((step) => step.type.startsWith('assert')),
+}))
+
 // Mock error handler
 vi.mock('../utils/error-handler.js', () => ({
   executeWithSmartRetry: vi.fn(),
@@ -145,6 +165,25 @@ describe('Engine', () => {
       expect(mockExecuteWithSmartRetry).toHaveBeenCalledTimes(1)
     })
 
+    it('should run route steps with glob and regex URL patterns', async () => {
+      const validator = await vi.importActual<typeof import('../actions/validator.js')>('../actions/validator.js')
+      mockValidateScript.mockImplementation(validator.validateScript)
+      const script: AutomationScript = {
+        name: 'Routes',
+        steps: [
+          {type: 'route', url: '**/api/user', json: {name: 'Kim'}},
+          {type: 'route', url: '/analytics/', abort: 'blockedbyclient'},
+          {type: 'navigate', url: 'https://example.com/leave'},
+          {type: 'unroute', url: '**/api/user'},
+        ],
+      }
+
+      const result = await executeScript(script, config)
+
+      expect(result.success && result.data.success).toBe(true)
+      expect(mockExecuteWithSmartRetry).toHaveBeenCalledTimes(4)
+    })
+
     it('should handle script execution failure', async () => {
       const script: AutomationScript = {
         name: 'Test Script',
@@ -281,8 +320,8 @@ describe('Engine', () => {
 
       // Mock second step failure
       mockExecuteWithSmartRetry
-        .mockResolvedValueOnce({success: true, data: undefined})   // First step succeeds
-        .mockResolvedValueOnce({success: false, error: 'Element not found'})  // Second step fails
+        .mockResolvedValueOnce({success: true, data: undefined}) // First step succeeds
+        .mockResolvedValueOnce({success: false, error: 'Element not found'}) // Second step fails
 
       const result = await executeScript(script, config)
 
@@ -321,6 +360,342 @@ describe('Engine', () => {
       }
     })
 
+    it('should substitute extracted variables in later steps', async () => {
+      const script: AutomationScript = {
+        name: 'Test Script',
+        steps: [
+          {
+            type: 'extract',
+            selector: 'h1',
+            variable: 'title',
+            multiple: false,
+          },
+          {
+            type: 'type',
+            selector: '#search',
+            value: 'Find ${vars.title}',
+          },
+        ],
+      }
+
+      mockExecuteWithSmartRetry.mockImplementation((operation: () => Promise<unknown>) => operation())
+      mockExecuteActionStep.mockImplementation(
+        async (_page: unknown, step: any, _config: unknown, _logger: unknown, _n: unknown, variables: any) => {
+          if (step.type === 'extract') {
+            variables[step.variable] = 'Quotes'
+          }
+          return {success: true, data: undefined}
+        },
+      )
+
+      const result = await executeScript(script, config)
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.variables).toEqual({title: 'Quotes'})
+      }
+      expect(mockExecuteActionStep.mock.calls[1][1].value).toBe('Find Quotes')
+    })
+
+    it('should run the branch matching the condition', async () => {
+      const {evaluateCondition} = await import('./condition.js')
+      vi.mocked(evaluateCondition).mockResolvedValue({success: true, data: false})
+
+      const script: AutomationScript = {
+        name: 'Test Script',
+        steps: [
+          {
+            type: 'if',
+            condition: {selector: '#logout'},
+            then: [{type: 'click', selector: '#logout'}],
+            else: [
+              {type: 'type', selector: '#user', value: 'alice'},
+              {type: 'click', selector: '#login'},
+            ],
+          },
+        ],
+      }
+
+      const result = await executeScript(script, config)
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.success).toBe(true)
+        expect(result.data.stepsExecuted).toBe(1)
+        expect(result.data.logs.filter((log) => log.step !== 0).map((log) => log.step)).toEqual([
+          1,
+          '1.else.1',
+          '1.else.2',
+        ])
+      }
+      expect(mockExecuteWithSmartRetry).toHaveBeenCalledTimes(2)
+    })
+
+    it('should fail the if step when a nested step fails', async () => {
+      const {evaluateCondition} = await import('./condition.js')
+      vi.mocked(evaluateCondition).mockResolvedValue({success: true, data: true})
+      mockExecuteWithSmartRetry.mockResolvedValue({success: false, error: 'Element not found'})
+
+      const script: AutomationScript = {
+        name: 'Test Script',
+        steps: [
+          {type: 'if', condition: {selector: '#logout'}, then: [{type: 'click', selector: '#logout'}]},
+          {type: 'screenshot'},
+        ],
+      }
+
+      const result = await executeScript(script, config)
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.success).toBe(false)
+        expect(result.data.stepsExecuted).toBe(0)
+        expect(result.data.logs.some((log) => log.step === '1.then.1' && log.status === 'error')).toBe(true)
+      }
+    })
+
+    it('should repeat nested steps and record the iteration', async () => {
+      const script: AutomationScript = {
+        name: 'Test Script',
+        steps: [{type: 'repeat', times: 3, steps: [{type: 'click', selector: '.more'}]}],
+      }
+
+      const result = await executeScript(script, config)
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.success).toBe(true)
+        const clicks = result.data.logs.filter((log) => log.action === 'click')
+        expect(clicks.map((log) => log.step)).toEqual(['1[1].1', '1[2].1', '1[3].1'])
+        expect(clicks.map((log) => log.iteration)).toEqual([1, 2, 3])
+      }
+      expect(mockExecuteWithSmartRetry).toHaveBeenCalledTimes(3)
+    })
+
+    it('should bind each item of a list in forEach', async () => {
+      const script: AutomationScript = {
+        name: 'Test Script',
+        steps: [
+          {type: 'extract', selector: '.row', variable: 'rows'},
+          {type: 'forEach', items: 'rows', as: 'row', steps: [{type: 'type', selector: '#q', value: '${vars.row}'}]},
+        ],
+      }
+
+      mockExecuteWithSmartRetry.mockImplementation((operation: () => Promise<unknown>) => operation())
+      mockExecuteActionStep.mockImplementation(
+        async (_page: unknown, step: any, _config: unknown, _logger: unknown, _n: unknown, variables: any) => {
+          if (step.type === 'extract') {
+            variables[step.variable] = ['a', 'b']
+          }
+          return {success: true, data: undefined}
+        },
+      )
+
+      const result = await executeScript(script, config)
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.success).toBe(true)
+        expect(result.data.variables.rowIndex).toBe(1)
+      }
+      const typedValues = mockExecuteActionStep.mock.calls.slice(1).map((call: any[]) => call[1].value)
+      expect(typedValues).toEqual(['a', 'b'])
+    })
+
+    it('should fail forEach over a missing list', async () => {
+      const script: AutomationScript = {
+        name: 'Test Script',
+        steps: [{type: 'forEach', items: 'rows', steps: [{type: 'screenshot'}]}],
+      }
+
+      const result = await executeScript(script, config)
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.success).toBe(false)
+        expect(result.data.error).toBe('forEach items vars.rows is not a list')
+      }
+    })
+
+    it('should stop while loops at maxIterations', async () => {
+      const {evaluateCondition} = await import('./condition.js')
+      vi.mocked(evaluateCondition).mockResolvedValue({success: true, data: true})
+
+      const script: AutomationScript = {
+        name: 'Test Script',
+        steps: [
+          {
+            type: 'while',
+            condition: {selector: '.next a'},
+            maxIterations: 2,
+            steps: [{type: 'click', selector: '.next a'}],
+          },
+        ],
+      }
+
+      const result = await executeScript(script, config)
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.success).toBe(false)
+        expect(result.data.error).toBe('While loop reached maxIterations (2)')
+      }
+      expect(mockExecuteWithSmartRetry).toHaveBeenCalledTimes(2)
+    })
+
+    it('should route tab actions to the page collection', async () => {
+      const browserModule = await import('../browser/controller.js')
+      vi.mocked(browserModule.isTabAction).mockImplementation((step) => step.type === 'newTab')
+      vi.mocked(browserModule.executeTabAction).mockResolvedValue({success: true, data: undefined})
+      vi.mocked(browserModule.describePage).mockReturnValueOnce('tab 1 (docs)')
+      mockExecuteWithSmartRetry.mockImplementation((operation: () => Promise<unknown>) => operation())
+
+      const script: AutomationScript = {
+        name: 'Test Script',
+        steps: [{type: 'newTab', url: 'https://example.com', alias: 'docs'}],
+      }
+
+      const result = await executeScript(script, config)
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.success).toBe(true)
+        expect(result.data.logs.find((log) => log.action === 'newTab')?.page).toBe('tab 1 (docs)')
+      }
+      expect(browserModule.executeTabAction).toHaveBeenCalled()
+      expect(mockExecuteActionStep).not.toHaveBeenCalled()
+      vi.mocked(browserModule.isTabAction).mockReturnValue(false)
+    })
+
+    it('should stop at a failed hard assertion', async () => {
+      const {evaluateAssertion} = await import('./assertion.js')
+      vi.mocked(evaluateAssertion).mockResolvedValue({
+        success: true,
+        data: {passed: false, expected: 'equals "Home"', actual: '"Dashboard"'},
+      })
+
+      const script: AutomationScript = {
+        name: 'Test Script',
+        steps: [
+          {type: 'assertTitle', equals: 'Home'},
+          {type: 'click', selector: '#next'},
+        ],
+      }
+
+      const result = await executeScript(script, config)
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.success).toBe(false)
+        expect(result.data.error).toBe(
+          'Assertion failed: Assert title equals "Home": expected equals "Home", actual "Dashboard"',
+        )
+        expect(result.data.logs.find((log) => log.step === 1)).toMatchObject({
+          status: 'error',
+          expected: 'equals "Home"',
+          actual: '"Dashboard"',
+        })
+      }
+      expect(mockExecuteWithSmartRetry).not.toHaveBeenCalled()
+    })
+
+    it('should collect soft assertion failures and continue', async () => {
+      const {evaluateAssertion} = await import('./assertion.js')
+      vi.mocked(evaluateAssertion).mockResolvedValue({
+        success: true,
+        data: {passed: false, expected: 'equals "Home"', actual: '"Dashboard"'},
+      })
+
+      const script: AutomationScript = {
+        name: 'Test Script',
+        steps: [
+          {type: 'assertTitle', equals: 'Home', soft: true},
+          {type: 'click', selector: '#next'},
+        ],
+      }
+
+      const result = await executeScript(script, config)
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.success).toBe(false)
+        expect(result.data.stepsExecuted).toBe(2)
+        expect(result.data.error).toBe('1 soft assertion(s) failed')
+        expect(result.data.softFailures).toEqual([
+          {step: 1, message: 'Assert title equals "Home"', expected: 'equals "Home"', actual: '"Dashboard"'},
+        ])
+
+        const output = formatExecutionResult(result.data)
+        expect(output).toContain('Soft assertion failures: 1')
+        expect(output).toContain('expected: equals "Home"')
+        expect(output).toContain('actual:   "Dashboard"')
+      }
+      expect(mockExecuteWithSmartRetry).toHaveBeenCalledTimes(1)
+    })
+
+    it('should call functions with parameters and hand back returns', async () => {
+      mockExecuteWithSmartRetry.mockImplementation((operation: () => Promise<unknown>) => operation())
+      mockExecuteActionStep.mockImplementation(
+        async (_page: unknown, step: any, _config: unknown, _logger: unknown, _n: unknown, variables: any) => {
+          if (step.type === 'extract') {
+            variables[step.variable] = `token-for-${variables.user}`
+          }
+          return {success: true, data: undefined}
+        },
+      )
+
+      const script: AutomationScript = {
+        name: 'Test Script',
+        functions: {
+          login: {
+            params: ['user'],
+            returns: ['token'],
+            steps: [
+              {type: 'type', selector: '#user', value: '${vars.user}'},
+              {type: 'extract', selector: '#token', variable: 'token'},
+            ],
+          },
+        },
+        steps: [
+          {type: 'extract', selector: 'h1', variable: 'name'},
+          {type: 'call', function: 'login', params: {user: 'alice'}, variable: 'session'},
+        ],
+      }
+
+      const result = await executeScript(script, config)
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.success).toBe(true)
+        expect(result.data.variables.session).toEqual({token: 'token-for-alice'})
+        expect(result.data.variables.user).toBeUndefined()
+        expect(result.data.logs.filter((log) => log.step !== 0).map((log) => log.step)).toEqual([1, '2.1', '2.2', 2])
+      }
+      expect(mockExecuteActionStep.mock.calls[1][1].value).toBe('alice')
+    })
+
+    it('should run called scripts with their own functions', async () => {
+      const script: AutomationScript = {
+        name: 'Test Script',
+        includes: {
+          '/scripts/login.json': {
+            name: 'Login',
+            functions: {submit: {steps: [{type: 'click', selector: '#submit'}]}},
+            steps: [{type: 'call', function: 'submit'}],
+          },
+        },
+        steps: [{type: 'call', script: '/scripts/login.json'}],
+      }
+
+      const result = await executeScript(script, config)
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.success).toBe(true)
+        expect(result.data.logs.find((log) => log.step === '1.1.1')?.action).toBe('click')
+      }
+    })
+
     it('should handle screenshot steps', async () => {
       const script: AutomationScript = {
         name: 'Test Script',
@@ -347,4 +722,688 @@ describe('Engine', () => {
       }
     })
   })
-}) 
\ No newline at end of file
+
+  describe('setup and teardown', () => {
+    const script: AutomationScript = {
+      name: 'HR Export',
+      setup: [{type: 'navigate', url: 'https://hr.example.com/login'}],
+      steps: [{type: 'click', selector: '#export'}],
+      teardown: [{type: 'click', selector: '#logout'}, {type: 'screenshot'}],
+    }
+
+    it('should run teardown after a failed step and report both failures apart', async () => {
+      mockExecuteWithSmartRetry
+        .mockResolvedValueOnce({success: true, data: undefined})
+        .mockResolvedValueOnce({success: false, error: 'Export button not found'})
+        .mockResolvedValueOnce({success: false, error: 'Logout link not found'})
+        .mockResolvedValueOnce({success: true, data: 'final.png'})
+
+      const result = await executeScript(script, config)
+
+      expect(mockExecuteWithSmartRetry).toHaveBeenCalledTimes(4)
+      if (result.success) {
+        expect(result.data.success).toBe(false)
+        expect(result.data.error).toBe('Export button not found')
+        expect(result.data.teardownErrors).toEqual(['Step teardown.1: Logout link not found'])
+        expect(result.data.logs.map((log) => log.step)).toContain('setup.1')
+      }
+    })
+
+    it('should fail the run when only teardown fails', async () => {
+      mockExecuteWithSmartRetry
+        .mockResolvedValueOnce({success: true, data: undefined})
+        .mockResolvedValueOnce({success: true, data: undefined})
+        .mockResolvedValueOnce({success: false, error: 'Logout link not found'})
+
+      const result = await executeScript(script, config)
+
+      if (result.success) {
+        expect(result.data.success).toBe(false)
+        expect(result.data.stepsExecuted).toBe(1)
+        expect(result.data.error).toBe('1 teardown step(s) failed')
+      }
+    })
+
+    it('should skip the main steps when setup fails', async () => {
+      mockExecuteWithSmartRetry.mockResolvedValueOnce({success: false, error: 'Login page unavailable'})
+
+      const result = await executeScript(script, config)
+
+      expect(mockExecuteWithSmartRetry).toHaveBeenCalledTimes(3) // setup and both teardown steps
+      if (result.success) {
+        expect(result.data.error).toBe('Setup failed: Login page unavailable')
+        expect(result.data.stepsExecuted).toBe(0)
+      }
+    })
+  })
+
+  describe('failure policies', () => {
+    it('should go on after failures with continueOnError and report them', async () => {
+      config.actions.continueOnError = true
+      mockExecuteWithSmartRetry
+        .mockResolvedValueOnce({success: false, error: 'Element not found'})
+        .mockResolvedValueOnce({success: true, data: undefined})
+
+      const result = await executeScript(
+        {
+          name: 'Continue',
+          steps: [
+            {type: 'click', selector: '#missing'},
+            {type: 'click', selector: '#a'},
+          ],
+        },
+        config,
+      )
+
+      expect(mockExecuteWithSmartRetry).toHaveBeenCalledTimes(2)
+      if (result.success) {
+        expect(result.data.success).toBe(false)
+        expect(result.data.error).toBe('1 step(s) failed')
+        expect(result.data.stepsExecuted).toBe(1)
+        expect(result.data.failedSteps).toEqual([{step: 1, error: 'Element not found', onFailure: 'continue'}])
+        expect(result.data.logs.filter((log) => log.step === 1).map((log) => log.status)).toEqual(['error', 'warning'])
+      }
+    })
+
+    it('should skip the rest of a nested step list and go on after the parent', async () => {
+      mockExecuteWithSmartRetry.mockResolvedValueOnce({success: false, error: 'Row button missing'})
+
+      const result = await executeScript(
+        {
+          name: 'Skip rest',
+          steps: [
+            {
+              type: 'repeat',
+              times: 1,
+              steps: [
+                {type: 'click', selector: '#row', onFailure: 'skipRest'},
+                {type: 'click', selector: '#row-details'},
+              ],
+            },
+            {type: 'screenshot'},
+          ],
+        },
+        config,
+      )
+
+      expect(mockExecuteWithSmartRetry).toHaveBeenCalledTimes(2)
+      if (result.success) {
+        expect(result.data.stepsExecuted).toBe(2)
+        expect(result.data.failedSteps).toEqual([{step: '1[1].1', error: 'Row button missing', onFailure: 'skipRest'}])
+      }
+    })
+
+    it('should jump to the labelled step', async () => {
+      mockExecuteWithSmartRetry.mockResolvedValueOnce({success: false, error: 'Form not found'})
+
+      const result = await executeScript(
+        {
+          name: 'Goto',
+          steps: [
+            {type: 'click', selector: '#form', onFailure: 'goto:logout'},
+            {type: 'type', selector: '#name', value: 'Kim'},
+            {type: 'click', selector: '#logout', label: 'logout'},
+          ],
+        },
+        config,
+      )
+
+      expect(mockExecuteWithSmartRetry).toHaveBeenCalledTimes(2)
+      expect(mockExecuteWithSmartRetry.mock.calls[1][2]).toMatchObject({selector: '#logout'})
+      if (result.success) {
+        expect(result.data.logs.find((log) => log.step === 1 && log.status === 'warning')?.message).toBe(
+          "Jumping to step 'logout' after failure",
+        )
+      }
+    })
+
+    it('should jump to the step with the target id', async () => {
+      mockExecuteWithSmartRetry.mockResolvedValueOnce({success: false, error: 'Form not found'})
+
+      await executeScript(
+        {
+          name: 'Goto',
+          steps: [
+            {type: 'click', selector: '#form', onFailure: 'goto:logout'},
+            {type: 'type', selector: '#name', value: 'Kim'},
+            {type: 'click', selector: '#logout', id: 'logout'},
+          ],
+        },
+        config,
+      )
+
+      expect(mockExecuteWithSmartRetry).toHaveBeenCalledTimes(2)
+      expect(mockExecuteWithSmartRetry.mock.calls[1][2]).toMatchObject({selector: '#logout'})
+    })
+
+    it('should let optional steps of any action fail without failing the run', async () => {
+      mockExecuteWithSmartRetry.mockResolvedValueOnce({success: false, error: 'Input not found'})
+
+      const result = await executeScript(
+        {name: 'Optional', steps: [{type: 'type', selector: '#promo', value: 'SALE', optional: true}]},
+        config,
+      )
+
+      if (result.success) {
+        expect(result.data.success).toBe(true)
+        expect(result.data.failedSteps).toEqual([])
+        expect(result.data.logs.find((log) => log.step === 1 && log.status === 'warning')?.message).toBe(
+          'Optional step failed: Input not found',
+        )
+      }
+    })
+  })
+
+  describe('cancellation', () => {
+    const script: AutomationScript = {
+      name: 'Long Export',
+      steps: [
+        {type: 'click', selector: '#export'},
+        {type: 'click', selector: '#download'},
+      ],
+      teardown: [{type: 'click', selector: '#logout'}],
+    }
+
+    it('should abort the current step, run teardown and mark the result cancelled', async () => {
+      const controller = new AbortController()
+      mockExecuteWithSmartRetry
+        .mockImplementationOnce(() => {
+          controller.abort(new Error('interrupted by SIGINT'))
+          return new Promise((resolve) => setTimeout(() => resolve({success: false, error: 'Target closed'}), 10))
+        })
+        .mockResolvedValueOnce({success: true, data: undefined})
+
+      const result = await executeScript(script, config, {signal: controller.signal})
+
+      expect(mockExecuteWithSmartRetry).toHaveBeenCalledTimes(2)
+      expect(mockExecuteWithSmartRetry.mock.calls[1][2]).toMatchObject({selector: '#logout'})
+      if (result.success) {
+        expect(result.data).toMatchObject({
+          success: false,
+          cancelled: true,
+          stepsExecuted: 0,
+          error: 'Execution cancelled: interrupted by SIGINT',
+        })
+        expect(result.data.logs.find((log) => log.step === 1)?.status).toBe('cancelled')
+      }
+    })
+
+    it('should cancel the run when maxDuration elapses', async () => {
+      mockExecuteWithSmartRetry
+        .mockImplementationOnce((...args: unknown[]) => {
+          const signal = args[5] as AbortSignal
+          return new Promise((resolve) =>
+            signal.addEventListener('abort', () => resolve({success: false, error: 'Target closed'})),
+          )
+        })
+        .mockResolvedValueOnce({success: true, data: undefined})
+
+      const result = await executeScript({...script, maxDuration: 20}, config)
+
+      if (result.success) {
+        expect(result.data.cancelled).toBe(true)
+        expect(result.data.error).toBe('Execution cancelled: maxDuration of 20ms exceeded')
+      }
+    })
+
+    it('should pass the signal to the step and start teardown once the cancelled step settled', async () => {
+      const controller = new AbortController()
+      const order: string[] = []
+      mockExecuteWithSmartRetry
+        .mockImplementationOnce(async (...args: unknown[]) => {
+          controller.abort()
+          expect((args[5] as AbortSignal).aborted).toBe(true)
+          await new Promise((resolve) => setTimeout(resolve, 20))
+          order.push('export')
+          return {success: false, error: 'Target closed'}
+        })
+        .mockImplementationOnce(async () => {
+          order.push('logout')
+          return {success: true, data: undefined}
+        })
+
+      const result = await executeScript(script, config, {signal: controller.signal})
+
+      expect(order).toEqual(['export', 'logout'])
+      expect(result.success && result.data.cancelled).toBe(true)
+    })
+
+    it('should not start steps when the signal is already aborted', async () => {
+      const controller = new AbortController()
+      controller.abort()
+
+      const result = await executeScript({...script, teardown: undefined}, config, {signal: controller.signal})
+
+      expect(mockExecuteWithSmartRetry).not.toHaveBeenCalled()
+      expect(result.success && result.data.cancelled).toBe(true)
+    })
+  })
+
+  describe('step selection', () => {
+    const steps = [
+      {type: 'click' as const, selector: '#login', label: 'login'},
+      {type: 'click' as const, selector: '#search', tags: ['smoke']},
+      {type: 'click' as const, selector: '#cart'},
+      {type: 'click' as const, selector: '#pay', label: 'checkout', tags: ['smoke']},
+    ]
+
+    it('should run the selected range and log the other steps as skipped', async () => {
+      const result = await executeScript({name: 'Subset', steps}, config, {steps: {from: '2', to: 'checkout'}})
+
+      expect(mockExecuteWithSmartRetry).toHaveBeenCalledTimes(3)
+      if (result.success) {
+        expect(result.data.success).toBe(true)
+        expect(result.data.stepsExecuted).toBe(3)
+        expect(result.data.stepsSkipped).toBe(1)
+        expect(result.data.logs.find((log) => log.step === 1)).toMatchObject({
+          status: 'skipped',
+          message: 'Not selected',
+        })
+        expect(formatExecutionResult(result.data)).toContain('SUCCESS: 3 selected steps completed, 1 skipped')
+      }
+    })
+
+    it('should run only tagged steps and report skipped steps to listeners', async () => {
+      const stepEnd = vi.fn()
+      const runner = createRunner(config).on('step:end', stepEnd)
+
+      await runner.run({name: 'Subset', steps}, {steps: {only: ['smoke']}})
+
+      expect(mockExecuteWithSmartRetry).toHaveBeenCalledTimes(2)
+      expect(stepEnd.mock.calls.map(([{stepNumber, status}]) => `${stepNumber} ${status}`)).toEqual([
+        '1 skipped',
+        '2 success',
+        '3 skipped',
+        '4 success',
+      ])
+    })
+
+    it('should fail before launching the browser for unknown steps', async () => {
+      const result = await executeScript({name: 'Subset', steps}, config, {steps: {from: 'logout'}})
+
+      expect(result).toEqual({
+        success: false,
+        error: "Step selection: no step with number, id or label 'logout' for 'from'",
+      })
+      expect(mockInitializeBrowser).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('checkpoints', () => {
+    let dir: string
+    const storageState: Checkpoint['storageState'] = {
+      cookies: [
+        {
+          name: 'session',
+          value: 'abc',
+          domain: 'app.example.com',
+          path: '/',
+          expires: -1,
+          httpOnly: true,
+          secure: true,
+          sameSite: 'Lax',
+        },
+      ],
+      origins: [],
+    }
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'auto-run-engine-'))
+      config.logging.outputDir = dir
+      mockInitializeBrowser.mockResolvedValue({
+        success: true,
+        data: {
+          page: {screenshot: vi.fn(), url: () => 'https://app.example.com/orders', goto: vi.fn()},
+          browser: {},
+          context: {storageState: vi.fn().mockResolvedValue(storageState)},
+        },
+      })
+    })
+
+    afterEach(async () => {
+      await rm(dir, {recursive: true, force: true})
+    })
+
+    const script: AutomationScript = {
+      name: 'Orders',
+      setup: [{type: 'navigate', url: '/login'}],
+      steps: [{type: 'navigate', url: '/orders'}, {type: 'click', selector: '#export'}, {type: 'screenshot'}],
+      teardown: [{type: 'click', selector: '#logout'}],
+    }
+
+    it('should save a checkpoint at the failed step before teardown', async () => {
+      mockExecuteWithSmartRetry
+        .mockResolvedValueOnce({success: true, data: undefined})
+        .mockResolvedValueOnce({success: true, data: undefined})
+        .mockResolvedValueOnce({success: false, error: 'Element not found: #export'})
+
+      const result = await executeScript(script, config, {variables: {user: 'kim'}, scriptPath: '/scripts/orders.json'})
+
+      expect(result.success && result.data.checkpointPath).toBe(join(dir, 'checkpoint-test-session-123.json'))
+      const checkpoint = await loadCheckpoint(dir, 'test-session-123')
+      expect(checkpoint).toMatchObject({
+        success: true,
+        data: {
+          script: 'Orders',
+          scriptPath: '/scripts/orders.json',
+          stepIndex: 1,
+          error: 'Element not found: #export',
+          url: 'https://app.example.com/orders',
+          variables: {user: 'kim'},
+          storageState,
+        },
+      })
+    })
+
+    it('should resume from the checkpoint without running setup', async () => {
+      const checkpoint: Checkpoint = {
+        sessionId: 'failed-session',
+        script: 'Orders',
+        stepIndex: 1,
+        error: 'Element not found: #export',
+        url: 'https://app.example.com/orders',
+        variables: {user: 'kim'},
+        storageState,
+        savedAt: new Date().toISOString(),
+      }
+
+      const result = await executeScript(script, config, {resume: checkpoint})
+
+      expect(mockInitializeBrowser).toHaveBeenCalledWith(config, expect.anything(), {storageState})
+      const {page} = (await mockInitializeBrowser.mock.results[0].value).data
+      expect(page.goto).toHaveBeenCalledWith('https://app.example.com/orders')
+      // #export, screenshot and the teardown step
+      expect(mockExecuteWithSmartRetry).toHaveBeenCalledTimes(3)
+      if (result.success) {
+        expect(result.data.success).toBe(true)
+        expect(result.data.variables).toEqual({user: 'kim'})
+        expect(result.data.logs.find((log) => log.step === 1)).toMatchObject({
+          status: 'skipped',
+          message: 'Completed before resume',
+        })
+      }
+    })
+  })
+
+  describe('sessions', () => {
+    let dir: string
+    let storageState: ReturnType<typeof vi.fn>
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'auto-run-engine-'))
+      storageState = vi.fn()
+      config.browser.authDir = dir
+      mockInitializeBrowser.mockResolvedValue({
+        success: true,
+        data: {page: {screenshot: vi.fn()}, browser: {}, context: {storageState}},
+      })
+    })
+
+    afterEach(async () => {
+      await rm(dir, {recursive: true, force: true})
+    })
+
+    it('should start with the session of the script', async () => {
+      await writeFile(join(dir, 'hr.json'), JSON.stringify({cookies: [], origins: []}))
+
+      const result = await executeScript({name: 'Report', storageState: 'hr', steps: []}, config)
+
+      expect(result.success).toBe(true)
+      expect(mockInitializeBrowser).toHaveBeenCalledWith(
+        {...config, browser: {...config.browser, storageState: 'hr'}},
+        expect.anything(),
+        {storageState: join(dir, 'hr.json')},
+      )
+    })
+
+    it('should fail before launching the browser when the session is missing', async () => {
+      const result = await executeScript({name: 'Report', storageState: 'admin', steps: []}, config)
+
+      expect(result).toEqual({
+        success: false,
+        error: `Session 'admin' not found at ${join(dir, 'admin.json')}, create it with: auto-run login <script> --profile admin`,
+      })
+      expect(mockInitializeBrowser).not.toHaveBeenCalled()
+    })
+
+    it('should save the session before teardown only when the steps succeeded', async () => {
+      const script: AutomationScript = {
+        name: 'Login',
+        saveStorageState: 'hr',
+        steps: [{type: 'click', selector: '#login'}],
+        teardown: [{type: 'click', selector: '#logout'}],
+      }
+      mockExecuteWithSmartRetry.mockResolvedValue({success: true, data: undefined})
+
+      const result = await executeScript(script, config)
+
+      expect(storageState).toHaveBeenCalledWith({path: join(dir, 'hr.json')})
+      expect(storageState.mock.invocationCallOrder[0]).toBeLessThan(
+        mockExecuteWithSmartRetry.mock.invocationCallOrder[1],
+      )
+      expect(result.success && result.data.logs.find((log) => log.action === 'session_save')).toMatchObject({
+        status: 'success',
+        message: `Session saved: ${join(dir, 'hr.json')}`,
+      })
+
+      storageState.mockClear()
+      mockExecuteWithSmartRetry.mockResolvedValueOnce({success: false, error: 'Element not found: #login'})
+      await executeScript(script, config)
+
+      expect(storageState).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('events', () => {
+    it('should emit run and step events in order', async () => {
+      const events: string[] = []
+      const runner = createRunner(config)
+        .on('run:start', ({script, totalSteps}) => events.push(`run:start ${script} ${totalSteps}`))
+        .on('step:start', ({stepNumber, summary}) => events.push(`step:start ${stepNumber} ${summary}`))
+        .on('step:end', ({stepNumber, status}) => events.push(`step:end ${stepNumber} ${status}`))
+        .on('screenshot', ({path}) => events.push(`screenshot ${path}`))
+        .on('run:end', ({result}) => events.push(`run:end ${result.success}`))
+      mockExecuteWithSmartRetry
+        .mockResolvedValueOnce({success: true, data: undefined})
+        .mockResolvedValueOnce({success: true, data: 'shot.png'})
+
+      await runner.run({
+        name: 'Events',
+        steps: [{type: 'click', selector: '#a'}, {type: 'screenshot'}],
+      })
+
+      expect(events).toEqual([
+        'run:start Events 2',
+        'step:start 1 Click #a',
+        'step:end 1 success',
+        'step:start 2 Take screenshot',
+        'screenshot shot.png',
+        'step:end 2 success',
+        'run:end true',
+      ])
+    })
+
+    it('should emit retries and failures', async () => {
+      const retry = vi.fn()
+      const stepEnd = vi.fn()
+      const runner = createRunner(config).on('step:retry', retry).on('step:end', stepEnd)
+      mockExecuteWithSmartRetry.mockImplementationOnce(async (...args: any[]) => {
+        const onRetry = args[4]
+        onRetry({attempt: 1, maxAttempts: 3, error: 'Timeout', delay: 1000})
+        return {success: false, error: 'Timeout'}
+      })
+
+      await runner.run({name: 'Events', steps: [{type: 'click', selector: '#slow'}]})
+
+      expect(retry).toHaveBeenCalledWith(
+        expect.objectContaining({stepNumber: 1, attempt: 1, maxAttempts: 3, error: 'Timeout', delay: 1000}),
+      )
+      expect(stepEnd).toHaveBeenCalledWith(expect.objectContaining({stepNumber: 1, status: 'failed', error: 'Timeout'}))
+    })
+
+    it('should report the failure of an optional step on step:end', async () => {
+      const stepEnd = vi.fn()
+      const runner = createRunner(config).on('step:end', stepEnd)
+      mockExecuteWithSmartRetry.mockResolvedValueOnce({success: false, error: 'Element not found: #banner'})
+
+      await runner.run({name: 'Events', steps: [{type: 'click', selector: '#banner', optional: true}]})
+
+      expect(stepEnd).toHaveBeenCalledWith(
+        expect.objectContaining({stepNumber: 1, status: 'success', optionalError: 'Element not found: #banner'}),
+      )
+    })
+
+    it('should keep running when a listener throws', async () => {
+      const runner = createRunner(config).on('step:start', () => {
+        throw new Error('dashboard offline')
+      })
+
+      const result = await runner.run({name: 'Events', steps: [{type: 'click', selector: '#a'}]})
+
+      expect(result.success && result.data.success).toBe(true)
+    })
+  })
+
+  describe('hooks', () => {
+    it('should run lifecycle and step hooks in order, config hooks first', async () => {
+      const calls: string[] = []
+      config.hooks = {
+        beforeAll: () => {
+          calls.push('config beforeAll')
+        },
+        beforeStep: ({stepNumber}) => {
+          calls.push(`config beforeStep ${stepNumber}`)
+        },
+      }
+      const script: AutomationScript = {
+        name: 'Hooks',
+        hooks: {
+          beforeStep: ({stepNumber}) => {
+            calls.push(`script beforeStep ${stepNumber}`)
+          },
+          afterStep: ({stepNumber, result}) => {
+            calls.push(`afterStep ${stepNumber} ${result.success}`)
+          },
+          afterAll: ({result}) => {
+            calls.push(`afterAll ${result.success}`)
+          },
+        },
+        steps: [{type: 'click', selector: '#a'}],
+      }
+
+      const result = await executeScript(script, config)
+
+      expect(result.success && result.data.success).toBe(true)
+      expect(calls).toEqual([
+        'config beforeAll',
+        'config beforeStep 1',
+        'script beforeStep 1',
+        'afterStep 1 true',
+        'afterAll true',
+      ])
+    })
+
+    it('should skip or modify steps from beforeStep', async () => {
+      const script: AutomationScript = {
+        name: 'Hooks',
+        hooks: {
+          beforeStep: ({step}) => (step.selector === '#skip' ? {skip: true} : {step: {...step, selector: '#changed'}}),
+        },
+        steps: [
+          {type: 'click', selector: '#skip'},
+          {type: 'click', selector: '#a'},
+        ],
+      }
+
+      const result = await executeScript(script, config)
+
+      expect(mockExecuteWithSmartRetry).toHaveBeenCalledTimes(1)
+      expect(mockExecuteWithSmartRetry.mock.calls[0][2]).toMatchObject({selector: '#changed'})
+      if (result.success) {
+        expect(result.data.stepsExecuted).toBe(2)
+        expect(result.data.logs.find((log) => log.step === 1)?.message).toBe('Skipped by beforeStep hook')
+      }
+    })
+
+    it('should recover failures from onError once and run afterAll after a failure', async () => {
+      const onError = vi.fn().mockReturnValue({recover: true})
+      const afterAll = vi.fn()
+      const script: AutomationScript = {
+        name: 'Hooks',
+        hooks: {onError, afterAll},
+        steps: [
+          {type: 'repeat', times: 1, steps: [{type: 'click', selector: '#cookie-banner'}]},
+          {type: 'click', selector: '#missing'},
+        ],
+      }
+      mockExecuteWithSmartRetry.mockResolvedValue({success: false, error: 'Element not found'})
+
+      const result = await executeScript(script, config)
+
+      expect(result.success && result.data.success).toBe(true)
+      expect(onError).toHaveBeenCalledTimes(2)
+      expect(onError.mock.calls[0][0]).toMatchObject({stepNumber: '1[1].1', error: 'Element not found'})
+
+      onError.mockReturnValue(undefined)
+      const failed = await executeScript({...script, steps: [script.steps[0]]}, config)
+
+      expect(failed.success && failed.data.success).toBe(false)
+      expect(onError).toHaveBeenCalledTimes(3) // not again for the failing repeat step
+      expect(afterAll).toHaveBeenLastCalledWith(
+        expect.objectContaining({result: expect.objectContaining({success: false})}),
+      )
+    })
+
+    it('should retry a failed step as returned by onError', async () => {
+      const onError = vi.fn().mockReturnValue({retry: true, step: {type: 'click', selector: '#fixed'}})
+      mockExecuteWithSmartRetry.mockResolvedValueOnce({success: false, error: 'Element not found'})
+
+      const result = await executeScript({name: 'Hooks', steps: [{type: 'click', selector: '#broken'}]}, config, {
+        hooks: {onError},
+      })
+
+      expect(result.success && result.data.success).toBe(true)
+      expect(onError).toHaveBeenCalledTimes(1)
+      expect(mockExecuteWithSmartRetry.mock.calls[1][2]).toMatchObject({selector: '#fixed'})
+      if (result.success) {
+        expect(result.data.logs.filter((log) => log.step === 1).map((log) => log.status)).toEqual([
+          'error',
+          'warning',
+          'success',
+        ])
+      }
+    })
+
+    it('should stop retrying a step that keeps failing', async () => {
+      const onError = vi.fn().mockReturnValue({retry: true})
+      mockExecuteWithSmartRetry.mockResolvedValue({success: false, error: 'Element not found'})
+
+      const result = await executeScript({name: 'Hooks', steps: [{type: 'click', selector: '#broken'}]}, config, {
+        hooks: {onError},
+      })
+
+      expect(result.success && result.data.success).toBe(false)
+      expect(onError).toHaveBeenCalledTimes(11)
+      expect(mockExecuteWithSmartRetry).toHaveBeenCalledTimes(11)
+    })
+
+    it('should fail the run when beforeAll throws', async () => {
+      const afterAll = vi.fn()
+      config.hooks = {
+        beforeAll: () => {
+          throw new Error('login expired')
+        },
+        afterAll,
+      }
+
+      const result = await executeScript({name: 'Hooks', steps: [{type: 'click', selector: '#a'}]}, config)
+
+      if (result.success) {
+        expect(result.data.success).toBe(false)
+        expect(result.data.error).toBe('beforeAll hook failed: login expired')
+      }
+      expect(mockExecuteWithSmartRetry).not.toHaveBeenCalled()
+      expect(afterAll).toHaveBeenCalled()
+    })
+  })
+})
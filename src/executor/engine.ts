@@ -1,13 +1,34 @@
-import {AutomationScript, ActionStep, Result, success, failure} from '../types/index.js'
+import {resolve} from 'path'
+import type {Browser} from 'playwright'
+import {
+  AutomationScript,
+  ActionStep,
+  FailurePolicy,
+  Result,
+  ScriptFunction,
+  StepNumber,
+  VariableStore,
+  success,
+  failure,
+} from '../types/index.js'
 import {AutoConfig} from '../config/index.js'
 import {
   BrowserController,
+  BrowserSessionOptions,
   initializeBrowser,
   closeBrowser,
   executeActionStep,
+  executeTabAction,
+  isTabAction,
+  describePage,
 } from '../browser/controller.js'
-import {parseScriptFromFile, parseScriptFromString} from '../actions/parser.js'
+import {applyScriptSession, findSession, saveSession} from '../browser/session.js'
+import {applyScriptEmulation} from '../browser/emulation.js'
+import {parseScriptFromFile, parseScriptFromString, ScriptFormat} from '../actions/parser.js'
 import {validateScript, formatValidationResults} from '../actions/validator.js'
+import {describeStep} from '../actions/registry.js'
+import {describeCallTarget} from '../actions/builtin.js'
+import {loadPlugins} from '../plugins/index.js'
 import {
   executeWithSmartRetry,
   ClassifiedError,
@@ -15,15 +36,31 @@ import {
   getErrorSummary,
 } from '../utils/error-handler.js'
 import {createLogger, Logger, formatExecutionSummary} from '../utils/logger.js'
-import {replaceVariables} from '../utils/variable-replacer.js'
+import {replaceVariables, resolveVariablePath} from '../utils/variable-replacer.js'
+import {evaluateCondition, describeCondition} from './condition.js'
+import {evaluateAssertion, describeAssertion, isAssertAction} from './assertion.js'
+import {
+  AutoHooks,
+  HookContext,
+  collectHooks,
+  runAfterStepHooks,
+  runBeforeStepHooks,
+  runErrorHooks,
+  runLifecycleHooks,
+} from './hooks.js'
+import {StepSelection, hasStepSelection, selectSteps} from './selection.js'
+import {Checkpoint, saveCheckpoint, validateCheckpoint} from './checkpoint.js'
+import type {ExecutionEventMap, ExecutionEventName, ExecutionEvents} from './runner.js'
 
 export interface ExecutionResult {
   success: boolean
   stepsExecuted: number
+  stepsSkipped?: number // main steps left out by the step selection
   totalSteps: number
   executionTime: number
   screenshots: string[]
   error?: string
+  teardownErrors?: string[] // failed teardown steps, reported apart from the main error
   logs: ExecutionLog[]
   errorAnalysis?: {
     errors: ClassifiedError[]
@@ -31,45 +68,129 @@ export interface ExecutionResult {
   }
   sessionId?: string
   logFilePath?: string
+  variables: VariableStore
+  softFailures: AssertionFailure[]
+  failedSteps: StepFailure[] // failures the run went on after
+  cancelled?: boolean // aborted by the caller's signal or script maxDuration
+  checkpointPath?: string // saved when the run stopped at a main step, see resume
 }
 
 export interface ExecutionLog {
-  step: number
+  step: StepNumber
   action: string
-  status: 'success' | 'error' | 'warning'
+  status: 'success' | 'error' | 'warning' | 'skipped' | 'cancelled'
   message: string
   timestamp: Date
   duration?: number
+  iteration?: number
+  page?: string
+  expected?: string
+  actual?: string
+  soft?: boolean
+}
+
+/**
+ * Failed assertion with the values it compared
+ */
+export interface AssertionFailure {
+  step: StepNumber
+  message: string
+  expected: string
+  actual: string
 }
 
+/**
+ * Failed step the run went on after, because of its onFailure policy
+ */
+export interface StepFailure {
+  step: StepNumber
+  error: string
+  onFailure: FailurePolicy
+}
+
+/**
+ * Options for a single execution
+ */
+export interface ExecutionOptions {
+  variables?: VariableStore // initial runtime variables, e.g. a dataset row
+  signal?: AbortSignal // aborts the current step; teardown still runs and the result is marked cancelled
+  steps?: StepSelection // run only part of the main steps
+  scriptPath?: string // file the script was loaded from, recorded in checkpoints
+  resume?: Checkpoint // continue a stopped run: restore its browser state and variables, skip setup
+  hooks?: AutoHooks // run after the config and script hooks, e.g. the debugger
+  browser?: Browser // running browser to reuse, see launchBrowser; only the run's context is closed
+  events?: ExecutionEvents // receives progress events, see createRunner
+}
+
+/**
+ * State shared by all steps of one execution
+ */
+interface ExecutionContext {
+  script: AutomationScript // script whose functions are callable, changes inside called scripts
+  includes: Record<string, AutomationScript>
+  config: AutoConfig
+  logger: Logger
+  browserController: BrowserController
+  variables: VariableStore
+  logs: ExecutionLog[]
+  screenshots: string[]
+  softFailures: AssertionFailure[]
+  failedSteps: StepFailure[]
+  signal: AbortSignal // fires on cancellation or when maxDuration elapses
+  hooks: AutoHooks[]
+  events?: ExecutionEvents
+  reportedFailures: WeakSet<Result<void>> // failures already passed to onError, so parent steps skip them
+  runningSteps: Set<Promise<unknown>> // steps still running after cancellation stopped waiting for them
+  iteration?: number
+}
+
+// Default guard for while loops without maxIterations
+const DEFAULT_MAX_ITERATIONS = 100
+
+// Guard for onError hooks asking to retry a step that keeps failing; high enough for the debugger's retry
+const MAX_HOOK_RETRIES = 10
+
 /**
  * Execute automation script from file
  */
 export async function executeScriptFromFile(
   filePath: string,
   config: AutoConfig,
+  options: ExecutionOptions = {},
 ): Promise<Result<ExecutionResult>> {
+  const pluginsResult = await loadPlugins(config.plugins)
+  if (!pluginsResult.success) {
+    return pluginsResult
+  }
+
   const parseResult = await parseScriptFromFile(filePath)
   if (!parseResult.success) {
     return failure(`Failed to parse script: ${parseResult.error}`)
   }
 
-  return executeScript(parseResult.data, config)
+  return executeScript(parseResult.data, config, {scriptPath: resolve(filePath), ...options})
 }
 
 /**
- * Execute automation script from string
+ * Execute automation script from JSON, JSON5 or YAML string
  */
 export async function executeScriptFromString(
   scriptContent: string,
   config: AutoConfig,
+  format: ScriptFormat = 'json',
+  options: ExecutionOptions = {},
 ): Promise<Result<ExecutionResult>> {
-  const parseResult = parseScriptFromString(scriptContent)
+  const pluginsResult = await loadPlugins(config.plugins)
+  if (!pluginsResult.success) {
+    return pluginsResult
+  }
+
+  const parseResult = parseScriptFromString(scriptContent, format)
   if (!parseResult.success) {
     return failure(`Failed to parse script: ${parseResult.error}`)
   }
 
-  return executeScript(parseResult.data, config)
+  return executeScript(parseResult.data, config, options)
 }
 
 /**
@@ -78,12 +199,18 @@ export async function executeScriptFromString(
 export async function executeScript(
   script: AutomationScript,
   config: AutoConfig,
+  options: ExecutionOptions = {},
 ): Promise<Result<ExecutionResult>> {
   const startTime = Date.now()
   const logs: ExecutionLog[] = []
   const screenshots: string[] = []
   const collectedErrors: ClassifiedError[] = []
+  const variables: VariableStore = {...options.resume?.variables, ...options.variables}
+  const softFailures: AssertionFailure[] = []
+  const failedSteps: StepFailure[] = []
+  const run = createRunSignal(options.signal, script.maxDuration)
   let browserController: BrowserController | null = null
+  let context: ExecutionContext | undefined
   
   // Create logger for this execution session
   const logger = createLogger(config)
@@ -95,6 +222,12 @@ export async function executeScript(
       totalSteps: script.steps.length,
     })
 
+    // Register plugin actions before validating the steps using them
+    const pluginsResult = await loadPlugins(config.plugins)
+    if (!pluginsResult.success) {
+      return pluginsResult
+    }
+
     // Validate script before execution
     const validationResult = validateScript(script)
     if (validationResult.errors.length > 0) {
@@ -121,8 +254,39 @@ export async function executeScript(
       logger.validation('Script validation passed')
     }
 
+    const selectionResult = selectSteps(script.steps, options.steps)
+    if (!selectionResult.success) {
+      return selectionResult
+    }
+    const selected = selectionResult.data
+    const resumeIndex = options.resume?.stepIndex || 0
+    if (options.resume) {
+      const checkpointResult = validateCheckpoint(options.resume, script)
+      if (!checkpointResult.success) {
+        return checkpointResult
+      }
+    }
+    if (hasStepSelection(options.steps)) {
+      logger.info('Running a subset of the steps', {...options.steps, selectedSteps: selected.size})
+    }
+
+    // Session and emulation settings of the script override the config; a resumed run starts with the state of
+    // its checkpoint, unless it runs in a userDataDir profile, which keeps its session itself
+    const scriptConfig = applyScriptEmulation(applyScriptSession(config, script), script)
+    let storageState: BrowserSessionOptions['storageState'] = config.browser.userDataDir
+      ? undefined
+      : options.resume?.storageState
+    if (!storageState && scriptConfig.browser.storageState) {
+      const sessionResult = findSession(scriptConfig.browser.storageState, scriptConfig)
+      if (!sessionResult.success) {
+        return sessionResult
+      }
+      storageState = sessionResult.data
+      logger.info('Starting with saved session', {session: scriptConfig.browser.storageState, path: storageState})
+    }
+
     // Initialize browser
-    const browserResult = await initializeBrowser(config, logger)
+    const browserResult = await initializeBrowser(scriptConfig, logger, {storageState, browser: options.browser})
     if (!browserResult.success) {
       logger.error('Failed to initialize browser', {error: browserResult.error})
       return failure(`Failed to initialize browser: ${browserResult.error}`)
@@ -143,176 +307,172 @@ export async function executeScript(
       timestamp: new Date(),
     })
 
-    // Execute steps sequentially
+    context = {
+      script,
+      includes: script.includes || {},
+      config: scriptConfig,
+      logger,
+      browserController,
+      variables,
+      logs,
+      screenshots,
+      softFailures,
+      failedSteps,
+      signal: run.signal,
+      hooks: collectHooks(config, script, options.hooks),
+      reportedFailures: new WeakSet(),
+      runningSteps: new Set(),
+      events: options.events,
+    }
+    emitEvent(context, 'run:start', {
+      script: script.name,
+      totalSteps: script.steps.length,
+      browser: config.browser.type,
+    })
+
+    // Execute steps sequentially, after the beforeAll hooks
     let stepsExecuted = 0
-    for (let i = 0; i < script.steps.length; i++) {
-      const step = {...script.steps[i]};
-      if (typeof step.value === 'string') {
-        step.value = replaceVariables(step.value);
-      }
-      if ('url' in step && typeof step.url === 'string') {
-        step.url = replaceVariables(step.url);
+    let stepsSkipped = 0
+    const beforeAllResult = await runLifecycleHooks(context.hooks, 'beforeAll', createHookContext(context))
+    let stepError = beforeAllResult.success ? undefined : beforeAllResult.error
+    if (stepError) {
+      logger.error(stepError)
+    }
+
+    if (stepError === undefined && options.resume) {
+      const resumeResult = await restoreCheckpoint(options.resume, context)
+      stepError = resumeResult.success ? undefined : resumeResult.error
+    } else if (stepError === undefined && !run.signal.aborted && script.setup) {
+      const setupResult = await executeSteps(script.setup, context, 'setup')
+      stepError = setupResult.success ? undefined : `Setup failed: ${setupResult.error}`
+    }
+
+    let index = 0
+    let lastStep: {index: number; success: boolean} | undefined
+    while (stepError === undefined && !run.signal.aborted && index < script.steps.length) {
+      if (index < resumeIndex || !selected.has(index)) {
+        skipStep(
+          script.steps[index],
+          index + 1,
+          index < resumeIndex ? 'Completed before resume' : 'Not selected',
+          context,
+        )
+        stepsSkipped++
+        index++
+        continue
       }
-      // Set default timeout from config if not specified
-      if (!step.timeout) {
-        step.timeout = config.browser.timeout;
+
+      const stepResult = await executeStep(script.steps[index], index + 1, context)
+      lastStep = {index, success: stepResult.success}
+      if (stepResult.success) {
+        stepsExecuted++
+        index++
+        continue
       }
-      const stepNumber = i + 1
-      const stepStartTime = Date.now()
 
-      // Log step start
-      const stepSummary = getStepSummary(step)
-      const description = step.description ? ` - ${step.description}` : ''
-      logger.info(`Starting step ${stepNumber}${description}`, {
-        stepNumber,
-        action: step.type,
-        summary: stepSummary,
-        description: step.description,
-      }, stepNumber)
-
-      try {
-        // Execute step with smart retry logic
-        const stepResult = await executeWithSmartRetry(
-          () => executeActionStep(browserController!.page!, step, config, logger, stepNumber),
-          config,
-          step,
-          stepNumber,
-        )
+      const next = applyFailurePolicy(script.steps, index, index + 1, stepResult.error, context)
+      if (next === undefined) {
+        stepError = stepResult.error
+      } else {
+        index = next
+      }
+    }
 
-        const stepDuration = Date.now() - stepStartTime
-
-        if (stepResult.success) {
-          stepsExecuted++
-          
-          // Handle screenshot result
-          if (stepResult.data && step.type === 'screenshot') {
-            screenshots.push(stepResult.data)
-          }
-
-          // Log success
-          logger.step(stepNumber, step.type, stepSummary, stepDuration, true)
-
-          logs.push({
-            step: stepNumber,
-            action: step.type,
-            status: 'success',
-            message: stepSummary,
-            timestamp: new Date(),
-            duration: stepDuration,
-          })
-        } else {
-          // Log failure
-          logger.step(stepNumber, step.type, `Failed: ${stepResult.error}`, stepDuration, false)
-          
-          // Handle step failure
-          logs.push({
-            step: stepNumber,
-            action: step.type,
-            status: 'error',
-            message: `Failed: ${stepResult.error}`,
-            timestamp: new Date(),
-            duration: stepDuration,
-          })
-
-          // Take error screenshot if enabled
-          if (config.actions.screenshotOnError && browserController.page) {
-            try {
-              const errorScreenshotFilename = `error-step-${stepNumber}-${Date.now()}.png`
-              const {takeScreenshot} = await import('../browser/controller.js')
-              const screenshotResult = await takeScreenshot(
-                browserController.page,
-                config,
-                errorScreenshotFilename,
-                logger,
-                stepNumber
-              )
-              
-              if (screenshotResult.success) {
-                screenshots.push(screenshotResult.data)
-              } else {
-                logger.error('Failed to capture error screenshot', {
-                  step: stepNumber,
-                  error: screenshotResult.error,
-                })
-              }
-            } catch (screenshotError) {
-              logger.error('Failed to capture error screenshot', {
-                step: stepNumber,
-                error: String(screenshotError),
-              })
-            }
-          }
-
-          const executionTime = Date.now() - startTime
-          const summary = logger.getSessionSummary()
-          
-          // Cleanup before returning
-          await logger.cleanup()
-          
-          return success({
-            success: false,
-            stepsExecuted,
-            totalSteps: script.steps.length,
-            executionTime,
-            screenshots,
-            error: stepResult.error,
-            logs,
-            sessionId: summary.sessionId,
-            logFilePath: summary.logFilePath,
-          })
-        }
-      } catch (error) {
-        const stepDuration = Date.now() - stepStartTime
-        
-        logger.error(`Unexpected error in step ${stepNumber}`, {
-          step: stepNumber,
-          action: step.type,
-          error: String(error),
-        })
-        
-        logs.push({
-          step: stepNumber,
-          action: step.type,
-          status: 'error',
-          message: `Unexpected error: ${error}`,
-          timestamp: new Date(),
-          duration: stepDuration,
-        })
+    const cancelled = run.signal.aborted
+    if (cancelled) {
+      stepError = getCancelMessage(run.signal)
+      logger.warn(stepError, {stepsExecuted, totalSteps: script.steps.length})
+      addLog(context, {step: 0, action: 'cancelled', status: 'cancelled', message: stepError})
+    }
 
-        const executionTime = Date.now() - startTime
-        const summary = logger.getSessionSummary()
-        
-        // Cleanup before returning
-        await logger.cleanup()
-        
-        return success({
-          success: false,
-          stepsExecuted,
-          totalSteps: script.steps.length,
-          executionTime,
-          screenshots,
-          error: String(error),
-          logs,
-          sessionId: summary.sessionId,
-          logFilePath: summary.logFilePath,
+    // Save the session of a successful run before teardown, which may log out
+    if (stepError === undefined && scriptConfig.browser.saveStorageState) {
+      const saveResult = await saveSession(
+        browserController.context!,
+        scriptConfig.browser.saveStorageState,
+        scriptConfig,
+      )
+      if (saveResult.success) {
+        addLog(context, {
+          step: 0,
+          action: 'session_save',
+          status: 'success',
+          message: `Session saved: ${saveResult.data}`,
         })
+      } else {
+        stepError = saveResult.error
+        logger.error(stepError)
+        addLog(context, {step: 0, action: 'session_save', status: 'error', message: stepError})
       }
     }
 
+    // Save the state of a run stopped at a main step before teardown changes it
+    const checkpointPath =
+      stepError !== undefined && lastStep
+        ? await createCheckpoint(lastStep.success ? index : lastStep.index, stepError, context, options.scriptPath)
+        : undefined
+
+    // Teardown runs whatever happened to the main steps
+    const teardownErrors = await executeTeardown(context)
+
     const executionTime = Date.now() - startTime
-    
-    logger.info('Script execution completed successfully', {
-      stepsExecuted,
-      totalSteps: script.steps.length,
-      executionTime,
-      screenshotCount: screenshots.length,
-    })
+    const summary = logger.getSessionSummary()
+
+    if (stepError !== undefined) {
+      return await finishExecution(context, {
+        success: false,
+        cancelled: cancelled || undefined,
+        stepsExecuted,
+        stepsSkipped: stepsSkipped || undefined,
+        totalSteps: script.steps.length,
+        executionTime,
+        screenshots,
+        error: stepError,
+        teardownErrors,
+        checkpointPath,
+        logs,
+        sessionId: summary.sessionId,
+        logFilePath: summary.logFilePath,
+        variables,
+        softFailures,
+        failedSteps,
+      })
+    }
+
+    const completionError =
+      [
+        failedSteps.length > 0 && `${failedSteps.length} step(s) failed`,
+        softFailures.length > 0 && `${softFailures.length} soft assertion(s) failed`,
+        teardownErrors && `${teardownErrors.length} teardown step(s) failed`,
+      ]
+        .filter(Boolean)
+        .join(', ') || undefined
+
+    if (completionError) {
+      logger.warn(`Script execution completed, ${completionError}`, {
+        stepsExecuted,
+        totalSteps: script.steps.length,
+        executionTime,
+        failedSteps: failedSteps.length,
+        softFailures: softFailures.length,
+        teardownErrors: teardownErrors?.length || 0,
+      })
+    } else {
+      logger.info('Script execution completed successfully', {
+        stepsExecuted,
+        totalSteps: script.steps.length,
+        executionTime,
+        screenshotCount: screenshots.length,
+      })
+    }
     
     logs.push({
       step: 0,
       action: 'completion',
-      status: 'success',
-      message: `Script completed successfully in ${executionTime}ms`,
+      status: completionError ? 'error' : 'success',
+      message: completionError
+        ? `Script completed in ${executionTime}ms, ${completionError}`
+        : `Script completed successfully in ${executionTime}ms`,
       timestamp: new Date(),
     })
 
@@ -320,17 +480,15 @@ export async function executeScript(
       ? generateErrorReport(collectedErrors, executionTime)
       : undefined
 
-    const summary = logger.getSessionSummary()
-    
-    // Cleanup logger
-    await logger.cleanup()
-
-    return success({
-      success: true,
+    return await finishExecution(context, {
+      success: !completionError,
       stepsExecuted,
+      stepsSkipped: stepsSkipped || undefined,
       totalSteps: script.steps.length,
       executionTime,
       screenshots,
+      error: completionError,
+      teardownErrors,
       logs,
       errorAnalysis: collectedErrors.length > 0 ? {
         errors: collectedErrors,
@@ -338,6 +496,9 @@ export async function executeScript(
       } : undefined,
       sessionId: summary.sessionId,
       logFilePath: summary.logFilePath,
+      variables,
+      softFailures,
+      failedSteps,
     })
   } catch (error) {
     const executionTime = Date.now() - startTime
@@ -349,11 +510,7 @@ export async function executeScript(
     })
     
     const summary = logger.getSessionSummary()
-    
-    // Cleanup logger
-    await logger.cleanup()
-    
-    return success({
+    const result: ExecutionResult = {
       success: false,
       stepsExecuted: 0,
       totalSteps: script.steps.length,
@@ -363,8 +520,22 @@ export async function executeScript(
       logs,
       sessionId: summary.sessionId,
       logFilePath: summary.logFilePath,
-    })
+      variables,
+      softFailures,
+      failedSteps,
+    }
+
+    if (context) {
+      result.teardownErrors = await executeTeardown(context)
+      return await finishExecution(context, result)
+    }
+
+    // Cleanup logger
+    await logger.cleanup()
+    return success(result)
   } finally {
+    run.dispose()
+
     // Cleanup browser resources
     if (browserController) {
       await closeBrowser(browserController)
@@ -381,30 +552,878 @@ export async function executeScript(
   }
 }
 
+/**
+ * Abort signal of one run, fired by the caller's signal or when maxDuration elapses
+ */
+function createRunSignal(signal?: AbortSignal, maxDuration?: number): {signal: AbortSignal; dispose: () => void} {
+  const controller = new AbortController()
+  const abort = () => controller.abort(signal?.reason)
+  if (signal?.aborted) {
+    abort()
+  }
+  signal?.addEventListener('abort', abort, {once: true})
+
+  const timer = maxDuration
+    ? setTimeout(() => controller.abort(new Error(`maxDuration of ${maxDuration}ms exceeded`)), maxDuration)
+    : undefined
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', abort)
+    },
+  }
+}
+
+function getCancelMessage(signal: AbortSignal): string {
+  const reason = signal.reason instanceof Error ? signal.reason.message : String(signal.reason ?? 'aborted')
+  return `Execution cancelled: ${reason}`
+}
+
+/**
+ * Settle with the step result, or with a cancellation failure as soon as the signal fires
+ */
+async function raceAbort<T>(promise: Promise<Result<T>>, signal: AbortSignal): Promise<Result<T>> {
+  if (signal.aborted) {
+    return failure(getCancelMessage(signal))
+  }
+
+  let onAbort = () => {}
+  const aborted = new Promise<Result<T>>((resolve) => {
+    onAbort = () => resolve(failure(getCancelMessage(signal)))
+    signal.addEventListener('abort', onAbort, {once: true})
+  })
+  try {
+    return await Promise.race([promise, aborted])
+  } finally {
+    signal.removeEventListener('abort', onAbort)
+  }
+}
+
+/**
+ * Run a step and keep track of it until it settles, so teardown can wait for cancelled steps
+ */
+function trackStep<T>(context: ExecutionContext, promise: Promise<T>): Promise<T> {
+  context.runningSteps.add(promise)
+  const untrack = () => context.runningSteps.delete(promise)
+  promise.then(untrack, untrack)
+  return promise
+}
+
+/**
+ * Save a checkpoint to resume the run from a main step; returns its path
+ */
+async function createCheckpoint(
+  stepIndex: number,
+  error: string,
+  context: ExecutionContext,
+  scriptPath?: string,
+): Promise<string | undefined> {
+  const {browserController, config, logger} = context
+  const {sessionId} = logger.getSessionSummary()
+  let result: Result<string>
+  try {
+    result = await saveCheckpoint(config.logging.outputDir, {
+      sessionId,
+      script: context.script.name,
+      scriptPath,
+      stepIndex,
+      error,
+      url: browserController.page!.url(),
+      variables: context.variables,
+      storageState: await browserController.context!.storageState(),
+      savedAt: new Date().toISOString(),
+    })
+  } catch (saveError) {
+    result = failure(`Failed to save checkpoint: ${saveError}`)
+  }
+
+  if (!result.success) {
+    logger.warn(result.error)
+    return undefined
+  }
+  logger.info(`Checkpoint saved, resume from step ${stepIndex + 1} with: auto-run resume ${sessionId}`, {
+    checkpointPath: result.data,
+  })
+  return result.data
+}
+
+/**
+ * Go back to the page of a checkpoint; its storage state was restored with the browser context
+ */
+async function restoreCheckpoint(checkpoint: Checkpoint, context: ExecutionContext): Promise<Result<void>> {
+  const {browserController, logger} = context
+  try {
+    await browserController.page!.goto(checkpoint.url)
+  } catch (error) {
+    return failure(`Failed to restore checkpoint page ${checkpoint.url}: ${error}`)
+  }
+
+  const message = `Resumed session ${checkpoint.sessionId} at step ${checkpoint.stepIndex + 1}`
+  logger.info(message, {url: checkpoint.url, variables: Object.keys(checkpoint.variables || {}).length})
+  addLog(context, {step: 0, action: 'resume', status: 'success', message})
+  return success(undefined)
+}
+
+/**
+ * Run every teardown step, also after failed ones; returns their errors
+ */
+async function executeTeardown(context: ExecutionContext): Promise<string[] | undefined> {
+  // A cancelled step may still be acting on the page; teardown starts once it settled
+  await Promise.allSettled(context.runningSteps)
+
+  const teardown = context.script.teardown || []
+  if (teardown.length === 0) {
+    return undefined
+  }
+
+  context.logger.info('Running teardown steps', {steps: teardown.length})
+  const errors: string[] = []
+  // Teardown also runs after cancellation, so it gets a signal of its own
+  const teardownContext: ExecutionContext = {...context, signal: new AbortController().signal}
+  for (let i = 0; i < teardown.length; i++) {
+    const result = await executeStep(teardown[i], `teardown.${i + 1}`, teardownContext)
+    if (!result.success) {
+      errors.push(`Step teardown.${i + 1}: ${result.error}`)
+    }
+  }
+  return errors.length > 0 ? errors : undefined
+}
+
+/**
+ * Run the afterAll hooks with the result of the run, then flush the logs
+ */
+async function finishExecution(context: ExecutionContext, result: ExecutionResult): Promise<Result<ExecutionResult>> {
+  const {logger} = context
+  const hookResult = await runLifecycleHooks(context.hooks, 'afterAll', {...createHookContext(context), result})
+  if (!hookResult.success) {
+    logger.warn(hookResult.error)
+    addLog(context, {step: 0, action: 'afterAll', status: 'warning', message: hookResult.error})
+  }
+
+  emitEvent(context, 'run:end', {result})
+
+  // Cleanup logger
+  await logger.cleanup()
+  return success(result)
+}
+
+/**
+ * Execute a list of nested steps, applying the onFailure policy of failed steps
+ */
+async function executeSteps(steps: ActionStep[], context: ExecutionContext, parentPath: string): Promise<Result<void>> {
+  let i = 0
+  while (i < steps.length) {
+    if (context.signal.aborted) {
+      return failure(getCancelMessage(context.signal))
+    }
+    const stepNumber = `${parentPath}.${i + 1}`
+    const result = await executeStep(steps[i], stepNumber, context)
+    if (result.success) {
+      i++
+      continue
+    }
+
+    const next = applyFailurePolicy(steps, i, stepNumber, result.error, context)
+    if (next === undefined) {
+      return result
+    }
+    i = next
+  }
+  return success(undefined)
+}
+
+/**
+ * Record a failure the step's onFailure policy lets the run survive.
+ * Returns the index of the next step to run, or undefined to stop.
+ */
+function applyFailurePolicy(
+  steps: ActionStep[],
+  index: number,
+  stepNumber: StepNumber,
+  error: string,
+  context: ExecutionContext,
+): number | undefined {
+  const {config, logger} = context
+  if (context.signal.aborted) {
+    return undefined
+  }
+  const step = steps[index]
+  const policy: FailurePolicy = step.onFailure || (config.actions.continueOnError ? 'continue' : 'stop')
+  if (policy === 'stop') {
+    return undefined
+  }
+
+  let next = index + 1
+  let message = 'Continuing after failure'
+  if (policy === 'skipRest') {
+    next = steps.length
+    message = `Skipping ${steps.length - index - 1} remaining step(s) after failure`
+  } else if (policy.startsWith('goto:')) {
+    const label = policy.slice('goto:'.length)
+    next = steps.findIndex((target) => target.label === label || target.id === label)
+    if (next <= index) {
+      logger.error(`Step ${stepNumber}: onFailure target '${label}' is not a later step`, {stepNumber}, stepNumber)
+      return undefined
+    }
+    message = `Jumping to step '${label}' after failure`
+  }
+
+  context.failedSteps.push({step: stepNumber, error, onFailure: policy})
+  logger.warn(`Step ${stepNumber}: ${message}`, {stepNumber, error, onFailure: policy}, stepNumber)
+  addLog(context, {step: stepNumber, action: step.type, status: 'warning', message})
+  return next
+}
+
+/**
+ * Report a main step left out by the step selection or a resume; its hooks do not run
+ */
+function skipStep(step: ActionStep, stepNumber: number, message: string, context: ExecutionContext): void {
+  addLog(context, {step: stepNumber, action: step.type, status: 'skipped', message})
+  emitEvent(context, 'step:end', {stepNumber, step, status: 'skipped', duration: 0})
+}
+
+/**
+ * Execute a single step between its beforeStep and afterStep hooks; optional steps never fail
+ */
+async function executeStep(
+  original: ActionStep,
+  stepNumber: StepNumber,
+  context: ExecutionContext,
+): Promise<Result<void>> {
+  const {hooks, logger} = context
+  const startTime = Date.now()
+  let optionalError: string | undefined
+  const end = (step: ActionStep, result: Result<void>, status?: 'skipped' | 'cancelled'): Result<void> => {
+    emitEvent(context, 'step:end', {
+      stepNumber,
+      step,
+      status: status || (result.success ? 'success' : 'failed'),
+      duration: Date.now() - startTime,
+      error: result.success ? undefined : result.error,
+      ...(optionalError !== undefined && {optionalError}),
+    })
+    return result
+  }
+
+  const beforeResult = await runBeforeStepHooks(hooks, {...createHookContext(context), step: original, stepNumber})
+  if (!beforeResult.success) {
+    logger.step(stepNumber, original.type, `Failed: ${beforeResult.error}`, undefined, false)
+    addLog(context, {
+      step: stepNumber,
+      action: original.type,
+      status: 'error',
+      message: `Failed: ${beforeResult.error}`,
+    })
+    return end(original, beforeResult)
+  }
+
+  const {skip} = beforeResult.data
+  let {step} = beforeResult.data
+  if (skip) {
+    logger.info(`Step ${stepNumber} skipped by beforeStep hook`, {stepNumber, action: step.type}, stepNumber)
+    addLog(context, {step: stepNumber, action: step.type, status: 'skipped', message: 'Skipped by beforeStep hook'})
+    return end(step, success(undefined), 'skipped')
+  }
+
+  let result = await raceAbort(trackStep(context, runStep(step, stepNumber, context)), context.signal)
+  let hookRetries = 0
+  while (true) {
+    if (context.signal.aborted) {
+      // The step was interrupted; leave failure handling to the caller of the run
+      addLog(context, {step: stepNumber, action: step.type, status: 'cancelled', message: 'Cancelled'})
+      return end(step, failure(getCancelMessage(context.signal)), 'cancelled')
+    }
+    if (result.success || hooks.length === 0 || context.reportedFailures.has(result)) {
+      break
+    }
+
+    context.reportedFailures.add(result)
+    const errorResult = await runErrorHooks(hooks, {
+      ...createHookContext(context),
+      step,
+      stepNumber,
+      error: result.error,
+    })
+    if (!errorResult.success) {
+      logger.warn(errorResult.error, {stepNumber}, stepNumber)
+    } else if (errorResult.data.retry && hookRetries >= MAX_HOOK_RETRIES) {
+      logger.warn(
+        `Step ${stepNumber} still failing after ${hookRetries} onError retries, giving up`,
+        {stepNumber, error: result.error},
+        stepNumber,
+      )
+    } else if (errorResult.data.retry) {
+      hookRetries++
+      logger.info(`Step ${stepNumber} retried by onError hook`, {stepNumber, error: result.error}, stepNumber)
+      addLog(context, {
+        step: stepNumber,
+        action: step.type,
+        status: 'warning',
+        message: `Retrying after: ${result.error}`,
+      })
+      step = errorResult.data.retry
+      result = await raceAbort(trackStep(context, runStep(step, stepNumber, context)), context.signal)
+      continue
+    } else if (errorResult.data.recover) {
+      logger.warn(`Step ${stepNumber} recovered by onError hook`, {stepNumber, error: result.error}, stepNumber)
+      addLog(context, {
+        step: stepNumber,
+        action: step.type,
+        status: 'warning',
+        message: `Recovered by onError hook: ${result.error}`,
+      })
+      result = success(undefined)
+    }
+    break
+  }
+
+  if (!result.success && step.optional) {
+    logger.warn(`Optional step ${stepNumber} failed, continuing`, {stepNumber, error: result.error}, stepNumber)
+    addLog(context, {
+      step: stepNumber,
+      action: step.type,
+      status: 'warning',
+      message: `Optional step failed: ${result.error}`,
+    })
+    optionalError = result.error
+    result = success(undefined)
+  }
+
+  const afterResult = await runAfterStepHooks(hooks, {...createHookContext(context), step, stepNumber, result})
+  if (!afterResult.success) {
+    logger.step(stepNumber, step.type, `Failed: ${afterResult.error}`, undefined, false)
+    addLog(context, {step: stepNumber, action: step.type, status: 'error', message: `Failed: ${afterResult.error}`})
+    return end(step, afterResult)
+  }
+  return end(step, result)
+}
+
+/**
+ * Emit an execution event; a failing listener must not break the run
+ */
+function emitEvent<E extends ExecutionEventName>(
+  context: ExecutionContext,
+  event: E,
+  payload: ExecutionEventMap[E],
+): void {
+  try {
+    context.events?.emit(event, payload)
+  } catch (error) {
+    context.logger.warn(`Listener of ${event} failed: ${error}`)
+  }
+}
+
+/**
+ * State handed to hooks, with the active tab as page
+ */
+function createHookContext(context: ExecutionContext): HookContext {
+  return {
+    script: context.script,
+    page: context.browserController.page!,
+    logger: context.logger,
+    config: context.config,
+    variables: context.variables,
+  }
+}
+
+/**
+ * Run a single step, including control-flow steps and their children
+ */
+async function runStep(original: ActionStep, stepNumber: StepNumber, context: ExecutionContext): Promise<Result<void>> {
+  const {config, logger, variables, screenshots} = context
+  const step = resolveStepVariables(original, variables)
+  // Set default timeout from config if not specified
+  if (!step.timeout) {
+    step.timeout = config.browser.timeout
+  }
+  const stepStartTime = Date.now()
+  const page = describePage(context.browserController)
+
+  // Log step start
+  const stepSummary = describeStep(step)
+  const description = step.description ? ` - ${step.description}` : ''
+  logger.info(
+    `Starting step ${stepNumber}${description}`,
+    {
+      stepNumber,
+      action: step.type,
+      summary: stepSummary,
+      description: step.description,
+      page,
+    },
+    stepNumber,
+  )
+  emitEvent(context, 'step:start', {stepNumber, step, summary: stepSummary, page})
+
+  try {
+    if (step.type === 'if') {
+      return await executeConditionalStep(step, stepNumber, context)
+    }
+
+    if (step.type === 'repeat' || step.type === 'forEach' || step.type === 'while') {
+      return await executeLoopStep(step, stepNumber, context)
+    }
+
+    if (isAssertAction(step)) {
+      return await executeAssertionStep(step, stepNumber, context)
+    }
+
+    if (step.type === 'call') {
+      return await executeCallStep(step, stepNumber, context)
+    }
+
+    // Execute step with smart retry logic
+    const stepResult = await executeWithSmartRetry(
+      () =>
+        isTabAction(step)
+          ? executeTabAction(context.browserController, step, config, logger, context.signal)
+          : executeActionStep(
+              context.browserController.page!,
+              step,
+              config,
+              logger,
+              stepNumber,
+              variables,
+              context.signal,
+            ),
+      config,
+      step,
+      stepNumber,
+      (retry) => emitEvent(context, 'step:retry', {stepNumber, step, ...retry}),
+      context.signal,
+    )
+
+    const stepDuration = Date.now() - stepStartTime
+
+    if (stepResult.success) {
+      // Handle screenshot result
+      if (stepResult.data && step.type === 'screenshot') {
+        screenshots.push(stepResult.data)
+        emitEvent(context, 'screenshot', {stepNumber, path: stepResult.data, error: false})
+      }
+
+      // Log success
+      logger.step(stepNumber, step.type, stepSummary, stepDuration, true)
+
+      addLog(context, {
+        step: stepNumber,
+        action: step.type,
+        status: 'success',
+        message: stepSummary,
+        duration: stepDuration,
+        page,
+      })
+
+      return success(undefined)
+    }
+
+    // Log failure
+    logger.step(stepNumber, step.type, `Failed: ${stepResult.error}`, stepDuration, false)
+
+    // Handle step failure
+    addLog(context, {
+      step: stepNumber,
+      action: step.type,
+      status: 'error',
+      message: `Failed: ${stepResult.error}`,
+      duration: stepDuration,
+      page,
+    })
+
+    // Take error screenshot if enabled, optional steps fail as expected
+    if (config.actions.screenshotOnError && !step.optional && context.browserController.page) {
+      await captureErrorScreenshot(stepNumber, context)
+    }
+
+    return failure(stepResult.error)
+  } catch (error) {
+    const stepDuration = Date.now() - stepStartTime
+
+    logger.error(`Unexpected error in step ${stepNumber}`, {
+      step: stepNumber,
+      action: step.type,
+      error: String(error),
+    })
+
+    addLog(context, {
+      step: stepNumber,
+      action: step.type,
+      status: 'error',
+      message: `Unexpected error: ${error}`,
+      duration: stepDuration,
+      page,
+    })
+
+    return failure(String(error))
+  }
+}
+
+/**
+ * Evaluate an if step and run the matching branch
+ */
+async function executeConditionalStep(
+  step: ActionStep,
+  stepNumber: StepNumber,
+  context: ExecutionContext,
+): Promise<Result<void>> {
+  const {logger, variables} = context
+  const conditionText = describeCondition(step.condition!)
+  const conditionResult = await evaluateCondition(context.browserController.page!, step.condition!, variables)
+
+  if (!conditionResult.success) {
+    logger.step(stepNumber, step.type, `Failed: ${conditionResult.error}`, undefined, false)
+    addLog(context, {
+      step: stepNumber,
+      action: step.type,
+      status: 'error',
+      message: `Failed: ${conditionResult.error}`,
+    })
+    return conditionResult
+  }
+
+  const branch = conditionResult.data ? 'then' : 'else'
+  const branchSteps = (conditionResult.data ? step.then : step.else) || []
+  const message = `If ${conditionText}: ${conditionResult.data} → ${branch} (${branchSteps.length} steps)`
+
+  logger.step(stepNumber, step.type, message)
+  addLog(context, {
+    step: stepNumber,
+    action: step.type,
+    status: 'success',
+    message,
+  })
+
+  return executeSteps(branchSteps, context, `${stepNumber}.${branch}`)
+}
+
+/**
+ * Run the nested steps of a repeat, forEach or while step
+ */
+async function executeLoopStep(
+  step: ActionStep,
+  stepNumber: StepNumber,
+  context: ExecutionContext,
+): Promise<Result<void>> {
+  const {logger, variables} = context
+  const stepStartTime = Date.now()
+  const fail = (error: string): Result<void> => {
+    logger.step(stepNumber, step.type, `Failed: ${error}`, Date.now() - stepStartTime, false)
+    addLog(context, {
+      step: stepNumber,
+      action: step.type,
+      status: 'error',
+      message: `Failed: ${error}`,
+      duration: Date.now() - stepStartTime,
+    })
+    return failure(error)
+  }
+
+  let items: unknown[] = []
+  if (step.type === 'forEach') {
+    const value = resolveVariablePath(variables, step.items!)
+    if (!Array.isArray(value)) {
+      return fail(`forEach items vars.${step.items} is not a list`)
+    }
+    items = value
+  }
+
+  const maxIterations = step.maxIterations || DEFAULT_MAX_ITERATIONS
+  let iteration = 0
+
+  while (true) {
+    if (step.type === 'repeat' && iteration >= step.times!) {
+      break
+    }
+    if (step.type === 'forEach' && iteration >= items.length) {
+      break
+    }
+    if (step.type === 'while') {
+      const conditionResult = await evaluateCondition(context.browserController.page!, step.condition!, variables)
+      if (!conditionResult.success) {
+        return fail(conditionResult.error)
+      }
+      if (!conditionResult.data) {
+        break
+      }
+      if (iteration >= maxIterations) {
+        return fail(`While loop reached maxIterations (${maxIterations})`)
+      }
+    }
+
+    // Bind loop variables for the nested steps
+    if (step.type === 'forEach') {
+      const itemName = step.as || 'item'
+      variables[itemName] = items[iteration]
+      variables[`${itemName}Index`] = iteration
+    } else if (step.as) {
+      variables[step.as] = iteration
+    }
+
+    logger.info(
+      `Step ${stepNumber}: iteration ${iteration + 1}`,
+      {
+        stepNumber,
+        action: step.type,
+        iteration: iteration + 1,
+      },
+      stepNumber,
+    )
+
+    const iterationContext = {...context, iteration: iteration + 1}
+    const result = await executeSteps(step.steps!, iterationContext, `${stepNumber}[${iteration + 1}]`)
+    if (!result.success) {
+      return result
+    }
+
+    iteration++
+  }
+
+  const message = `${describeStep(step)}: ${iteration} iteration(s) completed`
+  const duration = Date.now() - stepStartTime
+  logger.step(stepNumber, step.type, message, duration)
+  addLog(context, {
+    step: stepNumber,
+    action: step.type,
+    status: 'success',
+    message,
+    duration,
+  })
+
+  return success(undefined)
+}
+
+/**
+ * Run a function or called script with its own variables, then hand back its returns
+ */
+async function executeCallStep(
+  step: ActionStep,
+  stepNumber: StepNumber,
+  context: ExecutionContext,
+): Promise<Result<void>> {
+  const {logger, variables} = context
+  const stepStartTime = Date.now()
+  const summary = describeStep(step)
+  const fail = (error: string): Result<void> => {
+    logger.step(stepNumber, step.type, `Failed: ${error}`, Date.now() - stepStartTime, false)
+    addLog(context, {
+      step: stepNumber,
+      action: step.type,
+      status: 'error',
+      message: `Failed: ${error}`,
+      duration: Date.now() - stepStartTime,
+    })
+    return failure(error)
+  }
+
+  let target: ScriptFunction | AutomationScript | undefined
+  let calleeScript = context.script
+  if (step.function) {
+    target = context.script.functions?.[step.function]
+    if (!target) {
+      return fail(`Unknown function '${step.function}'`)
+    }
+  } else {
+    target = context.includes[step.script!]
+    if (!target) {
+      return fail(`Called script ${step.script} is not loaded, run the calling script from a file`)
+    }
+    calleeScript = target as AutomationScript
+  }
+
+  // Called steps only see their parameters
+  const callVariables: VariableStore = {}
+  for (const [name, value] of Object.entries(step.params || {})) {
+    callVariables[name] = typeof value === 'string' ? resolveParam(value, variables) : value
+  }
+  const missing = (target.params || []).find((name) => !(name in callVariables))
+  if (missing) {
+    return fail(`Missing parameter '${missing}' for ${describeCallTarget(step)}`)
+  }
+
+  logger.info(
+    `Step ${stepNumber}: ${summary}`,
+    {
+      stepNumber,
+      action: step.type,
+      params: Object.keys(callVariables),
+    },
+    stepNumber,
+  )
 
+  const callContext: ExecutionContext = {...context, script: calleeScript, variables: callVariables}
+  const result = await executeSteps(target.steps, callContext, String(stepNumber))
+  if (!result.success) {
+    return result
+  }
+
+  const returned = Object.fromEntries((target.returns || []).map((name) => [name, callVariables[name]]))
+  if (step.variable) {
+    variables[step.variable] = returned
+  } else {
+    Object.assign(variables, returned)
+  }
+
+  const returnedNames = Object.keys(returned)
+  const message = returnedNames.length > 0 ? `${summary}: returned ${returnedNames.join(', ')}` : summary
+  const duration = Date.now() - stepStartTime
+  logger.step(stepNumber, step.type, message, duration)
+  addLog(context, {
+    step: stepNumber,
+    action: step.type,
+    status: 'success',
+    message,
+    duration,
+  })
+
+  return success(undefined)
+}
 
 /**
- * Get step summary for logging
+ * Resolve a call parameter; a lone `${vars.path}` passes the value itself, e.g. a list
  */
-function getStepSummary(step: ActionStep): string {
-  switch (step.type) {
-    case 'navigate':
-      return `Navigate to ${step.url}`
-    case 'click':
-      return `Click ${step.selector}`
-    case 'type':
-      return `Type "${step.value}" into ${step.selector}`
-    case 'wait':
-      return `Wait ${step.timeout}ms`
-    case 'screenshot':
-      return 'Take screenshot'
-    case 'scroll':
-      return `Scroll ${step.selector}${step.value ? ` by ${step.value}px` : ''}`
-    case 'select':
-      return `Select "${step.value}" from ${step.selector}`
-    default:
-      return `Execute ${step.type}`
+function resolveParam(value: string, variables: VariableStore): unknown {
+  const reference = value.match(/^\$\{vars\.([^}]+)\}$/)
+  if (reference) {
+    const resolved = resolveVariablePath(variables, reference[1])
+    if (resolved !== undefined) {
+      return resolved
+    }
   }
+  return replaceVariables(value, variables)
+}
+
+/**
+ * Evaluate an assert step; soft failures are collected and the run continues
+ */
+async function executeAssertionStep(
+  step: ActionStep,
+  stepNumber: StepNumber,
+  context: ExecutionContext,
+): Promise<Result<void>> {
+  const {config, logger, variables} = context
+  const stepStartTime = Date.now()
+  const summary = describeAssertion(step)
+  const page = describePage(context.browserController)
+  const outcomeResult = await evaluateAssertion(context.browserController.page!, step, variables, context.signal)
+  const duration = Date.now() - stepStartTime
+
+  if (!outcomeResult.success) {
+    logger.step(stepNumber, step.type, `Failed: ${outcomeResult.error}`, duration, false)
+    addLog(context, {
+      step: stepNumber,
+      action: step.type,
+      status: 'error',
+      message: `Failed: ${outcomeResult.error}`,
+      duration,
+      page,
+    })
+    return outcomeResult
+  }
+
+  const {passed, expected, actual} = outcomeResult.data
+  if (passed) {
+    logger.step(stepNumber, step.type, summary, duration, true)
+    addLog(context, {
+      step: stepNumber,
+      action: step.type,
+      status: 'success',
+      message: summary,
+      duration,
+      page,
+    })
+    return success(undefined)
+  }
+
+  const message = `Assertion failed: ${summary}`
+  logger.step(stepNumber, step.type, `${message} (expected ${expected}, actual ${actual})`, duration, false)
+  addLog(context, {
+    step: stepNumber,
+    action: step.type,
+    status: 'error',
+    message,
+    duration,
+    page,
+    expected,
+    actual,
+    soft: step.soft,
+  })
+
+  if (config.actions.screenshotOnError && context.browserController.page) {
+    await captureErrorScreenshot(stepNumber, context)
+  }
+
+  if (step.soft) {
+    context.softFailures.push({step: stepNumber, message: summary, expected, actual})
+    return success(undefined)
+  }
+
+  return failure(`${message}: expected ${expected}, actual ${actual}`)
+}
+
+/**
+ * Record an execution log entry for the current iteration
+ */
+function addLog(context: ExecutionContext, log: Omit<ExecutionLog, 'timestamp' | 'iteration'>): void {
+  context.logs.push({
+    ...log,
+    timestamp: new Date(),
+    iteration: context.iteration,
+  })
+}
+
+/**
+ * Capture a screenshot of the failing step
+ */
+async function captureErrorScreenshot(stepNumber: StepNumber, context: ExecutionContext): Promise<void> {
+  const {config, logger, screenshots} = context
+  try {
+    const errorScreenshotFilename = `error-step-${stepNumber}-${Date.now()}.png`
+    const {takeScreenshot} = await import('../browser/controller.js')
+    const screenshotResult = await takeScreenshot(
+      context.browserController.page!,
+      config,
+      errorScreenshotFilename,
+      logger,
+      stepNumber,
+    )
+
+    if (screenshotResult.success) {
+      screenshots.push(screenshotResult.data)
+      emitEvent(context, 'screenshot', {stepNumber, path: screenshotResult.data, error: true})
+    } else {
+      logger.error('Failed to capture error screenshot', {
+        step: stepNumber,
+        error: screenshotResult.error,
+      })
+    }
+  } catch (screenshotError) {
+    logger.error('Failed to capture error screenshot', {
+      step: stepNumber,
+      error: String(screenshotError),
+    })
+  }
+}
+
+/**
+ * Substitute env and runtime variables in the step fields that accept them
+ */
+function resolveStepVariables(original: ActionStep, variables: VariableStore): ActionStep {
+  const step = {...original}
+  if (typeof step.value === 'string') {
+    step.value = replaceVariables(step.value, variables)
+  }
+  if (typeof step.url === 'string') {
+    step.url = replaceVariables(step.url, variables)
+  }
+  if (typeof step.selector === 'string') {
+    step.selector = replaceVariables(step.selector, variables)
+  }
+  if (typeof step.frame === 'string') {
+    step.frame = replaceVariables(step.frame, variables)
+  }
+  return step
 }
 
 /**
@@ -417,14 +1436,39 @@ export function formatExecutionResult(result: ExecutionResult): string {
   lines.push('AUTOMATION EXECUTION RESULT')
   lines.push('='.repeat(60))
   
-  if (result.success) {
+  if (result.success && result.stepsSkipped) {
+    lines.push(`✅ SUCCESS: ${result.stepsExecuted} selected steps completed, ${result.stepsSkipped} skipped`)
+  } else if (result.success) {
     lines.push(`✅ SUCCESS: All ${result.totalSteps} steps completed`)
+  } else if (result.cancelled) {
+    lines.push(`⏹ CANCELLED: ${result.stepsExecuted}/${result.totalSteps} steps completed`)
+    if (result.error) {
+      lines.push(`Reason: ${result.error}`)
+    }
   } else {
     lines.push(`❌ FAILED: ${result.stepsExecuted}/${result.totalSteps} steps completed`)
     if (result.error) {
       lines.push(`Error: ${result.error}`)
     }
   }
+
+  if (result.failedSteps?.length) {
+    lines.push(`⏭ Failed steps continued: ${result.failedSteps.length}`)
+    result.failedSteps.forEach((failedStep) => {
+      lines.push(`  - Step ${failedStep.step} (${failedStep.onFailure}): ${failedStep.error}`)
+    })
+  }
+
+  if (result.checkpointPath) {
+    lines.push(`💾 Checkpoint: ${result.checkpointPath}`)
+  }
+
+  if (result.teardownErrors?.length) {
+    lines.push(`🧹 Teardown failures: ${result.teardownErrors.length}`)
+    result.teardownErrors.forEach((error) => {
+      lines.push(`  - ${error}`)
+    })
+  }
   
   lines.push(`⏱ Execution time: ${result.executionTime}ms`)
   
@@ -434,6 +1478,25 @@ export function formatExecutionResult(result: ExecutionResult): string {
       lines.push(`  - ${screenshot}`)
     })
   }
+
+  const variableNames = Object.keys(result.variables || {})
+  if (variableNames.length > 0) {
+    lines.push(`📦 Variables: ${variableNames.length}`)
+    variableNames.forEach((name) => {
+      const value = result.variables[name]
+      const preview = Array.isArray(value) ? `${value.length} item(s)` : JSON.stringify(value)
+      lines.push(`  - ${name}: ${preview}`)
+    })
+  }
+
+  if (result.softFailures?.length > 0) {
+    lines.push(`🔎 Soft assertion failures: ${result.softFailures.length}`)
+    result.softFailures.forEach((softFailure) => {
+      lines.push(`  - Step ${softFailure.step}: ${softFailure.message}`)
+      lines.push(`      expected: ${softFailure.expected}`)
+      lines.push(`      actual:   ${softFailure.actual}`)
+    })
+  }
   
   lines.push('')
   lines.push('EXECUTION LOG:')
@@ -442,12 +1505,21 @@ export function formatExecutionResult(result: ExecutionResult): string {
   result.logs.forEach(log => {
     const timestamp = log.timestamp.toISOString().split('T')[1].split('.')[0]
     const duration = log.duration ? ` (${log.duration}ms)` : ''
-    const icon = log.status === 'success' ? '✓' : log.status === 'error' ? '✗' : '⚠'
+    const icon = {success: '✓', error: '✗', warning: '⚠', skipped: '↷', cancelled: '⏹'}[log.status]
     
+    const iteration = log.iteration ? ` [iteration ${log.iteration}]` : ''
+    const page = log.page && log.page !== 'tab 0' ? ` [${log.page}]` : ''
+    const soft = log.soft ? ' (soft)' : ''
+
     if (log.step === 0) {
       lines.push(`${timestamp} ${icon} ${log.message}${duration}`)
     } else {
-      lines.push(`${timestamp} ${icon} Step ${log.step}: ${log.message}${duration}`)
+      lines.push(`${timestamp} ${icon} Step ${log.step}${iteration}${page}: ${log.message}${soft}${duration}`)
+    }
+
+    if (log.expected !== undefined) {
+      lines.push(`    expected: ${log.expected}`)
+      lines.push(`    actual:   ${log.actual}`)
     }
   })
   
@@ -0,0 +1,170 @@
+import type {Page} from 'playwright'
+import {ActionStep, AutomationScript, Result, StepNumber, VariableStore, success, failure} from '../types/index.js'
+import type {AutoConfig} from '../config/index.js'
+import type {Logger} from '../utils/logger.js'
+import type {ExecutionResult} from './engine.js'
+
+/**
+ * State passed to every hook
+ */
+export interface HookContext {
+  script: AutomationScript
+  page: Page // active tab
+  logger: Logger
+  config: AutoConfig
+  variables: VariableStore
+}
+
+/**
+ * State passed to step hooks
+ */
+export interface StepHookContext extends HookContext {
+  step: ActionStep
+  stepNumber: StepNumber
+}
+
+/**
+ * Return value of beforeStep: skip the step, or run a modified step instead
+ */
+export interface BeforeStepOutcome {
+  skip?: boolean
+  step?: ActionStep
+}
+
+/**
+ * Return value of onError: recover turns the failure into a success, retry runs the step again
+ */
+export interface ErrorHookOutcome {
+  recover?: boolean
+  retry?: boolean
+  step?: ActionStep // step to retry instead of the failed one
+}
+
+/**
+ * Context passed to each hook
+ */
+export interface HookContexts {
+  beforeAll: HookContext
+  afterAll: HookContext & {result: ExecutionResult} // runs even when a step failed
+  beforeStep: StepHookContext
+  afterStep: StepHookContext & {result: Result<void>}
+  onError: StepHookContext & {error: string}
+}
+
+/**
+ * Return value of each hook
+ */
+export interface HookOutcomes {
+  beforeAll: void
+  afterAll: void
+  beforeStep: void | BeforeStepOutcome
+  afterStep: void
+  onError: void | ErrorHookOutcome
+}
+
+/**
+ * Lifecycle hooks, set in the config and in TypeScript/JavaScript scripts. Config hooks run first.
+ */
+export type AutoHooks = {
+  [K in keyof HookContexts]?: (context: HookContexts[K]) => HookOutcomes[K] | Promise<HookOutcomes[K]>
+}
+
+export const HOOK_NAMES: (keyof AutoHooks)[] = ['beforeAll', 'afterAll', 'beforeStep', 'afterStep', 'onError']
+
+/**
+ * Hooks of the config, the script and the run (e.g. the debugger), in call order
+ */
+export function collectHooks(config: AutoConfig, script: AutomationScript, extra?: AutoHooks): AutoHooks[] {
+  return [config.hooks, script.hooks, extra].filter((hooks): hooks is AutoHooks => hooks !== undefined)
+}
+
+/**
+ * Run beforeAll or afterAll of every hook set
+ */
+export async function runLifecycleHooks<K extends 'beforeAll' | 'afterAll'>(
+  hooks: AutoHooks[],
+  name: K,
+  context: HookContexts[K],
+): Promise<Result<void>> {
+  for (const hook of hooks) {
+    const result = await callHook(hook, name, context)
+    if (!result.success) {
+      return result
+    }
+  }
+  return success(undefined)
+}
+
+/**
+ * Run beforeStep hooks; each one sees the step modified by the previous one
+ */
+export async function runBeforeStepHooks(
+  hooks: AutoHooks[],
+  context: StepHookContext,
+): Promise<Result<{skip: boolean; step: ActionStep}>> {
+  let step = context.step
+  for (const hook of hooks) {
+    const result = await callHook(hook, 'beforeStep', {...context, step})
+    if (!result.success) {
+      return result
+    }
+    if (result.data?.skip) {
+      return success({skip: true, step})
+    }
+    step = result.data?.step || step
+  }
+  return success({skip: false, step})
+}
+
+/**
+ * Run afterStep hooks with the final result of the step
+ */
+export async function runAfterStepHooks(
+  hooks: AutoHooks[],
+  context: StepHookContext & {result: Result<void>},
+): Promise<Result<void>> {
+  for (const hook of hooks) {
+    const result = await callHook(hook, 'afterStep', context)
+    if (!result.success) {
+      return result
+    }
+  }
+  return success(undefined)
+}
+
+/**
+ * Run onError hooks; returns whether one of them recovered the failure, or the step to retry.
+ * The first hook asking for a retry ends the chain.
+ */
+export async function runErrorHooks(
+  hooks: AutoHooks[],
+  context: StepHookContext & {error: string},
+): Promise<Result<{recover: boolean; retry?: ActionStep}>> {
+  let recover = false
+  for (const hook of hooks) {
+    const result = await callHook(hook, 'onError', context)
+    if (!result.success) {
+      return result
+    }
+    if (result.data?.retry) {
+      return success({recover: false, retry: result.data.step || context.step})
+    }
+    recover ||= result.data?.recover === true
+  }
+  return success({recover})
+}
+
+/**
+ * Call one hook of a hook set, turning a thrown error into a failure naming the hook
+ */
+async function callHook<K extends keyof AutoHooks>(
+  hook: AutoHooks,
+  name: K,
+  context: HookContexts[K],
+): Promise<Result<HookOutcomes[K] | undefined>> {
+  try {
+    return success(await hook[name]?.(context))
+  } catch (error) {
+    return failure(`${name} hook failed: ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
@@ -0,0 +1,92 @@
+import {EventEmitter} from 'events'
+import {ActionStep, AutomationScript, Result, StepNumber} from '../types/index.js'
+import {AutoConfig} from '../config/index.js'
+import {ScriptFormat} from '../actions/parser.js'
+import {
+  ExecutionOptions,
+  ExecutionResult,
+  executeScript,
+  executeScriptFromFile,
+  executeScriptFromString,
+} from './engine.js'
+
+/**
+ * Payloads of the events emitted while a script runs
+ */
+export interface ExecutionEventMap {
+  'run:start': {script: string; totalSteps: number; browser: string}
+  'step:start': {stepNumber: StepNumber; step: ActionStep; summary: string; page: string}
+  'step:retry': {
+    stepNumber: StepNumber
+    step: ActionStep
+    attempt: number
+    maxAttempts: number
+    error: string
+    delay: number
+  }
+  'step:end': {
+    stepNumber: StepNumber
+    step: ActionStep
+    status: 'success' | 'failed' | 'skipped' | 'cancelled'
+    duration: number
+    error?: string
+    optionalError?: string // failure of an optional step, which ends as a success
+  }
+  screenshot: {stepNumber: StepNumber; path: string; error: boolean} // error: taken because the step failed
+  'run:end': {result: ExecutionResult}
+}
+
+export type ExecutionEventName = keyof ExecutionEventMap
+
+/**
+ * Receiver of execution events; a runner, or any EventEmitter
+ */
+export interface ExecutionEvents {
+  emit<E extends ExecutionEventName>(event: E, payload: ExecutionEventMap[E]): unknown
+}
+
+/**
+ * Script runner emitting typed progress events, e.g. for dashboards and custom reporters
+ */
+export interface Runner {
+  on<E extends ExecutionEventName>(event: E, listener: (payload: ExecutionEventMap[E]) => void): Runner
+  once<E extends ExecutionEventName>(event: E, listener: (payload: ExecutionEventMap[E]) => void): Runner
+  off<E extends ExecutionEventName>(event: E, listener: (payload: ExecutionEventMap[E]) => void): Runner
+  run(script: AutomationScript, options?: Omit<ExecutionOptions, 'events'>): Promise<Result<ExecutionResult>>
+  runFile(filePath: string, options?: Omit<ExecutionOptions, 'events'>): Promise<Result<ExecutionResult>>
+  runString(
+    content: string,
+    format?: ScriptFormat,
+    options?: Omit<ExecutionOptions, 'events'>,
+  ): Promise<Result<ExecutionResult>>
+}
+
+/**
+ * Create a runner for the given configuration
+ */
+export function createRunner(config: AutoConfig): Runner {
+  const emitter = new EventEmitter()
+  const events: ExecutionEvents = {
+    emit: (event, payload) => emitter.emit(event, payload),
+  }
+
+  const runner: Runner = {
+    on(event, listener) {
+      emitter.on(event, listener)
+      return runner
+    },
+    once(event, listener) {
+      emitter.once(event, listener)
+      return runner
+    },
+    off(event, listener) {
+      emitter.off(event, listener)
+      return runner
+    },
+    run: (script, options = {}) => executeScript(script, config, {...options, events}),
+    runFile: (filePath, options = {}) => executeScriptFromFile(filePath, config, {...options, events}),
+    runString: (content, format = 'json', options = {}) =>
+      executeScriptFromString(content, config, format, {...options, events}),
+  }
+  return runner
+}
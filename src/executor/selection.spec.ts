@@ -0,0 +1,57 @@
+import {describe, it, expect} from 'vitest'
+import {hasStepSelection, selectSteps} from './selection.js'
+import {ActionStep} from '../types/index.js'
+
+describe('Step Selection', () => {
+  const steps: ActionStep[] = [
+    {type: 'navigate', url: '/login', label: 'login'},
+    {type: 'click', selector: '#search', tags: ['smoke']},
+    {type: 'click', selector: '#cart', id: 'cart-3', tags: ['cart']},
+    {type: 'click', selector: '#pay', label: 'checkout', tags: ['smoke']},
+  ]
+
+  describe('selectSteps', () => {
+    it('should select every step by default', () => {
+      expect(selectSteps(steps)).toEqual({success: true, data: new Set([0, 1, 2, 3])})
+    })
+
+    it('should select an inclusive range by number or label', () => {
+      expect(selectSteps(steps, {from: '2', to: 'checkout'})).toEqual({success: true, data: new Set([1, 2, 3])})
+      expect(selectSteps(steps, {to: '1'})).toEqual({success: true, data: new Set([0])})
+    })
+
+    it('should select an inclusive range by id', () => {
+      expect(selectSteps(steps, {from: 'cart-3'})).toEqual({success: true, data: new Set([2, 3])})
+      expect(selectSteps(steps, {to: 'cart-3'})).toEqual({success: true, data: new Set([0, 1, 2])})
+    })
+
+    it('should select steps by number, id, label or tag within the range', () => {
+      expect(selectSteps(steps, {only: ['login', 'smoke']})).toEqual({success: true, data: new Set([0, 1, 3])})
+      expect(selectSteps(steps, {only: ['cart-3']})).toEqual({success: true, data: new Set([2])})
+      expect(selectSteps(steps, {from: '2', only: ['smoke', '3']})).toEqual({success: true, data: new Set([1, 2, 3])})
+    })
+
+    it('should reject unknown references and reversed ranges', () => {
+      expect(selectSteps(steps, {from: 'smoke'})).toEqual({
+        success: false,
+        error: "Step selection: no step with number, id or label 'smoke' for 'from'",
+      })
+      expect(selectSteps(steps, {only: ['logout']})).toEqual({
+        success: false,
+        error: "Step selection: no step with number, id, label or tag 'logout'",
+      })
+      expect(selectSteps(steps, {from: 'checkout', to: 'login'})).toEqual({
+        success: false,
+        error: "Step selection: 'checkout' comes after 'login'",
+      })
+    })
+  })
+
+  describe('hasStepSelection', () => {
+    it('should detect whether anything is selected', () => {
+      expect(hasStepSelection({})).toBe(false)
+      expect(hasStepSelection({only: []})).toBe(false)
+      expect(hasStepSelection({to: '3'})).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,67 @@
+import {ActionStep, Result, success, failure} from '../types/index.js'
+
+/**
+ * Subset of the main steps to run. Steps are referenced by number (`27`), id or label;
+ * `only` also matches tags. Setup and teardown always run.
+ */
+export interface StepSelection {
+  from?: string // first step to run
+  to?: string // last step to run
+  only?: string[] // numbers, ids, labels or tags of the steps to run
+}
+
+/**
+ * Resolve a selection to the indexes of the main steps to run
+ */
+export function selectSteps(steps: ActionStep[], selection: StepSelection = {}): Result<Set<number>> {
+  const fromResult = selection.from === undefined ? success(0) : findStep(steps, selection.from, 'from')
+  if (!fromResult.success) {
+    return fromResult
+  }
+  const toResult = selection.to === undefined ? success(steps.length - 1) : findStep(steps, selection.to, 'to')
+  if (!toResult.success) {
+    return toResult
+  }
+  if (selection.from !== undefined && selection.to !== undefined && fromResult.data > toResult.data) {
+    return failure(`Step selection: '${selection.from}' comes after '${selection.to}'`)
+  }
+
+  const only = selection.only?.filter((reference) => reference.length > 0)
+  if (only?.length) {
+    const unknown = only.find((reference) => !steps.some((step, index) => matchesStep(step, index, reference, true)))
+    if (unknown) {
+      return failure(`Step selection: no step with number, id, label or tag '${unknown}'`)
+    }
+  }
+
+  const selected = new Set<number>()
+  for (let index = fromResult.data; index <= toResult.data; index++) {
+    if (!only?.length || only.some((reference) => matchesStep(steps[index], index, reference, true))) {
+      selected.add(index)
+    }
+  }
+  return success(selected)
+}
+
+/**
+ * Check whether any part of the selection is set
+ */
+export function hasStepSelection(selection: StepSelection = {}): boolean {
+  return selection.from !== undefined || selection.to !== undefined || (selection.only?.length || 0) > 0
+}
+
+function findStep(steps: ActionStep[], reference: string, option: 'from' | 'to'): Result<number> {
+  const index = steps.findIndex((step, i) => matchesStep(step, i, reference, false))
+  return index === -1
+    ? failure(`Step selection: no step with number, id or label '${reference}' for '${option}'`)
+    : success(index)
+}
+
+function matchesStep(step: ActionStep, index: number, reference: string, withTags: boolean): boolean {
+  return (
+    String(index + 1) === reference ||
+    step.id === reference ||
+    step.label === reference ||
+    (withTags && (step.tags || []).includes(reference))
+  )
+}
@@ -0,0 +1,145 @@
+import {describe, it, expect, beforeEach, afterEach} from 'vitest'
+import {mkdtemp, rm, writeFile} from 'fs/promises'
+import {tmpdir} from 'os'
+import {join} from 'path'
+import {
+  StepEnd,
+  StepOutcome,
+  compareRuns,
+  getScriptFiles,
+  getStepStatuses,
+  recordStepEnds,
+  waitForChange,
+} from './watch.js'
+import {ActionStep} from '../types/index.js'
+
+describe('Watch', () => {
+  const ended = (
+    stepNumber: StepEnd['stepNumber'],
+    type: string,
+    status: StepEnd['status'],
+    error?: string,
+  ): StepEnd => ({
+    stepNumber,
+    step: {type} as ActionStep,
+    status,
+    duration: 0,
+    error,
+  })
+
+  describe('getStepStatuses', () => {
+    it('should take the outcome of main, setup and teardown steps from their step:end events', () => {
+      const steps = [
+        ended('setup.1', 'navigate', 'success'),
+        ended('1.then.1', 'click', 'failed', 'Element not found'),
+        ended(1, 'if', 'failed', 'Element not found'),
+        ended(2, 'click', 'failed', 'Timeout'),
+        ended(3, 'assertText', 'success'),
+        ended(4, 'click', 'skipped'),
+        ended('teardown.1', 'screenshot', 'cancelled', 'Cancelled'),
+      ]
+
+      expect(getStepStatuses(steps)).toEqual(
+        new Map<string | number, StepOutcome>([
+          ['setup.1', {status: 'passed', action: 'navigate', error: undefined}],
+          [1, {status: 'failed', action: 'if', error: 'Element not found'}],
+          [2, {status: 'failed', action: 'click', error: 'Timeout'}],
+          [3, {status: 'passed', action: 'assertText', error: undefined}],
+          [4, {status: 'skipped', action: 'click', error: undefined}],
+          ['teardown.1', {status: 'failed', action: 'screenshot', error: 'Cancelled'}],
+        ]),
+      )
+    })
+
+    it('should fail optional steps that failed and steps containing a failure', () => {
+      const steps = [
+        {...ended(1, 'click', 'success'), optionalError: 'Element not found: #banner'},
+        {...ended('2[3].1', 'click', 'success'), optionalError: 'Element not found: .row'},
+        ended('2[3].2', 'extract', 'success'),
+        ended(2, 'forEach', 'success'),
+        ended('3.then.1', 'click', 'success'),
+        ended(3, 'if', 'success'),
+      ]
+
+      expect(getStepStatuses(steps)).toEqual(
+        new Map<string | number, StepOutcome>([
+          [1, {status: 'failed', action: 'click', error: 'Element not found: #banner'}],
+          [2, {status: 'failed', action: 'forEach', error: 'Step 2[3].1 failed: Element not found: .row'}],
+          [3, {status: 'passed', action: 'if', error: undefined}],
+        ]),
+      )
+    })
+  })
+
+  describe('compareRuns', () => {
+    it('should list the steps that changed', () => {
+      const previous = [ended(1, 'navigate', 'success'), ended(2, 'click', 'failed', 'Element not found: #old')]
+      const current = [ended(1, 'navigate', 'failed', 'net::ERR_CONNECTION_REFUSED')]
+      const fixed = [ended(1, 'navigate', 'success'), ended(2, 'click', 'success')]
+
+      expect(compareRuns(previous, current)).toEqual([
+        '✗ Step 1 (navigate) now fails: net::ERR_CONNECTION_REFUSED',
+        '… Step 2 did not run',
+      ])
+      expect(compareRuns(previous, fixed)).toEqual(['✓ Step 2 (click) now passes'])
+      expect(compareRuns(fixed, fixed)).toEqual([])
+    })
+
+    it('should report a failure inside a step that passed before', () => {
+      const previous = [ended('1.then.1', 'click', 'success'), ended(1, 'if', 'success')]
+      const current = [{...ended('1.then.1', 'click', 'success'), optionalError: 'Timeout'}, ended(1, 'if', 'success')]
+
+      expect(compareRuns(previous, current)).toEqual(['✗ Step 1 (if) now fails: Step 1.then.1 failed: Timeout'])
+    })
+  })
+
+  describe('recordStepEnds', () => {
+    it('should collect the step:end events only', () => {
+      const {events, steps} = recordStepEnds()
+
+      events.emit('step:start', {stepNumber: 1, step: {type: 'click'} as ActionStep, summary: 'Click', page: 'main'})
+      events.emit('step:end', ended(1, 'click', 'success'))
+
+      expect(steps).toEqual([ended(1, 'click', 'success')])
+    })
+  })
+
+  describe('files', () => {
+    let dir: string
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'auto-run-watch-'))
+    })
+
+    afterEach(async () => {
+      await rm(dir, {recursive: true, force: true})
+    })
+
+    it('should list the script and the scripts it calls', async () => {
+      await writeFile(join(dir, 'login.json'), JSON.stringify({name: 'Login', steps: [{type: 'navigate', url: '/'}]}))
+      await writeFile(
+        join(dir, 'main.json'),
+        JSON.stringify({name: 'Main', steps: [{type: 'call', script: './login.json'}]}),
+      )
+
+      expect(await getScriptFiles(join(dir, 'main.json'))).toEqual([join(dir, 'main.json'), join(dir, 'login.json')])
+      expect(await getScriptFiles(join(dir, 'missing.json'))).toEqual([join(dir, 'missing.json')])
+    })
+
+    it('should resolve with the changed file, or undefined when aborted', async () => {
+      const file = join(dir, 'main.json')
+      await writeFile(file, '{}')
+      const controller = new AbortController()
+
+      const change = waitForChange([file], controller.signal, 10)
+      await writeFile(file, '{"name": "Main"}')
+
+      expect(await change).toBe(file)
+
+      const aborted = waitForChange([file], controller.signal, 10)
+      controller.abort()
+
+      expect(await aborted).toBeUndefined()
+    })
+  })
+})
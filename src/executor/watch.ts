@@ -0,0 +1,142 @@
+import {watch, FSWatcher} from 'fs'
+import {resolve} from 'path'
+import {StepNumber} from '../types/index.js'
+import {parseScriptFromFile} from '../actions/parser.js'
+import type {ExecutionEventMap, ExecutionEvents} from './runner.js'
+
+export type StepStatus = 'passed' | 'failed' | 'skipped'
+
+/**
+ * Script file and the script files it calls, by absolute path; just the script when it does not parse
+ */
+export async function getScriptFiles(scriptPath: string): Promise<string[]> {
+  const parseResult = await parseScriptFromFile(scriptPath)
+  const includes = parseResult.success ? Object.keys(parseResult.data.includes || {}) : []
+  return [resolve(scriptPath), ...includes]
+}
+
+/**
+ * Wait until one of the files changes; resolves with its path, or undefined when the signal fires.
+ * Saves arriving within `debounce` milliseconds count as one change.
+ */
+export function waitForChange(files: string[], signal: AbortSignal, debounce = 200): Promise<string | undefined> {
+  return new Promise((resolvePromise) => {
+    const watchers: FSWatcher[] = []
+    let timer: NodeJS.Timeout | undefined
+
+    const finish = (file?: string) => {
+      clearTimeout(timer)
+      watchers.forEach((watcher) => watcher.close())
+      signal.removeEventListener('abort', onAbort)
+      resolvePromise(file)
+    }
+    const onAbort = () => finish()
+
+    if (signal.aborted) {
+      finish()
+      return
+    }
+    signal.addEventListener('abort', onAbort, {once: true})
+
+    for (const file of new Set(files)) {
+      try {
+        // Editors saving by rename replace the watched file, so watchers are created anew for every wait
+        watchers.push(
+          watch(file, () => {
+            clearTimeout(timer)
+            timer = setTimeout(() => finish(file), debounce)
+          }),
+        )
+      } catch {
+        // Deleted while the script was running; the other files are still watched
+      }
+    }
+  })
+}
+
+/**
+ * Final outcome of every step of a run, as reported by its step:end events
+ */
+export type StepEnd = ExecutionEventMap['step:end']
+
+/**
+ * Events receiver collecting the step:end events of a run, to compare runs with
+ */
+export function recordStepEnds(): {events: ExecutionEvents; steps: StepEnd[]} {
+  const steps: StepEnd[] = []
+  return {
+    events: {
+      emit: (event, payload) => event === 'step:end' && steps.push(payload as StepEnd),
+    },
+    steps,
+  }
+}
+
+/**
+ * Outcome of a main, setup or teardown step of a run, with the error that failed it
+ */
+export interface StepOutcome {
+  status: StepStatus
+  action: string
+  error?: string
+}
+
+/**
+ * Outcome of the main, setup and teardown steps of a run. A failure inside a step, such as a failed
+ * optional step in a branch or loop, fails the step containing it.
+ */
+export function getStepStatuses(steps: StepEnd[]): Map<StepNumber, StepOutcome> {
+  const outcomes = new Map<StepNumber, StepOutcome>()
+  // Nested steps end before the step containing them
+  const nestedErrors = new Map<string, string>()
+  for (const end of steps) {
+    const [, topLevel, nested] = String(end.stepNumber).match(/^((?:(?:setup|teardown)\.)?\d+)(.*)$/) || []
+    if (!topLevel) {
+      continue
+    }
+    const failed = end.status === 'failed' || end.status === 'cancelled' || end.optionalError !== undefined
+    const error = end.error ?? end.optionalError
+    if (nested) {
+      if (failed && !nestedErrors.has(topLevel)) {
+        nestedErrors.set(topLevel, `Step ${end.stepNumber} failed${error ? `: ${error}` : ''}`)
+      }
+      continue
+    }
+
+    const nestedError = nestedErrors.get(topLevel)
+    nestedErrors.delete(topLevel)
+    const status: StepStatus =
+      end.status === 'skipped' ? 'skipped' : failed || nestedError !== undefined ? 'failed' : 'passed'
+    outcomes.set(/^\d+$/.test(topLevel) ? Number(topLevel) : topLevel, {
+      status,
+      action: end.step.type,
+      error: status === 'failed' ? (failed ? error : nestedError) : undefined,
+    })
+  }
+  return outcomes
+}
+
+/**
+ * Steps that pass or fail now and did not in the previous run, e.g. `✓ Step 3 (click) now passes`
+ */
+export function compareRuns(previous: StepEnd[], current: StepEnd[]): string[] {
+  const before = getStepStatuses(previous)
+  const after = getStepStatuses(current)
+  const lines: string[] = []
+  for (const [stepNumber, {status, action, error}] of after) {
+    if (status === before.get(stepNumber)?.status || status === 'skipped') {
+      continue
+    }
+    if (status === 'passed') {
+      lines.push(`✓ Step ${stepNumber} (${action}) now passes`)
+    } else {
+      lines.push(`✗ Step ${stepNumber} (${action}) now fails${error ? `: ${error}` : ''}`)
+    }
+  }
+  for (const [stepNumber, {status}] of before) {
+    if (status !== 'skipped' && !after.has(stepNumber)) {
+      lines.push(`… Step ${stepNumber} did not run`)
+    }
+  }
+  return lines
+}
@@ -0,0 +1,216 @@
+import {describe, it, expect, beforeEach, afterEach, vi} from 'vitest'
+import {mkdir, mkdtemp, rm, utimes, writeFile} from 'fs/promises'
+import {tmpdir} from 'os'
+import {join} from 'path'
+import {definePlugin, loadPlugins, resolvePluginPaths} from './index.js'
+import {describeStep, getActionDefinition} from '../actions/registry.js'
+import {parseScriptFromString} from '../actions/parser.js'
+import {success} from '../types/index.js'
+
+describe('Plugins', () => {
+  const datepicker = definePlugin({
+    name: 'datepicker',
+    actions: {
+      selectDate: {
+        description: 'Pick a date in the datepicker widget',
+        fields: {
+          selector: {type: 'string', required: true, description: 'Datepicker input'},
+          value: {type: 'string', required: true, description: 'Date to pick (YYYY-MM-DD)'},
+        },
+        validate: (step) =>
+          /^\d{4}-\d{2}-\d{2}$/.test(String(step.value))
+            ? undefined
+            : "datepicker.selectDate 'value' must be YYYY-MM-DD",
+        describe: (step) => `Select ${step.value} in ${step.selector}`,
+        execute: async (step, {page}) => {
+          await page.fill(step.selector as string, step.value as string)
+          return success(undefined)
+        },
+      },
+    },
+  })
+
+  describe('loadPlugins', () => {
+    it('should register plugin actions under the plugin name', async () => {
+      const result = await loadPlugins([datepicker])
+
+      expect(result).toEqual({success: true, data: ['datepicker']})
+      expect(getActionDefinition('datepicker.selectDate')).toMatchObject({category: 'plugin', plugin: 'datepicker'})
+      expect(describeStep({type: 'datepicker.selectDate', selector: '#from', value: '2025-01-31'})).toBe(
+        'Select 2025-01-31 in #from',
+      )
+    })
+
+    it('should let scripts use and validate plugin actions', async () => {
+      await loadPlugins([datepicker])
+
+      const valid = parseScriptFromString(
+        JSON.stringify({
+          name: 'Plugin',
+          steps: [{type: 'datepicker.selectDate', selector: '#from', value: '2025-01-31'}],
+        }),
+      )
+      const invalid = parseScriptFromString(
+        JSON.stringify({
+          name: 'Plugin',
+          steps: [{type: 'datepicker.selectDate', selector: '#from', value: 'tomorrow'}],
+        }),
+      )
+
+      expect(valid.success).toBe(true)
+      expect(invalid).toEqual({success: false, error: "Step 1: datepicker.selectDate 'value' must be YYYY-MM-DD"})
+    })
+
+    it('should reject fields the action does not declare', async () => {
+      await loadPlugins([datepicker])
+
+      const result = parseScriptFromString(
+        JSON.stringify({
+          name: 'Plugin',
+          steps: [{type: 'datepicker.selectDate', selector: '#from', date: '2025-01-31', value: '2025-01-31'}],
+        }),
+      )
+      const common = parseScriptFromString(
+        JSON.stringify({
+          name: 'Plugin',
+          steps: [
+            {type: 'datepicker.selectDate', selector: '#from', value: '2025-01-31', label: 'from', optional: true},
+          ],
+        }),
+      )
+
+      expect(result).toEqual({
+        success: false,
+        error: "Step 1: datepicker.selectDate action has no field 'date' (fields: selector, value)",
+      })
+      expect(common.success).toBe(true)
+    })
+
+    it('should pass page and variables to the executor', async () => {
+      await loadPlugins([datepicker])
+      const page = {fill: vi.fn()}
+
+      const result = await getActionDefinition('datepicker.selectDate')!.execute!(
+        {type: 'datepicker.selectDate', selector: '#from', value: '2025-01-31'},
+        {page: page as any, config: {} as any, variables: {}},
+      )
+
+      expect(result.success).toBe(true)
+      expect(page.fill).toHaveBeenCalledWith('#from', '2025-01-31')
+    })
+
+    it('should name the plugin expected for unknown actions', () => {
+      const result = parseScriptFromString(JSON.stringify({name: 'Plugin', steps: [{type: 'captcha.solve'}]}))
+
+      expect(result).toEqual({
+        success: false,
+        error:
+          "Step 1: unknown action 'captcha.solve': plugin 'captcha' is not loaded, add it to 'plugins' in the config file",
+      })
+    })
+
+    it('should replace a plugin registered under the same name', async () => {
+      await loadPlugins([datepicker])
+      const describe = () => 'Select a date'
+      const reloaded = {...datepicker, actions: {pickDate: {...datepicker.actions.selectDate, describe}}}
+
+      expect(await loadPlugins([reloaded])).toEqual({success: true, data: ['datepicker']})
+      expect(getActionDefinition('datepicker.pickDate')?.describe).toBe(describe)
+      expect(getActionDefinition('datepicker.selectDate')).toBeUndefined()
+      expect(await loadPlugins([datepicker, {...datepicker}])).toEqual({
+        success: false,
+        error: "Plugin 'datepicker' is listed twice, plugin names must be unique",
+      })
+    })
+
+    it('should reject actions without an executor', async () => {
+      const result = await loadPlugins([{name: 'broken', actions: {run: {describe: () => 'Run'} as any}}])
+
+      expect(result).toEqual({
+        success: false,
+        error: "Plugin 'broken': action 'run' requires 'execute' and 'describe' functions",
+      })
+    })
+  })
+
+  describe('loading from modules', () => {
+    let dir: string
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'auto-run-plugins-'))
+    })
+
+    afterEach(async () => {
+      await rm(dir, {recursive: true, force: true})
+    })
+
+    const pluginModule = (name: string) =>
+      `export default {name: '${name}', actions: {run: {description: 'Run', fields: {}, describe: () => 'Run', execute: async () => ({success: true})}}}\n`
+
+    it('should load plugins from module paths relative to the base directory', async () => {
+      await writeFile(join(dir, 'local.mjs'), pluginModule('local'))
+
+      const result = await loadPlugins(['./local.mjs'], dir)
+
+      expect(result).toEqual({success: true, data: ['local']})
+      expect(getActionDefinition('local.run')?.plugin).toBe('local')
+    })
+
+    it('should call a plugin factory once when loaded again', async () => {
+      const plugin = pluginModule('factory').replace('export default ', '')
+      await writeFile(
+        join(dir, 'factory.mjs'),
+        `export default () => {\n  globalThis.factoryCalls = (globalThis.factoryCalls || 0) + 1\n  return ${plugin}}\n`,
+      )
+
+      expect(await loadPlugins(['./factory.mjs'], dir)).toEqual({success: true, data: ['factory']})
+      expect(await loadPlugins(['./factory.mjs'], dir)).toEqual({success: true, data: ['factory']})
+      expect(await loadPlugins([join(dir, 'factory.mjs')])).toEqual({success: true, data: ['factory']})
+      expect((globalThis as {factoryCalls?: number}).factoryCalls).toBe(1)
+    })
+
+    it('should import a plugin module again once it changed', async () => {
+      const modulePath = join(dir, 'edited.mjs')
+      await writeFile(modulePath, pluginModule('edited'))
+      expect(await loadPlugins([modulePath])).toEqual({success: true, data: ['edited']})
+
+      await writeFile(
+        modulePath,
+        pluginModule('edited').replace("describe: () => 'Run'", "describe: () => 'Run again'"),
+      )
+      const later = new Date(Date.now() + 10000)
+      await utimes(modulePath, later, later)
+
+      expect(await loadPlugins([modulePath])).toEqual({success: true, data: ['edited']})
+      expect(describeStep({type: 'edited.run'})).toBe('Run again')
+    })
+
+    it('should resolve module paths of a config from its directory', () => {
+      expect(resolvePluginPaths(['./local.mjs', 'auto-plugin-shop', datepicker], dir)).toEqual([
+        join(dir, 'local.mjs'),
+        'auto-plugin-shop',
+        datepicker,
+      ])
+    })
+
+    it('should load plugins from npm packages', async () => {
+      const packageDir = join(dir, 'node_modules/auto-plugin-shop')
+      await mkdir(packageDir, {recursive: true})
+      await writeFile(join(packageDir, 'package.json'), JSON.stringify({name: 'auto-plugin-shop', main: 'index.mjs'}))
+      await writeFile(join(packageDir, 'index.mjs'), pluginModule('shop'))
+
+      const result = await loadPlugins(['auto-plugin-shop'], dir)
+
+      expect(result).toEqual({success: true, data: ['shop']})
+    })
+
+    it('should fail when a package cannot be found', async () => {
+      const result = await loadPlugins(['auto-plugin-missing'], dir)
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toContain("Failed to load plugin 'auto-plugin-missing'")
+      }
+    })
+  })
+})
@@ -0,0 +1,92 @@
+import {stat} from 'fs/promises'
+import {createRequire} from 'module'
+import {isAbsolute, join, resolve} from 'path'
+import {pathToFileURL} from 'url'
+import {Result, success, failure} from '../types/index.js'
+import {AutoPlugin, registerPlugin} from '../actions/registry.js'
+
+export type {ActionContext, AutoPlugin, PluginAction} from '../actions/registry.js'
+
+/**
+ * Plugin object, or module path / npm package name exporting one
+ */
+export type PluginSource = AutoPlugin | string
+
+// Plugins imported from modules, by module path and modification time: a factory is called once per version
+const importedPlugins = new Map<string, {mtime: number; plugin: AutoPlugin}>()
+
+/**
+ * Define a plugin with typed actions
+ */
+export function definePlugin(plugin: AutoPlugin): AutoPlugin {
+  return plugin
+}
+
+/**
+ * Module paths of the plugin sources made absolute, e.g. to resolve those of a config file from its directory
+ */
+export function resolvePluginPaths(sources: PluginSource[], baseDir: string): PluginSource[] {
+  return sources.map((source) =>
+    typeof source === 'string' && source.startsWith('.') ? resolve(baseDir, source) : source,
+  )
+}
+
+/**
+ * Load plugins and register their actions. Module paths are resolved from baseDir. Loading the same
+ * sources again, as every run of the CLI and the engine does, reuses the plugins already loaded
+ * unless their module changed.
+ */
+export async function loadPlugins(sources: PluginSource[] = [], baseDir = process.cwd()): Promise<Result<string[]>> {
+  const names: string[] = []
+
+  for (const source of sources) {
+    const pluginResult = typeof source === 'string' ? await importPlugin(source, baseDir) : success(source)
+    if (!pluginResult.success) {
+      return pluginResult
+    }
+    if (names.includes(pluginResult.data.name)) {
+      return failure(`Plugin '${pluginResult.data.name}' is listed twice, plugin names must be unique`)
+    }
+
+    const registerResult = registerPlugin(pluginResult.data)
+    if (!registerResult.success) {
+      return typeof source === 'string'
+        ? failure(`Failed to load plugin '${source}': ${registerResult.error}`)
+        : failure(registerResult.error)
+    }
+    names.push(pluginResult.data.name)
+  }
+
+  return success(names)
+}
+
+/**
+ * Import a plugin from a module path or npm package
+ */
+async function importPlugin(specifier: string, baseDir: string): Promise<Result<AutoPlugin>> {
+  try {
+    const isPath = specifier.startsWith('.') || isAbsolute(specifier)
+    const modulePath = isPath
+      ? resolve(baseDir, specifier)
+      : createRequire(join(resolve(baseDir), 'package.json')).resolve(specifier)
+    const {mtimeMs: mtime} = await stat(modulePath)
+    const imported = importedPlugins.get(modulePath)
+    if (imported?.mtime === mtime) {
+      return success(imported.plugin)
+    }
+    // Versioned by modification time like script modules, so edited plugins are imported again in watch mode
+    const url = pathToFileURL(modulePath)
+    url.search = `mtime=${mtime}`
+    const module = await import(url.href)
+    const exported = module.default || module.plugin
+    const plugin = typeof exported === 'function' ? await exported() : exported
+
+    if (!plugin || typeof plugin !== 'object') {
+      return failure(`Failed to load plugin '${specifier}': module must export a plugin as default or \`plugin\``)
+    }
+    importedPlugins.set(modulePath, {mtime, plugin})
+    return success(plugin)
+  } catch (error) {
+    return failure(`Failed to load plugin '${specifier}': ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
@@ -0,0 +1,97 @@
+import {describe, it, expect} from 'vitest'
+import {defineScript, script, steps} from './index.js'
+
+describe('Script Module', () => {
+  describe('defineScript', () => {
+    it('should return the script as is', () => {
+      const definition = defineScript({
+        name: 'Login',
+        steps: [
+          {type: 'navigate', url: 'https://example.com/login'},
+          {type: 'type', selector: '#email', value: 'alice@example.com'},
+        ],
+      })
+
+      expect(definition.steps).toHaveLength(2)
+    })
+
+    it('should reject steps missing required fields at compile time', () => {
+      defineScript({
+        name: 'Invalid',
+        // @ts-expect-error type action requires value
+        steps: [{type: 'type', selector: '#email'}],
+      })
+    })
+  })
+
+  describe('script', () => {
+    it('should build steps in order', () => {
+      const result = script('Login')
+        .description('Log in with email')
+        .baseUrl('https://example.com')
+        .navigate('/login')
+        .type('#email', '${vars.email}', {timeout: 5000})
+        .click('button[type="submit"]')
+        .assertUrl({contains: '/dashboard'}, {soft: true})
+        .build()
+
+      expect(result).toEqual({
+        name: 'Login',
+        description: 'Log in with email',
+        baseUrl: 'https://example.com',
+        steps: [
+          {type: 'navigate', url: '/login'},
+          {type: 'type', selector: '#email', value: '${vars.email}', timeout: 5000},
+          {type: 'click', selector: 'button[type="submit"]'},
+          {type: 'assertUrl', contains: '/dashboard', soft: true},
+        ],
+      })
+    })
+
+    it('should build nested steps from arrays, builders and callbacks', () => {
+      const result = script('Nested')
+        .if({selector: '.cookie-banner'}, (s) => s.click('.accept'), steps().screenshot())
+        .forEach('rows', [{type: 'extract', selector: '.name', variable: 'name'}], {as: 'row'})
+        .repeat(3, (s) => s.scroll('body', {value: 500}))
+        .build()
+
+      expect(result.steps).toEqual([
+        {
+          type: 'if',
+          condition: {selector: '.cookie-banner'},
+          then: [{type: 'click', selector: '.accept'}],
+          else: [{type: 'screenshot'}],
+        },
+        {type: 'forEach', items: 'rows', as: 'row', steps: [{type: 'extract', selector: '.name', variable: 'name'}]},
+        {type: 'repeat', times: 3, steps: [{type: 'scroll', selector: 'body', value: 500}]},
+      ])
+    })
+
+    it('should build functions, params and call steps', () => {
+      const result = script('Checkout')
+        .params('user')
+        .function('login', (s) => s.type('#user', '${vars.name}'), {params: ['name']})
+        .call({function: 'login', params: {name: '${vars.user}'}})
+        .switchTab({alias: 'payment'})
+        .build()
+
+      expect(result.params).toEqual(['user'])
+      expect(result.functions).toEqual({
+        login: {params: ['name'], steps: [{type: 'type', selector: '#user', value: '${vars.name}'}]},
+      })
+      expect(result.steps).toEqual([
+        {type: 'call', function: 'login', params: {name: '${vars.user}'}},
+        {type: 'switchTab', alias: 'payment'},
+      ])
+    })
+
+    it('should not share steps between built scripts', () => {
+      const builder = script('Reused').navigate('https://example.com')
+      const first = builder.build()
+      builder.screenshot()
+
+      expect(first.steps).toHaveLength(1)
+      expect(builder.build().steps).toHaveLength(2)
+    })
+  })
+})
@@ -0,0 +1,302 @@
+import {
+  ActionStep,
+  AutomationScript,
+  ScriptFunction,
+  StepCondition,
+  StepFields,
+  StepOf,
+  ValueComparison,
+  VariableStore,
+} from '../types/index.js'
+import type {AutoHooks} from '../executor/hooks.js'
+import type {EmulationConfig} from '../config/index.js'
+
+/**
+ * Optional fields of a step, e.g. `{timeout: 5000, optional: true}`
+ */
+export type StepOptions = Omit<StepFields, 'then' | 'else' | 'steps'>
+
+/**
+ * Nested steps: a step list, a builder, or a callback filling the given builder
+ */
+export type StepsInput = ActionStep[] | StepsBuilder | ((steps: StepsBuilder) => StepsBuilder)
+
+/**
+ * Tab to switch to by index, alias, URL pattern or title pattern
+ */
+export type TabTarget = Omit<StepOf<'switchTab'>, 'type'>
+
+/**
+ * Called script file or function with its parameters
+ */
+export type CallTarget = Omit<StepOf<'call'>, 'type'>
+
+/**
+ * Action methods of the builders; every method appends one step and returns the builder
+ */
+export interface StepMethods<B> {
+  navigate(url: string, options?: StepOptions): B
+  click(selector: string, options?: StepOptions): B
+  type(selector: string, value: string | number, options?: StepOptions): B
+  select(selector: string, value: string | number, options?: StepOptions): B
+  wait(options?: StepOptions): B
+  screenshot(options?: StepOptions): B
+  scroll(selector: string, options?: StepOptions): B
+  alert(options?: StepOptions): B
+  extract(selector: string, variable: string, options?: StepOptions): B
+  if(condition: StepCondition, then: StepsInput, otherwise?: StepsInput, options?: StepOptions): B
+  repeat(times: number, steps: StepsInput, options?: StepOptions): B
+  forEach(items: string, steps: StepsInput, options?: StepOptions): B
+  while(condition: StepCondition, steps: StepsInput, options?: StepOptions): B
+  newTab(options?: StepOptions): B
+  switchTab(target: TabTarget, options?: StepOptions): B
+  closeTab(options?: StepOptions): B
+  saveSession(profile?: string, options?: StepOptions): B
+  setGeolocation(latitude: number, longitude: number, options?: StepOptions): B
+  grantPermissions(permissions: string[], options?: StepOptions): B
+  setHeaders(headers: Record<string, string>, options?: StepOptions): B
+  route(url: string, options?: StepOptions): B // for every tab; abort, body, json, fixture, patch... in options
+  unroute(url?: string, options?: StepOptions): B
+  assertText(selector: string, comparison: ValueComparison, options?: StepOptions): B
+  assertCount(selector: string, comparison: ValueComparison, options?: StepOptions): B
+  assertVisible(selector: string, options?: StepOptions): B
+  assertHidden(selector: string, options?: StepOptions): B
+  assertAttribute(selector: string, attribute: string, comparison: ValueComparison, options?: StepOptions): B
+  assertUrl(comparison: ValueComparison, options?: StepOptions): B
+  assertTitle(comparison: ValueComparison, options?: StepOptions): B
+  assertValue(selector: string, comparison: ValueComparison, options?: StepOptions): B
+  assertVariable(variable: string, comparison: ValueComparison, options?: StepOptions): B
+  call(target: CallTarget, options?: StepOptions): B
+  step(step: ActionStep): B // append a step as is
+}
+
+/**
+ * Fluent builder of a step list
+ */
+export interface StepsBuilder extends StepMethods<StepsBuilder> {
+  build(): ActionStep[]
+}
+
+/**
+ * Fluent builder of a whole script; action methods append to the script's steps
+ */
+export interface ScriptBuilder extends StepMethods<ScriptBuilder> {
+  description(description: string): ScriptBuilder
+  baseUrl(baseUrl: string): ScriptBuilder
+  dataset(dataset: string | VariableStore[]): ScriptBuilder
+  maxDuration(milliseconds: number): ScriptBuilder
+  browser(emulation: EmulationConfig): ScriptBuilder
+  params(...params: string[]): ScriptBuilder
+  returns(...returns: string[]): ScriptBuilder
+  function(name: string, steps: StepsInput, options?: Omit<ScriptFunction, 'steps'>): ScriptBuilder
+  hooks(hooks: AutoHooks): ScriptBuilder
+  setup(steps: StepsInput): ScriptBuilder
+  teardown(steps: StepsInput): ScriptBuilder
+  build(): AutomationScript
+}
+
+/**
+ * Define an automation script in TypeScript with type-checked steps
+ */
+export function defineScript(script: AutomationScript): AutomationScript {
+  return script
+}
+
+/**
+ * Start a fluent script builder, e.g. `script('Login').navigate(url).click('#submit').build()`
+ */
+export function script(name: string): ScriptBuilder {
+  const result: AutomationScript = {name, steps: []}
+
+  const builder: ScriptBuilder = {
+    ...createStepMethods(result.steps, () => builder),
+    description(description) {
+      result.description = description
+      return builder
+    },
+    baseUrl(baseUrl) {
+      result.baseUrl = baseUrl
+      return builder
+    },
+    dataset(dataset) {
+      result.dataset = dataset
+      return builder
+    },
+    maxDuration(milliseconds) {
+      result.maxDuration = milliseconds
+      return builder
+    },
+    browser(emulation) {
+      result.browser = {...result.browser, ...emulation}
+      return builder
+    },
+    params(...params) {
+      result.params = params
+      return builder
+    },
+    returns(...returns) {
+      result.returns = returns
+      return builder
+    },
+    function(name, steps, options = {}) {
+      result.functions = {...result.functions, [name]: {...options, steps: resolveSteps(steps)}}
+      return builder
+    },
+    hooks(hooks) {
+      result.hooks = {...result.hooks, ...hooks}
+      return builder
+    },
+    setup(steps) {
+      result.setup = resolveSteps(steps)
+      return builder
+    },
+    teardown(steps) {
+      result.teardown = resolveSteps(steps)
+      return builder
+    },
+    build() {
+      return {...result, steps: [...result.steps]}
+    },
+  }
+  return builder
+}
+
+/**
+ * Start a fluent builder of a step list, e.g. for nested steps
+ */
+export function steps(): StepsBuilder {
+  const list: ActionStep[] = []
+  const builder: StepsBuilder = {
+    ...createStepMethods(list, () => builder),
+    build() {
+      return [...list]
+    },
+  }
+  return builder
+}
+
+/**
+ * Action methods shared by script and step builders, appending to `list`
+ */
+function createStepMethods<B>(list: ActionStep[], builder: () => B): StepMethods<B> {
+  const add = (step: ActionStep): B => {
+    list.push(step)
+    return builder()
+  }
+
+  return {
+    navigate(url, options) {
+      return add({...options, type: 'navigate', url})
+    },
+    click(selector, options) {
+      return add({...options, type: 'click', selector})
+    },
+    type(selector, value, options) {
+      return add({...options, type: 'type', selector, value})
+    },
+    select(selector, value, options) {
+      return add({...options, type: 'select', selector, value})
+    },
+    wait(options) {
+      return add({...options, type: 'wait'})
+    },
+    screenshot(options) {
+      return add({...options, type: 'screenshot'})
+    },
+    scroll(selector, options) {
+      return add({...options, type: 'scroll', selector})
+    },
+    alert(options) {
+      return add({...options, type: 'alert'})
+    },
+    extract(selector, variable, options) {
+      return add({...options, type: 'extract', selector, variable})
+    },
+    if(condition, then, otherwise, options) {
+      const step: ActionStep = {...options, type: 'if', condition, then: resolveSteps(then)}
+      if (otherwise) {
+        step.else = resolveSteps(otherwise)
+      }
+      return add(step)
+    },
+    repeat(times, steps, options) {
+      return add({...options, type: 'repeat', times, steps: resolveSteps(steps)})
+    },
+    forEach(items, steps, options) {
+      return add({...options, type: 'forEach', items, steps: resolveSteps(steps)})
+    },
+    while(condition, steps, options) {
+      return add({...options, type: 'while', condition, steps: resolveSteps(steps)})
+    },
+    newTab(options) {
+      return add({...options, type: 'newTab'})
+    },
+    switchTab(target, options) {
+      return add({...options, ...target, type: 'switchTab'} as ActionStep)
+    },
+    closeTab(options) {
+      return add({...options, type: 'closeTab'})
+    },
+    saveSession(profile, options) {
+      return add({...options, type: 'saveSession', ...(profile && {profile})})
+    },
+    setGeolocation(latitude, longitude, options) {
+      return add({...options, type: 'setGeolocation', latitude, longitude})
+    },
+    grantPermissions(permissions, options) {
+      return add({...options, type: 'grantPermissions', permissions})
+    },
+    setHeaders(headers, options) {
+      return add({...options, type: 'setHeaders', headers})
+    },
+    route(url, options) {
+      return add({...options, type: 'route', url})
+    },
+    unroute(url, options) {
+      return add({...options, type: 'unroute', ...(url && {url})})
+    },
+    assertText(selector, comparison, options) {
+      return add({...options, ...comparison, type: 'assertText', selector})
+    },
+    assertCount(selector, comparison, options) {
+      return add({...options, ...comparison, type: 'assertCount', selector})
+    },
+    assertVisible(selector, options) {
+      return add({...options, type: 'assertVisible', selector})
+    },
+    assertHidden(selector, options) {
+      return add({...options, type: 'assertHidden', selector})
+    },
+    assertAttribute(selector, attribute, comparison, options) {
+      return add({...options, ...comparison, type: 'assertAttribute', selector, attribute})
+    },
+    assertUrl(comparison, options) {
+      return add({...options, ...comparison, type: 'assertUrl'})
+    },
+    assertTitle(comparison, options) {
+      return add({...options, ...comparison, type: 'assertTitle'})
+    },
+    assertValue(selector, comparison, options) {
+      return add({...options, ...comparison, type: 'assertValue', selector})
+    },
+    assertVariable(variable, comparison, options) {
+      return add({...options, ...comparison, type: 'assertVariable', variable})
+    },
+    call(target, options) {
+      return add({...options, ...target, type: 'call'} as ActionStep)
+    },
+    step(step) {
+      return add(step)
+    },
+  }
+}
+
+function resolveSteps(input: StepsInput): ActionStep[] {
+  if (Array.isArray(input)) {
+    return input
+  }
+  if (typeof input === 'function') {
+    return input(steps()).build()
+  }
+  return input.build()
+}
@@ -1,19 +1,224 @@
-export interface ActionStep {
-  type: 'navigate' | 'click' | 'type' | 'wait' | 'screenshot' | 'scroll' | 'select' | 'alert'
+import type {AutoHooks} from '../executor/hooks.js'
+import type {EmulationConfig} from '../config/index.js'
+
+/**
+ * Action type of a step
+ */
+export type ActionType =
+  | 'navigate'
+  | 'click'
+  | 'type'
+  | 'wait'
+  | 'screenshot'
+  | 'scroll'
+  | 'select'
+  | 'alert'
+  | 'extract'
+  | 'if'
+  | 'repeat'
+  | 'forEach'
+  | 'while'
+  | 'newTab'
+  | 'switchTab'
+  | 'closeTab'
+  | 'saveSession'
+  | 'setGeolocation'
+  | 'grantPermissions'
+  | 'setHeaders'
+  | 'route'
+  | 'unroute'
+  | 'assertText'
+  | 'assertCount'
+  | 'assertVisible'
+  | 'assertHidden'
+  | 'assertAttribute'
+  | 'assertUrl'
+  | 'assertTitle'
+  | 'assertValue'
+  | 'assertVariable'
+  | 'call'
+
+/**
+ * What to do when a step fails: end the run, go on with the next step, skip the rest of the step list,
+ * or jump to a later step of the same list by its label
+ */
+export type FailurePolicy = 'stop' | 'continue' | 'skipRest' | `goto:${string}`
+
+/**
+ * Fields shared by all actions; which ones apply depends on the action type
+ */
+export interface StepFields extends ValueComparison {
   selector?: string
   value?: string | number
   url?: string
   timeout?: number
   description?: string
-  optional?: boolean
-  frame?: string  // iframe selector
-  promptText?: string  // for alert prompts
+  optional?: boolean // a failure is logged as a warning and the run goes on
+  id?: string // stable identifier of the step, targeted like a label
+  label?: string // name of the step, targeted by onFailure: 'goto:<label>' and step selections
+  tags?: string[] // selected with --only <tag>
+  onFailure?: FailurePolicy // default: 'stop', or 'continue' with actions.continueOnError
+  frame?: string // iframe selector
+  promptText?: string // for alert prompts
+  attribute?: string // for extract: 'text', 'value', 'html' or any attribute name; for assertAttribute: attribute name
+  variable?: string // for extract: variable name to store the result in; for assertVariable: variable path to check; for call: variable to store returned values in
+  multiple?: boolean // for extract: collect all matches as a list
+  append?: boolean // for extract: add to an existing list instead of replacing it
+  condition?: StepCondition // for if and while
+  then?: ActionStep[] // for if: steps run when the condition holds
+  else?: ActionStep[] // for if: steps run otherwise
+  steps?: ActionStep[] // for loops: steps run on every iteration
+  times?: number // for repeat
+  items?: string // for forEach: variable path of the list to iterate
+  as?: string // for loops: variable bound to the current item (forEach) or index (repeat, while)
+  maxIterations?: number // for while: guard against endless loops
+  index?: number // for switchTab/closeTab: 0-based tab index
+  alias?: string // for newTab and popup clicks: name for the new tab; for switchTab/closeTab: tab to find
+  urlPattern?: string // for switchTab/closeTab: match tab by URL (substring, glob or /regex/)
+  titlePattern?: string // for switchTab/closeTab: match tab by title (substring, glob or /regex/)
+  popup?: boolean // for click: wait for the popup opened by the click and switch to it
+  soft?: boolean // for assert actions: record the failure and continue the run
+  script?: string // for call: script file to run, relative to the calling script
+  function?: string // for call: name of a function in the script's functions section
+  params?: Record<string, string | number | boolean> // for call: named parameters, available as ${vars.name}
+  profile?: string // for saveSession: profile name or storageState file
+  latitude?: number // for setGeolocation
+  longitude?: number // for setGeolocation
+  accuracy?: number // for setGeolocation: meters
+  permissions?: string[] // for grantPermissions: e.g. 'geolocation', 'notifications', 'clipboard-read'
+  origin?: string // for grantPermissions: site the permissions apply to, default: every site
+  headers?: Record<string, string> // for setHeaders: HTTP headers sent with every later request; for route: response headers
+  resourceTypes?: string[] // for route: request types to match, e.g. 'image', 'xhr'
+  abort?: string // for route: fail matching requests with this error code, e.g. 'failed', 'timedout'
+  status?: number // for route: response status
+  body?: string // for route: response body
+  json?: unknown // for route: response body, serialized as JSON
+  fixture?: string // for route: file served as the response body, relative to the script file
+  contentType?: string // for route: content type of the response (default: from json or the fixture's extension)
+  patch?: Record<string, unknown> // for route: merged into the top level of the real JSON response
+  replace?: Record<string, string> // for route: text replacements in the body of the real response
+}
+
+/**
+ * Tab to find by index, alias, URL pattern or title pattern
+ */
+type TabTarget = {index: number} | {alias: string} | {urlPattern: string} | {titlePattern: string}
+
+/**
+ * Fields each action requires
+ */
+interface RequiredStepFields {
+  navigate: {url: string}
+  click: {selector: string}
+  type: {selector: string; value: string | number}
+  wait: {}
+  screenshot: {}
+  scroll: {selector: string}
+  select: {selector: string; value: string | number}
+  alert: {}
+  extract: {selector: string; variable: string}
+  if: {condition: StepCondition; then: ActionStep[]}
+  repeat: {times: number; steps: ActionStep[]}
+  forEach: {items: string; steps: ActionStep[]}
+  while: {condition: StepCondition; steps: ActionStep[]}
+  newTab: {}
+  switchTab: TabTarget
+  closeTab: {}
+  saveSession: {}
+  setGeolocation: {latitude: number; longitude: number}
+  grantPermissions: {permissions: string[]}
+  setHeaders: {headers: Record<string, string>}
+  route: {}
+  unroute: {}
+  assertText: {selector: string}
+  assertCount: {selector: string}
+  assertVisible: {selector: string}
+  assertHidden: {selector: string}
+  assertAttribute: {selector: string; attribute: string}
+  assertUrl: {}
+  assertTitle: {}
+  assertValue: {selector: string}
+  assertVariable: {variable: string}
+  call: {script: string} | {function: string}
+}
+
+/**
+ * Step of an action contributed by a plugin, typed `plugin.action`
+ */
+export type PluginStep = {type: `${string}.${string}`} & StepFields & {[field: string]: unknown}
+
+/**
+ * Automation step, discriminated by `type` so each action's required fields are checked at compile time
+ */
+export type ActionStep = {[K in ActionType]: {type: K} & StepFields & RequiredStepFields[K]}[ActionType] | PluginStep
+
+/**
+ * Step of the given action type
+ */
+export type StepOf<K extends ActionType> = Extract<ActionStep, {type: K}>
+
+/**
+ * Comparison applied to a value. All given comparisons must hold.
+ */
+export interface ValueComparison {
+  equals?: string | number | boolean
+  notEquals?: string | number | boolean
+  contains?: string
+  matches?: string // substring, glob (*) or /regex/
+  greaterThan?: number
+  lessThan?: number
 }
 
+/**
+ * Condition checked by control-flow steps. All given checks must hold.
+ */
+export interface StepCondition extends ValueComparison {
+  selector?: string
+  frame?: string
+  exists?: boolean // element exists (default check when only selector is given)
+  visible?: boolean // element is visible
+  text?: string // text contained in the element, or in the page body without selector
+  url?: string // current URL matches a substring, glob (*) or /regex/
+  variable?: string // variable path to compare, e.g. 'rows[0].name'
+  not?: boolean // negate the whole condition
+}
+
+/**
+ * Step number, or a dotted path such as `3.then.1` for nested steps
+ */
+export type StepNumber = number | string
+
+/**
+ * Runtime variables shared between the steps of one execution
+ */
+export type VariableStore = Record<string, unknown>
+
 export interface AutomationScript {
   name: string
   description?: string
   baseUrl?: string
+  dataset?: string | VariableStore[] // CSV/JSON file relative to the script, or inline rows; runs the script once per row
+  maxDuration?: number // milliseconds before the run is cancelled; teardown still runs
+  storageState?: string // session to start with, overrides browser.storageState of the config
+  saveStorageState?: string // session to save when the main steps succeeded, overrides the config
+  browser?: EmulationConfig // device, locale, timezone and other emulation settings overriding the config
+  params?: string[] // parameters required when the script is called from another script
+  returns?: string[] // variables handed back to the calling script
+  functions?: Record<string, ScriptFunction> // reusable step groups run by call steps
+  includes?: Record<string, AutomationScript> // called script files by absolute path, loaded by parseScriptFromFile
+  hooks?: AutoHooks // lifecycle hooks, only in TypeScript/JavaScript scripts
+  setup?: ActionStep[] // steps run before the main steps
+  steps: ActionStep[]
+  teardown?: ActionStep[] // steps run after the main steps, even when they failed
+}
+
+/**
+ * Reusable step group of a script, run by `{"type": "call", "function": "name"}`
+ */
+export interface ScriptFunction {
+  description?: string
+  params?: string[]
+  returns?: string[]
   steps: ActionStep[]
 }
 
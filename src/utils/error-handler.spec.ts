@@ -213,6 +213,28 @@ describe('Error Handler', () => {
       expect(operation).toHaveBeenCalledTimes(2)
     })
 
+    it('should stop retrying once the signal is aborted', async () => {
+      const controller = new AbortController()
+      const operation = vi.fn().mockResolvedValue(failure('Element not found'))
+      const config = defineConfig({
+        actions: {
+          waitBetweenActions: 0,
+          retryAttempts: 3,
+          screenshotOnError: false
+        }
+      })
+      const step: ActionStep = {type: 'click', selector: 'button'}
+
+      const promise = executeWithSmartRetry(operation, config, step, 1, undefined, controller.signal)
+      await vi.advanceTimersByTimeAsync(0)
+      controller.abort()
+
+      const result = await promise
+
+      expect(result.success).toBe(false)
+      expect(operation).toHaveBeenCalledTimes(1)
+    })
+
     it('should not retry non-retryable errors', async () => {
       const operation = vi.fn().mockResolvedValue(failure('Validation failed'))
       
@@ -311,7 +333,7 @@ describe('Error Handler', () => {
       const errors = [
         classifyError('Element not found', {type: 'click', selector: 'button'}, 1),
         classifyError('Element not found', {type: 'click', selector: 'input'}, 2),
-        classifyError('Timeout waiting for element', {type: 'type', selector: 'input'}, 3),
+        classifyError('Timeout waiting for element', {type: 'type', selector: 'input', value: 'text'}, 3),
         classifyError('Network connection failed', {type: 'navigate', url: 'https://example.com'}, 4),
       ]
       
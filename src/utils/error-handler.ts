@@ -1,4 +1,4 @@
-import {ActionStep, Result, success, failure} from '../types/index.js'
+import {ActionStep, Result, StepNumber, success, failure} from '../types/index.js'
 import {AutoConfig} from '../config/index.js'
 
 /**
@@ -38,7 +38,7 @@ export interface ClassifiedError {
   strategy?: RetryStrategy
   context?: {
     step?: ActionStep
-    stepNumber?: number
+    stepNumber?: StepNumber
     selector?: string
     url?: string
   }
@@ -106,7 +106,7 @@ const DEFAULT_RETRY_STRATEGIES: Record<ErrorType, RetryStrategy> = {
 export function classifyError(
   error: string,
   step?: ActionStep,
-  stepNumber?: number,
+  stepNumber?: StepNumber,
 ): ClassifiedError {
   const lowerError = error.toLowerCase()
 
@@ -278,6 +278,21 @@ export function calculateRetryDelay(
   }
 }
 
+/**
+ * Wait for the retry delay, or until the signal fires
+ */
+function sleep(milliseconds: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', done)
+      resolve()
+    }
+    const timer = setTimeout(done, milliseconds)
+    signal?.addEventListener('abort', done, {once: true})
+  })
+}
+
 /**
  * Enhanced retry executor with smart error handling
  */
@@ -285,7 +300,9 @@ export async function executeWithSmartRetry<T>(
   operation: () => Promise<Result<T>>,
   config: AutoConfig,
   step?: ActionStep,
-  stepNumber?: number,
+  stepNumber?: StepNumber,
+  onRetry?: (retry: {attempt: number; maxAttempts: number; error: string; delay: number}) => void,
+  signal?: AbortSignal,
 ): Promise<Result<T>> {
   let lastError: ClassifiedError | null = null
   let attempt = 1
@@ -310,7 +327,8 @@ export async function executeWithSmartRetry<T>(
       const strategy = classifiedError.strategy || DEFAULT_RETRY_STRATEGIES[classifiedError.type]
       const maxAttempts = Math.min(strategy.maxAttempts, config.actions.retryAttempts)
 
-      if (!classifiedError.isRetryable || attempt >= maxAttempts) {
+      // A cancelled run gets no further attempts
+      if (!classifiedError.isRetryable || attempt >= maxAttempts || signal?.aborted) {
         break
       }
 
@@ -334,12 +352,16 @@ export async function executeWithSmartRetry<T>(
 
       // Calculate and wait for retry delay
       const delay = calculateRetryDelay(strategy, attempt)
+      onRetry?.({attempt, maxAttempts, error: classifiedError.message, delay})
       if (config.logging.verbose && delay > 0) {
         console.log(`  Retrying in ${delay}ms...`)
       }
       
       if (delay > 0) {
-        await new Promise(resolve => setTimeout(resolve, delay))
+        await sleep(delay, signal)
+      }
+      if (signal?.aborted) {
+        break
       }
 
       attempt++
@@ -2,6 +2,7 @@ import {writeFile, mkdir, readdir, stat, unlink} from 'fs/promises'
 import {existsSync} from 'fs'
 import {join, dirname} from 'path'
 import {AutoConfig} from '../config/index.js'
+import {StepNumber} from '../types/index.js'
 
 /**
  * Log levels in order of severity
@@ -22,7 +23,7 @@ export interface LogEntry {
   category: string
   message: string
   data?: any
-  step?: number
+  step?: StepNumber
   duration?: number
   screenshot?: string
 }
@@ -49,7 +50,7 @@ export interface ScreenshotInfo {
   filename: string
   path: string
   timestamp: Date
-  step?: number
+  step?: StepNumber
   type: 'success' | 'error' | 'debug'
   size: number
 }
@@ -128,35 +129,35 @@ export class Logger {
   /**
    * Log debug message
    */
-  debug(message: string, data?: any, step?: number): void {
+  debug(message: string, data?: any, step?: StepNumber): void {
     this.log(LogLevel.DEBUG, 'debug', message, data, step)
   }
 
   /**
    * Log info message
    */
-  info(message: string, data?: any, step?: number): void {
+  info(message: string, data?: any, step?: StepNumber): void {
     this.log(LogLevel.INFO, 'info', message, data, step)
   }
 
   /**
    * Log warning message
    */
-  warn(message: string, data?: any, step?: number): void {
+  warn(message: string, data?: any, step?: StepNumber): void {
     this.log(LogLevel.WARN, 'warn', message, data, step)
   }
 
   /**
    * Log error message
    */
-  error(message: string, data?: any, step?: number): void {
+  error(message: string, data?: any, step?: StepNumber): void {
     this.log(LogLevel.ERROR, 'error', message, data, step)
   }
 
   /**
    * Log step execution
    */
-  step(stepNumber: number, action: string, message: string, duration?: number, success: boolean = true): void {
+  step(stepNumber: StepNumber, action: string, message: string, duration?: number, success: boolean = true): void {
     const level = success ? LogLevel.INFO : LogLevel.ERROR
     const category = `step-${action}`
     this.log(level, category, message, {stepNumber, action, success}, stepNumber, duration)
@@ -189,7 +190,7 @@ export class Logger {
    */
   async screenshot(
     screenshotPath: string, 
-    step?: number, 
+    step?: StepNumber, 
     type: 'success' | 'error' | 'debug' = 'success'
   ): Promise<void> {
     try {
@@ -218,7 +219,7 @@ export class Logger {
     category: string, 
     message: string, 
     data?: any, 
-    step?: number, 
+    step?: StepNumber, 
     duration?: number
   ): void {
     // Check if log level is enabled
@@ -0,0 +1,58 @@
+import {describe, it, expect} from 'vitest'
+import {matchesPattern, compareValue, describeComparison, hasComparison, isValidPattern} from './matcher.js'
+
+describe('Matcher', () => {
+  describe('matchesPattern', () => {
+    it('should match substrings', () => {
+      expect(matchesPattern('https://example.com/dashboard', '/dashboard')).toBe(true)
+      expect(matchesPattern('https://example.com/login', 'dashboard')).toBe(false)
+    })
+
+    it('should match globs against the whole value', () => {
+      expect(matchesPattern('https://example.com/app/dashboard', '**/dashboard')).toBe(true)
+      expect(matchesPattern('https://example.com/app/dashboard?x=1', '*/dashboard')).toBe(false)
+    })
+
+    it('should match regular expressions', () => {
+      expect(matchesPattern('Order #123', '/#\\d+$/')).toBe(true)
+      expect(matchesPattern('ORDER', '/order/i')).toBe(true)
+      expect(matchesPattern('anything', '/[unclosed/')).toBe(false)
+    })
+  })
+
+  describe('isValidPattern', () => {
+    it('should accept substrings, globs and regular expressions that compile', () => {
+      expect(isValidPattern('**/api/user')).toBe(true)
+      expect(isValidPattern('/analytics/')).toBe(true)
+      expect(isValidPattern('google-analytics.com')).toBe(true)
+      expect(isValidPattern('/[unclosed/')).toBe(false)
+      expect(isValidPattern('')).toBe(false)
+    })
+  })
+
+  describe('compareValue', () => {
+    it('should compare equality loosely across types', () => {
+      expect(compareValue('3', {equals: 3})).toBe(true)
+      expect(compareValue(true, {equals: 'true'})).toBe(true)
+      expect(compareValue('a', {notEquals: 'a'})).toBe(false)
+    })
+
+    it('should check contains on strings and arrays', () => {
+      expect(compareValue('Welcome back', {contains: 'back'})).toBe(true)
+      expect(compareValue(['a', 'b'], {contains: 'b'})).toBe(true)
+      expect(compareValue(['a', 'b'], {contains: 'c'})).toBe(false)
+    })
+
+    it('should compare numbers and array lengths', () => {
+      expect(compareValue('10', {greaterThan: 5, lessThan: 20})).toBe(true)
+      expect(compareValue([1, 2, 3], {greaterThan: 3})).toBe(false)
+    })
+  })
+
+  describe('describeComparison', () => {
+    it('should join operators', () => {
+      expect(describeComparison({equals: 'Home', greaterThan: 1})).toBe('equals "Home" and > 1')
+      expect(hasComparison({})).toBe(false)
+    })
+  })
+})
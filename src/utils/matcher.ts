@@ -0,0 +1,122 @@
+import {ValueComparison} from '../types/index.js'
+
+/**
+ * Check if value matches a pattern: `/regex/flags`, a glob with `*`, or a plain substring
+ */
+export function matchesPattern(value: string, pattern: string): boolean {
+  const regexMatch = pattern.match(/^\/(.+)\/([a-z]*)$/)
+  if (regexMatch) {
+    try {
+      return new RegExp(regexMatch[1], regexMatch[2]).test(value)
+    } catch {
+      return false
+    }
+  }
+
+  if (pattern.includes('*')) {
+    const escaped = pattern
+      .split('*')
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*')
+    return new RegExp(`^${escaped}$`).test(value)
+  }
+
+  return value.includes(pattern)
+}
+
+/**
+ * Check if a pattern can be matched: a `/regex/flags` must compile, a glob or substring must not be empty
+ */
+export function isValidPattern(pattern: string): boolean {
+  const regexMatch = pattern.match(/^\/(.+)\/([a-z]*)$/)
+  if (regexMatch) {
+    try {
+      new RegExp(regexMatch[1], regexMatch[2])
+      return true
+    } catch {
+      return false
+    }
+  }
+  return pattern.length > 0
+}
+
+/**
+ * Check if a comparison has at least one operator set
+ */
+export function hasComparison(comparison: ValueComparison): boolean {
+  return (
+    comparison.equals !== undefined ||
+    comparison.notEquals !== undefined ||
+    comparison.contains !== undefined ||
+    comparison.matches !== undefined ||
+    comparison.greaterThan !== undefined ||
+    comparison.lessThan !== undefined
+  )
+}
+
+/**
+ * Compare a value against all operators of a comparison
+ */
+export function compareValue(actual: unknown, comparison: ValueComparison): boolean {
+  if (comparison.equals !== undefined && !looselyEquals(actual, comparison.equals)) {
+    return false
+  }
+
+  if (comparison.notEquals !== undefined && looselyEquals(actual, comparison.notEquals)) {
+    return false
+  }
+
+  if (comparison.contains !== undefined) {
+    const contained = Array.isArray(actual)
+      ? actual.some((item) => looselyEquals(item, comparison.contains!))
+      : String(actual ?? '').includes(comparison.contains)
+    if (!contained) {
+      return false
+    }
+  }
+
+  if (comparison.matches !== undefined && !matchesPattern(String(actual ?? ''), comparison.matches)) {
+    return false
+  }
+
+  if (comparison.greaterThan !== undefined && !(toNumber(actual) > comparison.greaterThan)) {
+    return false
+  }
+
+  if (comparison.lessThan !== undefined && !(toNumber(actual) < comparison.lessThan)) {
+    return false
+  }
+
+  return true
+}
+
+/**
+ * Describe a comparison for logs, e.g. `equals "Home" and contains "Ho"`
+ */
+export function describeComparison(comparison: ValueComparison): string {
+  const parts: string[] = []
+  if (comparison.equals !== undefined) parts.push(`equals ${JSON.stringify(comparison.equals)}`)
+  if (comparison.notEquals !== undefined) parts.push(`not equals ${JSON.stringify(comparison.notEquals)}`)
+  if (comparison.contains !== undefined) parts.push(`contains ${JSON.stringify(comparison.contains)}`)
+  if (comparison.matches !== undefined) parts.push(`matches ${comparison.matches}`)
+  if (comparison.greaterThan !== undefined) parts.push(`> ${comparison.greaterThan}`)
+  if (comparison.lessThan !== undefined) parts.push(`< ${comparison.lessThan}`)
+  return parts.join(' and ')
+}
+
+/**
+ * Compare values as strings so "3" from the page equals 3 from the script
+ */
+function looselyEquals(actual: unknown, expected: string | number | boolean): boolean {
+  if (typeof actual === typeof expected) {
+    return actual === expected
+  }
+  return String(actual) === String(expected)
+}
+
+function toNumber(value: unknown): number {
+  if (Array.isArray(value)) {
+    return value.length
+  }
+  return typeof value === 'number' ? value : parseFloat(String(value))
+}
@@ -0,0 +1,45 @@
+/**
+ * Check if URL is valid
+ */
+export function isValidUrl(url: string): boolean {
+  try {
+    new URL(url)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Check if variable name can be referenced with ${vars.name}
+ */
+export function isValidVariableName(name: string): boolean {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name)
+}
+
+/**
+ * Check if variable path such as `rows[0].name` is well-formed
+ */
+export function isValidVariablePath(path: string): boolean {
+  return /^[A-Za-z_][A-Za-z0-9_]*(\[\d+\]|\.[A-Za-z0-9_]+)*$/.test(path)
+}
+
+/**
+ * Basic CSS selector validation
+ */
+export function isValidSelector(selector: string): boolean {
+  try {
+    // Try to use querySelector to validate selector
+    // This is a basic check - in a real browser environment, we'd use document.querySelector
+    if (selector.trim().length === 0) return false
+
+    // Basic checks for common invalid patterns
+    if (selector.includes('>>') || selector.includes('<<<')) return false
+    if (selector.startsWith('.') && selector.length === 1) return false
+    if (selector.startsWith('#') && selector.length === 1) return false
+
+    return true
+  } catch {
+    return false
+  }
+}
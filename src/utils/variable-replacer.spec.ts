@@ -0,0 +1,53 @@
+import {describe, it, expect} from 'vitest'
+import {replaceVariables, resolveVariablePath, stringifyVariable} from './variable-replacer.js'
+
+describe('Variable Replacer', () => {
+  describe('resolveVariablePath', () => {
+    const variables = {
+      title: 'Quotes',
+      rows: [{name: 'Alice'}, {name: 'Bob'}],
+    }
+
+    it('should resolve simple names', () => {
+      expect(resolveVariablePath(variables, 'title')).toBe('Quotes')
+    })
+
+    it('should resolve array indexes and properties', () => {
+      expect(resolveVariablePath(variables, 'rows[1].name')).toBe('Bob')
+      expect(resolveVariablePath(variables, 'rows.0.name')).toBe('Alice')
+    })
+
+    it('should return undefined for missing paths', () => {
+      expect(resolveVariablePath(variables, 'missing.name')).toBeUndefined()
+      expect(resolveVariablePath(variables, 'title.length.value')).toBeUndefined()
+    })
+  })
+
+  describe('stringifyVariable', () => {
+    it('should keep strings and stringify other values', () => {
+      expect(stringifyVariable('text')).toBe('text')
+      expect(stringifyVariable(42)).toBe('42')
+      expect(stringifyVariable(['a', 'b'])).toBe('["a","b"]')
+    })
+  })
+
+  describe('replaceVariables', () => {
+    it('should substitute runtime variables', () => {
+      const result = replaceVariables('Hello ${vars.user.name}, page ${vars.pages[0]}', {
+        user: {name: 'Alice'},
+        pages: [3],
+      })
+
+      expect(result).toBe('Hello Alice, page 3')
+    })
+
+    it('should leave unknown runtime variables untouched', () => {
+      expect(replaceVariables('${vars.missing}', {})).toBe('${vars.missing}')
+      expect(replaceVariables('${vars.title}')).toBe('${vars.title}')
+    })
+
+    it('should leave unrelated placeholders untouched', () => {
+      expect(replaceVariables('${something}', {something: 'x'})).toBe('${something}')
+    })
+  })
+})
@@ -1,9 +1,12 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { parse } from 'dotenv';
+import { VariableStore } from '../types/index.js';
 
 const envCache: Record<string, Record<string, string>> = {};
 
+const VARS_PREFIX = 'vars.';
+
 function getEnvFromFile(fileName: string): Record<string, string> {
   const filePath = path.resolve(process.cwd(), fileName);
   if (envCache[filePath]) {
@@ -20,16 +23,67 @@ function getEnvFromFile(fileName: string): Record<string, string> {
   }
 }
 
-export function replaceVariables(value: string): string {
+/**
+ * Resolve a variable path such as `rows[0].name` against the variable store
+ */
+export function resolveVariablePath(variables: VariableStore, variablePath: string): unknown {
+  const segments = variablePath
+    .replace(/\[(\d+)\]/g, '.$1')
+    .split('.')
+    .filter((segment) => segment.length > 0);
+
+  let current: unknown = variables;
+  for (const segment of segments) {
+    if (current === null || current === undefined || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+
+  return current;
+}
+
+/**
+ * Convert a variable value to the string used in substitutions
+ */
+export function stringifyVariable(value: unknown): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  return JSON.stringify(value);
+}
+
+function replaceRuntimeVariable(match: string, placeholder: string, variables?: VariableStore): string {
+  if (!variables) {
+    return match;
+  }
+
+  const value = resolveVariablePath(variables, placeholder.slice(VARS_PREFIX.length));
+  if (value === undefined) {
+    return match;
+  }
+
+  return stringifyVariable(value);
+}
+
+export function replaceVariables(value: string, variables?: VariableStore): string {
   const regex = /\${(.+?)}/g;
   return value.replace(regex, (match, placeholder) => {
+    if (placeholder.startsWith(VARS_PREFIX)) {
+      return replaceRuntimeVariable(match, placeholder, variables);
+    }
+
     const parts = placeholder.split('>');
     if (parts.length !== 2) {
       return match;
     }
 
+    // `env>NAME`, `env.staging>NAME`, and the same with a leading dot
     const [envPart, varName] = parts;
-    const [,envKeyword, ...envFileNameParts] = envPart.split('.');
+    const [envKeyword, ...envFileNameParts] = envPart.replace(/^\./, '').split('.');
     const envFileName = envFileNameParts.join('.');
 
     if (envKeyword !== 'env') {